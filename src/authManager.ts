@@ -0,0 +1,291 @@
+import * as vscode from 'vscode';
+import { AnyAuthMethod, AuthenticationType, AuthHandlerMiddleware, KeyboardInteractiveCallback, NextAuthHandler, Prompt, utils } from 'ssh2';
+import * as fs from 'fs';
+import * as os from 'os';
+import { ServerDetails } from './sshConfigHandler';
+import { expandTilde } from './sshConfigParser';
+import { promptForAuthChallenge, promptForPassphrase, promptForPassword } from './uiHelper';
+
+// 密码短语输入错误时最多重试的次数
+const MAX_PASSPHRASE_ATTEMPTS = 3;
+
+// Windows 自带 OpenSSH ssh-agent 服务的命名管道
+const WINDOWS_OPENSSH_AGENT_PIPE = '\\\\.\\pipe\\openssh-ssh-agent';
+
+// 在等待用户输入期间执行 input，前后通知 createAuthHandler 的 onPrompt
+type PromptScope = <T>(input: () => Promise<T>) => Promise<T>;
+
+/**
+ * SSH 认证管理：为每次连接生成 authHandler，
+ * 依次尝试 none → ssh-agent → 私钥 → keyboard-interactive → 密码，需要时通过输入框询问用户。
+ * 密码只在内存中缓存到会话结束，不会写入 ssh 配置。
+ */
+export class AuthManager {
+    private static instance: AuthManager;
+    private passwords: Map<string, string> = new Map(); // 会话内缓存的密码，键为连接字符串
+    private passphrases: Map<string, string> = new Map(); // 会话内缓存的私钥密码短语，键为私钥路径
+    private pendingPassphrases: Map<string, Promise<string | undefined>> = new Map(); // 正在询问中的私钥，避免重复弹框
+    private secretStorage?: vscode.SecretStorage;
+
+    public static getInstance(): AuthManager {
+        if (!AuthManager.instance) {
+            AuthManager.instance = new AuthManager();
+        }
+        return AuthManager.instance;
+    }
+
+    /**
+     * 设置用于持久保存密码短语的 SecretStorage（扩展激活时调用）
+     */
+    public setSecretStorage(secretStorage: vscode.SecretStorage): void {
+        this.secretStorage = secretStorage;
+    }
+
+    /**
+     * 生成 ssh2 的 authHandler，按服务器返回的可用方法过滤尝试顺序
+     * @param onPrompt 开始和结束等待用户输入密码、密码短语或验证码时调用（连接池据此暂停握手超时）
+     */
+    public createAuthHandler(connectionString: string, details: ServerDetails, onPrompt?: (prompting: boolean) => void): AuthHandlerMiddleware {
+        const agent = this.getAgent(details);
+        const methods: AuthenticationType[] = ['none'];
+        if (agent) methods.push('agent');
+        if (details.privateKeyPath) methods.push('publickey');
+        methods.push('keyboard-interactive', 'password');
+
+        if (details.password) {
+            this.passwords.set(connectionString, details.password);
+        }
+
+        // 本次连接中是否已把缓存的密码用于认证（失败后需清除，下次重新询问）
+        let passwordTried = false;
+        const prompt: PromptScope = input => {
+            onPrompt?.(true);
+            return input().finally(() => onPrompt?.(false));
+        };
+
+        const handler: AuthHandlerMiddleware = (authsLeft, partialSuccess, next) => {
+            if (passwordTried && authsLeft && !partialSuccess) {
+                // 密码错误：清除缓存，下次连接时重新询问
+                this.passwords.delete(connectionString);
+                details.password = undefined;
+            }
+            passwordTried = false;
+
+            let method: AuthenticationType | undefined;
+            while ((method = methods.shift()) !== undefined) {
+                // 首次调用时 authsLeft 为 null，之后只尝试服务器允许的方法
+                if (!authsLeft || method === 'none' || authsLeft.includes(method)) break;
+            }
+            if (!method) {
+                endAuthentication(next);
+                return;
+            }
+
+            this.createAuthMethod(method, connectionString, details, agent, () => { passwordTried = true; }, prompt)
+                .then(authMethod => {
+                    if (authMethod) {
+                        next(authMethod);
+                    } else {
+                        // 用户取消或该方法不可用，继续尝试下一个
+                        handler(authsLeft, partialSuccess, next);
+                    }
+                })
+                .catch(() => handler(authsLeft, partialSuccess, next));
+        };
+        return handler;
+    }
+
+    /**
+     * 获取该服务器使用的 ssh-agent：优先使用 ssh 配置中的 IdentityAgent，其次是设置项和 SSH_AUTH_SOCK，
+     * Windows 下回退到系统 OpenSSH agent 或 Pageant
+     * @returns agent 套接字路径、命名管道或 'pageant'；不使用 agent 时返回 undefined
+     */
+    public getAgent(details: ServerDetails): string | undefined {
+        const identityAgent = details.options?.identityagent?.[0];
+        if (identityAgent) {
+            if (identityAgent.toLowerCase() === 'none') return undefined;
+            if (identityAgent === 'SSH_AUTH_SOCK') return process.env.SSH_AUTH_SOCK || undefined;
+            if (identityAgent.startsWith('$')) return process.env[identityAgent.substring(1)] || undefined;
+            return expandHome(identityAgent);
+        }
+
+        const configured = vscode.workspace.getConfiguration('starsfall').get<string>('auth.agent', '');
+        if (configured) return expandHome(configured);
+        if (process.env.SSH_AUTH_SOCK) return process.env.SSH_AUTH_SOCK;
+
+        if (process.platform === 'win32') {
+            return fs.existsSync(WINDOWS_OPENSSH_AGENT_PIPE) ? WINDOWS_OPENSSH_AGENT_PIPE : 'pageant';
+        }
+        return undefined;
+    }
+
+    /**
+     * 交互式终端是否启用 agent 转发：ssh 配置中的 ForwardAgent 优先，否则取设置项
+     */
+    public shouldForwardAgent(details: ServerDetails): boolean {
+        if (!this.getAgent(details)) return false;
+        const forwardAgent = details.options?.forwardagent?.[0];
+        if (forwardAgent) {
+            return forwardAgent.toLowerCase() !== 'no';
+        }
+        return vscode.workspace.getConfiguration('starsfall').get<boolean>('auth.forwardAgent', false);
+    }
+
+    /**
+     * 清除某个服务器缓存的密码
+     */
+    public forgetPassword(connectionString: string): void {
+        this.passwords.delete(connectionString);
+    }
+
+    private async createAuthMethod(
+        method: AuthenticationType,
+        connectionString: string,
+        details: ServerDetails,
+        agent: string | undefined,
+        onPasswordUsed: () => void,
+        prompt: PromptScope
+    ): Promise<AnyAuthMethod | undefined> {
+        const username = details.username;
+        switch (method) {
+            case 'none':
+                return { type: 'none', username };
+            case 'agent':
+                return agent ? { type: 'agent', username, agent } : undefined;
+            case 'publickey': {
+                if (!details.privateKeyPath || !fs.existsSync(details.privateKeyPath)) return undefined;
+                const key = fs.readFileSync(details.privateKeyPath);
+                if (!isEncryptedKey(key)) {
+                    return { type: 'publickey', username, key };
+                }
+                const passphrase = await prompt(() => this.getPassphrase(details.privateKeyPath!, key));
+                if (passphrase === undefined) return undefined;
+                return { type: 'publickey', username, key, passphrase };
+            }
+            case 'password': {
+                let password = this.passwords.get(connectionString);
+                if (!password) {
+                    password = await prompt(() => promptForPassword(connectionString));
+                    if (!password) return undefined;
+                    this.passwords.set(connectionString, password);
+                }
+                onPasswordUsed();
+                return { type: 'password', username, password };
+            }
+            case 'keyboard-interactive': {
+                // 同一次 keyboard-interactive 认证中服务器可能多次提问，已知密码只自动回答一次
+                const state = { knownPasswordUsed: false };
+                return {
+                    type: 'keyboard-interactive',
+                    username,
+                    prompt: (name: string, instructions: string, lang: string, prompts: Prompt[], finish: KeyboardInteractiveCallback) => {
+                        this.answerChallenges(connectionString, name, instructions, prompts, state, onPasswordUsed, prompt)
+                            .then(answers => finish(answers))
+                            .catch(() => finish([]));
+                    }
+                };
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * 获取加密私钥的密码短语：依次查找内存缓存、SecretStorage，最后询问用户并校验
+     */
+    private async getPassphrase(privateKeyPath: string, key: Buffer): Promise<string | undefined> {
+        const cached = this.passphrases.get(privateKeyPath);
+        if (cached !== undefined) return cached;
+
+        // 多个连接同时需要同一私钥时只询问一次
+        let pending = this.pendingPassphrases.get(privateKeyPath);
+        if (!pending) {
+            pending = this.resolvePassphrase(privateKeyPath, key);
+            this.pendingPassphrases.set(privateKeyPath, pending);
+            pending.finally(() => this.pendingPassphrases.delete(privateKeyPath)).catch(() => undefined);
+        }
+        return pending;
+    }
+
+    private async resolvePassphrase(privateKeyPath: string, key: Buffer): Promise<string | undefined> {
+        const secretKey = `starsfall.passphrase:${privateKeyPath}`;
+        const stored = await this.secretStorage?.get(secretKey);
+        if (stored !== undefined && !(utils.parseKey(key, stored) instanceof Error)) {
+            this.passphrases.set(privateKeyPath, stored);
+            return stored;
+        }
+
+        for (let attempt = 0; attempt < MAX_PASSPHRASE_ATTEMPTS; attempt++) {
+            const passphrase = await promptForPassphrase(privateKeyPath, attempt > 0);
+            if (passphrase === undefined) return undefined;
+            if (utils.parseKey(key, passphrase) instanceof Error) continue;
+
+            this.passphrases.set(privateKeyPath, passphrase);
+            if (vscode.workspace.getConfiguration('starsfall').get<boolean>('auth.rememberPassphrase', false)) {
+                await this.secretStorage?.store(secretKey, passphrase);
+            }
+            return passphrase;
+        }
+        vscode.window.showErrorMessage(`私钥 ${privateKeyPath} 的密码短语错误次数过多，已跳过该私钥`);
+        return undefined;
+    }
+
+    /**
+     * 回答 keyboard-interactive 问题：密码类问题优先使用已知密码，其余（如 OTP）询问用户
+     */
+    private async answerChallenges(
+        connectionString: string,
+        name: string,
+        instructions: string,
+        prompts: Prompt[],
+        state: { knownPasswordUsed: boolean },
+        onPasswordUsed: () => void,
+        prompt: PromptScope
+    ): Promise<string[]> {
+        const answers: string[] = [];
+
+        for (const challenge of prompts) {
+            const isPasswordPrompt = !challenge.echo && /password|密码/i.test(challenge.prompt);
+            const knownPassword = this.passwords.get(connectionString);
+
+            if (isPasswordPrompt && knownPassword && !state.knownPasswordUsed) {
+                state.knownPasswordUsed = true;
+                onPasswordUsed();
+                answers.push(knownPassword);
+                continue;
+            }
+
+            const answer = await prompt(() => promptForAuthChallenge(connectionString, {
+                name,
+                instructions,
+                prompt: challenge.prompt,
+                echo: challenge.echo
+            }));
+            if (answer === undefined) {
+                throw new Error('Authentication cancelled');
+            }
+            if (isPasswordPrompt) {
+                state.knownPasswordUsed = true;
+                this.passwords.set(connectionString, answer);
+                onPasswordUsed();
+            }
+            answers.push(answer);
+        }
+        return answers;
+    }
+}
+
+// 判断私钥是否加密：不带密码短语解析时 ssh2 会报告需要 passphrase
+function isEncryptedKey(key: Buffer): boolean {
+    const parsed = utils.parseKey(key);
+    return parsed instanceof Error && /encrypted|passphrase/i.test(parsed.message);
+}
+
+// 通知 ssh2 已没有可尝试的认证方法。ssh2 接受 false，但类型定义的 NextAuthHandler 中没有这一取值
+function endAuthentication(next: NextAuthHandler): void {
+    (next as (authMethod: AuthenticationType | AnyAuthMethod | false) => void)(false);
+}
+
+function expandHome(value: string): string {
+    return expandTilde(value, os.homedir());
+}
@@ -0,0 +1,209 @@
+/**
+ * 连接诊断的各个阶段，按执行顺序排列
+ */
+export type DiagnosticStage = 'dns' | 'tcp' | 'banner' | 'kex' | 'auth' | 'sftp';
+
+// warning 表示该步骤未成功但不影响后续步骤，如被拒绝后还有其他认证方式可以尝试
+export type DiagnosticStatus = 'ok' | 'warning' | 'failed' | 'skipped';
+
+/**
+ * 诊断中的一个步骤及其结果
+ */
+export interface DiagnosticStep {
+    stage: DiagnosticStage;
+    title: string;
+    status: DiagnosticStatus;
+    durationMs?: number;
+    detail?: string;  // 成功时的结果，如解析出的地址、协商的算法
+    cause?: string;   // 失败或跳过的原因
+}
+
+/**
+ * 从 ssh2 调试输出中收集的握手信息，用于解释算法协商失败
+ */
+export interface HandshakeTrace {
+    remoteIdent?: string;
+    // 各类算法双方提供的列表，键为 ssh2 调试输出中的名称，如 "KEX method"、"C->S cipher"
+    offers: Map<string, { local?: string[]; remote?: string[] }>;
+}
+
+export interface FailureContext {
+    host: string;
+    port: number;
+    trace?: HandshakeTrace;
+    authMethod?: string; // 认证阶段失败时尝试的方法
+}
+
+// ssh2 握手失败信息中的算法类别与调试输出中名称的对应关系
+const ALGORITHM_CATEGORIES: Array<{ error: string; trace: string; label: string }> = [
+    { error: 'key exchange algorithm', trace: 'KEX method', label: '密钥交换' },
+    { error: 'host key format', trace: 'Host key format', label: '主机密钥' },
+    { error: 'C->S cipher', trace: 'C->S cipher', label: '加密（客户端到服务器）' },
+    { error: 'S->C cipher', trace: 'S->C cipher', label: '加密（服务器到客户端）' },
+    { error: 'C->S MAC', trace: 'C->S MAC', label: 'MAC（客户端到服务器）' },
+    { error: 'S->C MAC', trace: 'S->C MAC', label: 'MAC（服务器到客户端）' },
+    { error: 'C->S compression', trace: 'C->S compression', label: '压缩（客户端到服务器）' },
+    { error: 'S->C compression', trace: 'S->C compression', label: '压缩（服务器到客户端）' }
+];
+
+export const AUTH_METHOD_LABELS: Record<string, string> = {
+    none: '无认证',
+    publickey: '私钥',
+    agent: 'ssh-agent',
+    password: '密码',
+    'keyboard-interactive': '键盘交互'
+};
+
+const STATUS_MARKS: Record<DiagnosticStatus, string> = {
+    ok: '✔',
+    warning: '!',
+    failed: '✘',
+    skipped: '–'
+};
+
+export function createHandshakeTrace(): HandshakeTrace {
+    return { offers: new Map() };
+}
+
+/**
+ * 记录一行 ssh2 调试输出（ConnectConfig.debug）中的版本标识和算法列表
+ */
+export function recordDebugLine(trace: HandshakeTrace, line: string): void {
+    const ident = /^Remote ident: '(.*)'$/.exec(line);
+    if (ident) {
+        trace.remoteIdent = ident[1].replace(/\\r|\\n/g, '').trim();
+        return;
+    }
+    const offer = /^Handshake: \((local|remote)\) (.+?): (.*)$/.exec(line);
+    if (offer) {
+        const [, side, name, list] = offer;
+        const entry = trace.offers.get(name) || {};
+        entry[side as 'local' | 'remote'] = list.split(',').map(item => item.trim()).filter(Boolean);
+        trace.offers.set(name, entry);
+    }
+}
+
+/**
+ * 将诊断中遇到的错误解释为用户能看懂的原因和排查建议
+ */
+export function explainFailure(stage: DiagnosticStage, error: Error & { code?: string; level?: string }, context: FailureContext): string {
+    const { host, port } = context;
+    const message = error.message || String(error);
+
+    switch (error.code) {
+        case 'ENOTFOUND':
+            return `无法解析主机名 ${host}：检查拼写、DNS 设置或 hosts 文件；内网主机可能需要先连接 VPN`;
+        case 'EAI_AGAIN':
+            return `DNS 服务器暂时没有响应，无法解析 ${host}：检查网络连接或稍后重试`;
+        case 'ECONNREFUSED':
+            return `${host}:${port} 拒绝连接：主机可达，但该端口没有服务在监听。确认 sshd 已启动、端口号正确`;
+        case 'ETIMEDOUT':
+            return stage === 'dns'
+                ? `解析 ${host} 超时：DNS 服务器没有响应`
+                : `连接 ${host}:${port} 超时：数据包被丢弃，通常是防火墙、云服务器安全组或网络 ACL 拦截了该端口，也可能主机已关机`;
+        case 'EHOSTUNREACH':
+        case 'ENETUNREACH':
+            return `没有到 ${host} 的路由：检查本机网络、VPN 或路由配置`;
+        case 'ECONNRESET':
+        case 'EPIPE':
+            return stage === 'tcp' || stage === 'banner'
+                ? '连接被服务器重置：可能被 TCP Wrappers（hosts.deny）、fail2ban 或 sshd 的 MaxStartups 限制拒绝'
+                : '连接被服务器中途重置：可能是网络不稳定，或中间设备（防火墙、负载均衡）断开了连接';
+    }
+
+    const algorithm = /no matching (.+)$/.exec(message);
+    if (algorithm) {
+        const category = ALGORITHM_CATEGORIES.find(item => item.error === algorithm[1]);
+        const offers = category && context.trace?.offers.get(category.trace);
+        const lines = [`客户端与服务器没有共同支持的${category ? category.label : algorithm[1]}算法`];
+        if (offers?.remote) lines.push(`服务器提供：${offers.remote.join(', ')}`);
+        if (offers?.local) lines.push(`客户端支持：${offers.local.join(', ')}`);
+        lines.push('老旧服务器通常只提供已废弃的算法（如 diffie-hellman-group1-sha1、ssh-dss、3des-cbc），建议升级服务器的 OpenSSH；'
+            + '加固过的服务器则可能只允许客户端不支持的算法，检查 sshd_config 中的 KexAlgorithms、HostKeyAlgorithms、Ciphers 和 MACs');
+        return lines.join('\n');
+    }
+    if (stage === 'tcp' && /Channel open failure/i.test(message)) {
+        return `跳板机无法连接到 ${host}:${port}（${message}）：检查跳板机到目标主机的网络和防火墙，以及跳板机 sshd 是否允许转发（AllowTcpForwarding）`;
+    }
+    if (message === 'Host denied (verification failed)') {
+        return '主机密钥未通过校验：已拒绝该主机密钥，或与 known_hosts 中记录的不一致（服务器重装系统后会出现，也可能存在中间人攻击）';
+    }
+    if (/signature verification failed/i.test(message)) {
+        return '服务器的主机密钥签名校验失败：服务器可能配置错误，或连接被篡改';
+    }
+    if (message === 'Invalid identification string' || (stage === 'banner' && /Bad (identification|packet)|Protocol version/i.test(message))) {
+        return `${host}:${port} 上的服务不是 SSH：检查端口号，或确认该端口没有被转发到其他服务（如 HTTP 代理）`;
+    }
+    if (error.level === 'client-timeout' || message === 'Timed out while waiting for handshake') {
+        return stage === 'banner'
+            ? `TCP 已连接，但服务器迟迟没有发送 SSH 版本标识：该端口上的服务可能不是 SSH，或 sshd 负载过高（UseDNS 反向解析缓慢也会导致延迟）`
+            : '等待服务器响应超时：网络延迟过高或服务器负载过高';
+    }
+    if (/Connection lost before handshake|Connection closed/i.test(message) && (stage === 'banner' || stage === 'kex')) {
+        return '服务器在握手前关闭了连接：可能被 TCP Wrappers（hosts.deny）、fail2ban、MaxStartups 或 sshd 的 AllowUsers / DenyUsers 限制拒绝';
+    }
+    if (/Cannot parse privateKey|no passphrase given/i.test(message)) {
+        return /passphrase/i.test(message)
+            ? '私钥已加密，但未提供密码短语或密码短语错误'
+            : `无法解析私钥：${message.replace(/^Cannot parse privateKey: /, '')}。确认文件是私钥而不是公钥（.pub），格式为 OpenSSH、PEM 或 PPK`;
+    }
+    if (error.level === 'agent') {
+        return `无法使用 ssh-agent：${message}。确认 agent 正在运行，SSH_AUTH_SOCK 或 IdentityAgent 指向正确的套接字`;
+    }
+    if (stage === 'auth') {
+        return explainAuthFailure(context.authMethod);
+    }
+    if (stage === 'sftp') {
+        return /Unable to start subsystem/.test(message)
+            ? '服务器未启用 SFTP 子系统：检查 sshd_config 中的 Subsystem sftp 配置；ForceCommand 或受限 shell 也会阻止 SFTP'
+            : `打开 SFTP 失败：${message}。登录脚本（如 .bashrc）输出内容会破坏 SFTP 协议，检查是否只在交互式 shell 中输出`;
+    }
+    return message;
+}
+
+/**
+ * 某种认证方式被服务器拒绝的常见原因
+ */
+export function explainAuthFailure(method: string | undefined): string {
+    switch (method) {
+        case 'none':
+            return '服务器要求认证';
+        case 'publickey':
+            return '服务器不接受该私钥：对应的公钥未加入服务器的 ~/.ssh/authorized_keys，'
+                + '或 ~/.ssh、authorized_keys 的权限过宽（StrictModes）、用户名不正确';
+        case 'agent':
+            return 'ssh-agent 中没有服务器接受的密钥：用 ssh-add -l 查看已加载的密钥';
+        case 'password':
+            return '密码错误、用户名不正确，或服务器禁用了密码登录（PasswordAuthentication no）';
+        case 'keyboard-interactive':
+            return '密码或验证码错误，或服务器禁用了交互式认证（KbdInteractiveAuthentication no）';
+        default:
+            return '服务器拒绝了所有认证方式：检查用户名、私钥和密码，以及服务器的 AuthenticationMethods 设置';
+    }
+}
+
+/**
+ * 将一个步骤格式化为输出面板中的若干行
+ */
+export function formatDiagnosticStep(step: DiagnosticStep): string[] {
+    const duration = step.durationMs !== undefined ? ` (${step.durationMs} ms)` : '';
+    const lines = [`${STATUS_MARKS[step.status]} ${step.title}${duration}${step.detail ? `: ${step.detail}` : ''}`];
+    if (step.cause) {
+        const [first, ...rest] = step.cause.split('\n');
+        lines.push(`    ${step.status === 'skipped' ? '说明' : '原因'}：${first}`);
+        rest.forEach(line => lines.push(`    ${line}`));
+    }
+    return lines;
+}
+
+/**
+ * 诊断结论：全部通过，或第一个失败的步骤
+ */
+export function summarizeDiagnostics(steps: DiagnosticStep[]): string {
+    const failed = steps.find(step => step.status === 'failed');
+    if (failed) {
+        return `诊断结束：在“${failed.title}”步骤失败`;
+    }
+    const total = steps.reduce((sum, step) => sum + (step.durationMs || 0), 0);
+    return `诊断完成：全部步骤通过，共 ${total} ms`;
+}
@@ -0,0 +1,314 @@
+import * as vscode from 'vscode';
+import * as dns from 'dns';
+import * as net from 'net';
+import { Duplex } from 'stream';
+import { AuthHandlerMiddleware, Client } from 'ssh2';
+import { ServerDetails } from './sshConfigHandler';
+import { formatProxyJump } from './sshConfigWriter';
+import { ConnectionPool, toConnectionString } from './connectionPool';
+import {
+    AUTH_METHOD_LABELS,
+    createHandshakeTrace,
+    DiagnosticStage,
+    DiagnosticStep,
+    explainAuthFailure,
+    explainFailure,
+    FailureContext,
+    formatDiagnosticStep,
+    recordDebugLine,
+    summarizeDiagnostics
+} from './connectionDiagnostics';
+
+// 诊断时 TCP 连接和等待 SSH 版本标识的超时（毫秒）
+const TCP_TIMEOUT = 10000;
+const BANNER_TIMEOUT = 15000;
+
+/**
+ * 逐步诊断到服务器的连接：DNS 解析、TCP 连接、版本标识、算法协商、认证和 SFTP，
+ * 在输出面板中列出每一步的耗时和失败原因
+ */
+export class ConnectionDiagnosticsManager {
+    private static instance: ConnectionDiagnosticsManager;
+    private outputChannel: vscode.OutputChannel;
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+
+    private constructor() {
+        this.outputChannel = vscode.window.createOutputChannel('Starsfall Diagnostics');
+    }
+
+    public static getInstance(): ConnectionDiagnosticsManager {
+        if (!ConnectionDiagnosticsManager.instance) {
+            ConnectionDiagnosticsManager.instance = new ConnectionDiagnosticsManager();
+        }
+        return ConnectionDiagnosticsManager.instance;
+    }
+
+    /**
+     * 使用独立的临时连接诊断，不影响连接池中的共享连接
+     * @returns 各步骤的结果
+     */
+    public async diagnose(details: ServerDetails): Promise<DiagnosticStep[]> {
+        const channel = this.outputChannel;
+        channel.clear();
+        channel.show(true);
+        channel.appendLine(`诊断连接 ${details.name} (${toConnectionString(details)})，${new Date().toLocaleString()}`);
+        if (details.jumpHosts && details.jumpHosts.length > 0) {
+            channel.appendLine(`经由跳板机: ${formatProxyJump(details.jumpHosts)}`);
+        } else if (details.proxyCommand) {
+            channel.appendLine(`ProxyCommand: ${details.proxyCommand}`);
+        }
+        channel.appendLine('');
+
+        const steps: DiagnosticStep[] = [];
+        const report = (step: DiagnosticStep) => {
+            steps.push(step);
+            formatDiagnosticStep(step).forEach(line => channel.appendLine(line));
+        };
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `正在诊断 ${details.name} 的连接...` },
+            () => this.run(details, report)
+        );
+
+        channel.appendLine('');
+        channel.appendLine(summarizeDiagnostics(steps));
+        return steps;
+    }
+
+    private async run(details: ServerDetails, report: (step: DiagnosticStep) => void): Promise<void> {
+        const context: FailureContext = { host: details.host, port: details.port, trace: createHandshakeTrace() };
+        const fail = (stage: DiagnosticStage, title: string, start: number, err: unknown) => report({
+            stage,
+            title,
+            status: 'failed',
+            durationMs: Date.now() - start,
+            cause: explainFailure(stage, err instanceof Error ? err : new Error(String(err)), context)
+        });
+
+        // 1. DNS 解析
+        const hasJumpHosts = !!details.jumpHosts && details.jumpHosts.length > 0;
+        let address = details.host;
+        if (hasJumpHosts || details.proxyCommand) {
+            report({ stage: 'dns', title: 'DNS 解析', status: 'skipped', cause: hasJumpHosts ? '由跳板机解析目标主机' : '由 ProxyCommand 负责连接' });
+        } else if (net.isIP(details.host)) {
+            report({ stage: 'dns', title: 'DNS 解析', status: 'skipped', cause: '已是 IP 地址' });
+        } else {
+            const start = Date.now();
+            try {
+                const addresses = await dns.promises.lookup(details.host, { all: true });
+                address = addresses[0].address;
+                report({ stage: 'dns', title: 'DNS 解析', status: 'ok', durationMs: Date.now() - start, detail: addresses.map(item => item.address).join(', ') });
+            } catch (err) {
+                fail('dns', 'DNS 解析', start, err);
+                return;
+            }
+        }
+
+        // 2. 建立底层连接：直连、跳板机转发或 ProxyCommand
+        let sock: Duplex;
+        let jump: { connectionString: string; client: Client } | undefined;
+        const tcpStart = Date.now();
+        if (hasJumpHosts) {
+            const jumpConnectionString = this.connectionPool.registerJumpHost(details);
+            try {
+                jump = { connectionString: jumpConnectionString, client: await this.connectionPool.acquire(jumpConnectionString) };
+            } catch (err) {
+                report({
+                    stage: 'tcp',
+                    title: '连接跳板机',
+                    status: 'failed',
+                    durationMs: Date.now() - tcpStart,
+                    cause: `无法连接跳板机 ${jumpConnectionString}：${err instanceof Error ? err.message : String(err)}。可以先单独诊断跳板机`
+                });
+                return;
+            }
+            try {
+                sock = await this.forwardOut(jump.client, details.host, details.port);
+                report({ stage: 'tcp', title: '经由跳板机建立通道', status: 'ok', durationMs: Date.now() - tcpStart, detail: `${jump.connectionString} → ${details.host}:${details.port}` });
+            } catch (err) {
+                this.connectionPool.release(jump.connectionString, jump.client);
+                fail('tcp', '经由跳板机建立通道', tcpStart, err);
+                return;
+            }
+        } else if (details.proxyCommand) {
+            sock = this.connectionPool.spawnProxyCommand(toConnectionString(details), details.proxyCommand);
+            report({ stage: 'tcp', title: '启动 ProxyCommand', status: 'ok', durationMs: Date.now() - tcpStart });
+        } else {
+            try {
+                const socket = await this.connectTcp(address, details.port);
+                sock = socket;
+                report({
+                    stage: 'tcp',
+                    title: 'TCP 连接',
+                    status: 'ok',
+                    durationMs: Date.now() - tcpStart,
+                    detail: `${socket.localAddress}:${socket.localPort} → ${socket.remoteAddress}:${socket.remotePort}`
+                });
+            } catch (err) {
+                fail('tcp', 'TCP 连接', tcpStart, err);
+                return;
+            }
+        }
+
+        // 3-6. SSH 握手、认证和 SFTP
+        try {
+            await this.runSsh(details, sock, context, report, fail);
+        } finally {
+            sock.destroy();
+            if (jump) this.connectionPool.release(jump.connectionString, jump.client);
+        }
+    }
+
+    private async runSsh(
+        details: ServerDetails,
+        sock: Duplex,
+        context: FailureContext,
+        report: (step: DiagnosticStep) => void,
+        fail: (stage: DiagnosticStage, title: string, start: number, err: unknown) => void
+    ): Promise<void> {
+        const client = new Client();
+        const trace = context.trace!;
+        const stageTitles: Record<string, string> = { banner: '交换版本标识', kex: '密钥交换与算法协商', auth: '认证' };
+        let stage: DiagnosticStage = 'banner';
+        let stageStart = Date.now();
+        let attempt: { method: string; start: number } | undefined;
+        let methodsListed = false;
+
+        // 记录每次认证尝试；被拒绝后还有其他方式可试时记为 warning
+        const config = this.connectionPool.createConnectConfig(details, client);
+        const authHandler = config.authHandler as AuthHandlerMiddleware;
+        const tracedAuthHandler: AuthHandlerMiddleware = (authsLeft, partialSuccess, next) => {
+            if (attempt && attempt.method !== 'none') {
+                report({
+                    stage: 'auth',
+                    title: this.authTitle(attempt.method, details),
+                    status: partialSuccess ? 'ok' : 'warning',
+                    durationMs: Date.now() - attempt.start,
+                    detail: partialSuccess ? '部分成功，服务器要求继续认证' : undefined,
+                    cause: partialSuccess ? undefined : explainAuthFailure(attempt.method)
+                });
+            }
+            attempt = undefined;
+            // 服务器拒绝 none 认证时会列出允许的方式
+            if (authsLeft && !methodsListed) {
+                methodsListed = true;
+                report({ stage: 'auth', title: '查询可用认证方式', status: 'ok', durationMs: Date.now() - stageStart, detail: authsLeft.join(', ') });
+            }
+            authHandler(authsLeft, partialSuccess, method => {
+                if (method) {
+                    attempt = { method: typeof method === 'string' ? method : method.type, start: Date.now() };
+                }
+                next(method);
+            });
+        };
+
+        const ready = await new Promise<boolean>(resolve => {
+            // error 之后还会触发 close，只报告第一个结果
+            let done = false;
+            const bannerTimer = setTimeout(() => {
+                if (done || stage !== 'banner') return;
+                fail('banner', stageTitles.banner, stageStart, Object.assign(new Error('Timed out while waiting for banner'), { level: 'client-timeout' }));
+                finish(false);
+            }, BANNER_TIMEOUT);
+            const finish = (result: boolean) => {
+                done = true;
+                clearTimeout(bannerTimer);
+                resolve(result);
+            };
+
+            client
+                .on('handshake', negotiated => {
+                    report({
+                        stage: 'kex',
+                        title: stageTitles.kex,
+                        status: 'ok',
+                        durationMs: Date.now() - stageStart,
+                        detail: `${negotiated.kex}, ${negotiated.serverHostKey}, ${negotiated.cs.cipher}, ${negotiated.cs.mac || 'implicit'}`
+                    });
+                    stage = 'auth';
+                    stageStart = Date.now();
+                })
+                .on('ready', () => {
+                    if (attempt) {
+                        report({ stage: 'auth', title: this.authTitle(attempt.method, details), status: 'ok', durationMs: Date.now() - attempt.start });
+                    }
+                    finish(true);
+                })
+                .on('error', err => {
+                    if (done) return;
+                    // 认证阶段的失败已逐项列出，这里只补充总体原因
+                    context.authMethod = attempt?.method;
+                    fail(stage, stage === 'auth' && attempt ? this.authTitle(attempt.method, details) : stageTitles[stage], attempt?.start ?? stageStart, err);
+                    finish(false);
+                })
+                .on('close', () => {
+                    if (done) return;
+                    fail(stage, stageTitles[stage], stageStart, new Error('Connection closed'));
+                    finish(false);
+                });
+
+            client.connect({
+                ...config,
+                sock,
+                authHandler: tracedAuthHandler,
+                keepaliveInterval: 0,
+                debug: (line: string) => {
+                    recordDebugLine(trace, line);
+                    if (stage === 'banner' && trace.remoteIdent) {
+                        report({ stage: 'banner', title: stageTitles.banner, status: 'ok', durationMs: Date.now() - stageStart, detail: trace.remoteIdent });
+                        stage = 'kex';
+                        stageStart = Date.now();
+                    }
+                }
+            });
+        });
+        if (!ready) {
+            client.end();
+            return;
+        }
+
+        // 7. 打开 SFTP 子系统
+        stage = 'sftp';
+        const sftpStart = Date.now();
+        await new Promise<void>(resolve => {
+            client.sftp((err, sftp) => {
+                if (err) {
+                    fail('sftp', '打开 SFTP 子系统', sftpStart, err);
+                } else {
+                    report({ stage: 'sftp', title: '打开 SFTP 子系统', status: 'ok', durationMs: Date.now() - sftpStart });
+                    sftp.end();
+                }
+                resolve();
+            });
+        });
+        client.end();
+    }
+
+    private authTitle(method: string, details: ServerDetails): string {
+        const label = AUTH_METHOD_LABELS[method] || method;
+        return method === 'publickey' && details.privateKeyPath ? `认证：${label} ${details.privateKeyPath}` : `认证：${label}`;
+    }
+
+    private connectTcp(host: string, port: number): Promise<net.Socket> {
+        return new Promise((resolve, reject) => {
+            const socket = net.connect({ host, port });
+            const timer = setTimeout(() => {
+                socket.destroy();
+                reject(Object.assign(new Error(`connect ETIMEDOUT ${host}:${port}`), { code: 'ETIMEDOUT' }));
+            }, TCP_TIMEOUT);
+            socket.once('connect', () => {
+                clearTimeout(timer);
+                resolve(socket);
+            });
+            socket.once('error', err => {
+                clearTimeout(timer);
+                reject(err);
+            });
+        });
+    }
+
+    private forwardOut(client: Client, host: string, port: number): Promise<Duplex> {
+        return new Promise((resolve, reject) => {
+            client.forwardOut('127.0.0.1', 0, host, port, (err, stream) => err ? reject(err) : resolve(stream));
+        });
+    }
+}
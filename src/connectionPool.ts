@@ -0,0 +1,570 @@
+import * as vscode from 'vscode';
+import { spawn } from 'child_process';
+import { Duplex } from 'stream';
+import { Client, ConnectConfig, SFTPWrapper } from 'ssh2';
+import { ServerDetails } from './sshConfigHandler';
+import { AuthManager } from './authManager';
+import { HostKeyManager } from './hostKeyManager';
+
+// 建立 TCP 连接、握手和认证的超时（毫秒）；等待用户输入密码、密码短语或验证码期间不计时
+const READY_TIMEOUT = 20000;
+
+// 连接池中的单个共享连接
+interface PooledConnection {
+    client: Client;
+    ready: Promise<Client>;
+    sftp?: Promise<SFTPWrapper>;
+    refCount: number;
+    idleTimer?: NodeJS.Timeout;
+    closed: boolean;
+    established: boolean; // 是否曾经就绪，之后的错误视为连接中断
+    jump?: { connectionString: string; client: Client }; // 经由跳板机连接时持有的跳板机连接
+}
+
+/**
+ * 连接生命周期事件：lost 为就绪后意外断开，idle 为空闲超时断开，closed 为主动断开
+ */
+export interface ConnectionEvent {
+    connectionString: string;
+    type: 'connecting' | 'ready' | 'error' | 'lost' | 'idle' | 'closed';
+    error?: Error;
+    inUse?: boolean; // 断开时是否仍有使用者持有连接（如终端，会自动重连）
+}
+
+/**
+ * 根据服务器详情生成连接字符串（username@host:port），作为连接池的键
+ */
+export function toConnectionString(details: { username: string; host: string; port: number }): string {
+    return `${details.username}@${details.host}:${details.port}`;
+}
+
+/**
+ * 解析连接字符串 username@host[:port]
+ */
+export function parseConnectionString(connectionString: string): { username: string; host: string; port: number } {
+    const [username, hostPort] = connectionString.split('@');
+    if (!username || !hostPort) {
+        throw new Error(`Invalid connection string: ${connectionString}. Expected format: username@host[:port]`);
+    }
+    const [host, portStr] = hostPort.split(':');
+    return { username, host, port: portStr ? parseInt(portStr, 10) : 22 };
+}
+
+/**
+ * SSH 连接池：按连接字符串共享 ssh2 Client 和 SFTP 会话，
+ * 通过引用计数管理生命周期，空闲超时后自动断开，连接断开后下次使用时自动重连。
+ */
+export class ConnectionPool {
+    private static instance: ConnectionPool;
+    private connections: Map<string, PooledConnection> = new Map();
+    private serverDetailsMap: Map<string, ServerDetails> = new Map();
+    private serverResolver?: (connectionString: string) => Promise<ServerDetails | undefined>;
+    private logChannel: vscode.OutputChannel;
+    private _onDidChangeConnection: vscode.EventEmitter<ConnectionEvent> = new vscode.EventEmitter<ConnectionEvent>();
+    readonly onDidChangeConnection: vscode.Event<ConnectionEvent> = this._onDidChangeConnection.event;
+
+    private constructor() {
+        this.logChannel = vscode.window.createOutputChannel('Starsfall Connections');
+    }
+
+    public static getInstance(): ConnectionPool {
+        if (!ConnectionPool.instance) {
+            ConnectionPool.instance = new ConnectionPool();
+        }
+        return ConnectionPool.instance;
+    }
+
+    /**
+     * 登记服务器详情，之后即可只用连接字符串获取连接
+     * @returns 该服务器的连接字符串
+     */
+    public register(details: ServerDetails): string {
+        const connectionString = toConnectionString(details);
+        this.serverDetailsMap.set(connectionString, details);
+        return connectionString;
+    }
+
+    /**
+     * 获取已登记的服务器详情，未登记时从连接字符串解析
+     */
+    public getServerDetails(connectionString: string): ServerDetails {
+        const registered = this.serverDetailsMap.get(connectionString);
+        if (registered) return registered;
+        const { username, host, port } = parseConnectionString(connectionString);
+        return { name: host, host, port, username };
+    }
+
+    /**
+     * 设置查找未登记服务器的方式：重新打开含远程文件夹的工作区时，
+     * 只有连接字符串，需要从清单和 ssh 配置中找到私钥、跳板机等设置
+     */
+    public setServerResolver(resolver: (connectionString: string) => Promise<ServerDetails | undefined>): void {
+        this.serverResolver = resolver;
+    }
+
+    /**
+     * 共享连接是否已建立，用于只在已连接时执行的后台操作
+     */
+    public isConnected(connectionString: string): boolean {
+        const connection = this.connections.get(connectionString);
+        return !!connection && connection.established && !connection.closed;
+    }
+
+    /**
+     * 获取共享连接并增加引用计数，使用完毕后必须调用 release()
+     */
+    public async acquire(connectionString: string): Promise<Client> {
+        let connection = this.connections.get(connectionString);
+        if (!connection || connection.closed) {
+            connection = this.connect(connectionString);
+        }
+
+        connection.refCount++;
+        if (connection.idleTimer) {
+            clearTimeout(connection.idleTimer);
+            connection.idleTimer = undefined;
+        }
+
+        try {
+            return await connection.ready;
+        } catch (err) {
+            connection.refCount--;
+            throw err;
+        }
+    }
+
+    /**
+     * 释放连接引用，引用归零后开始空闲计时
+     * @param client acquire() 得到的连接；若该连接已被替换（断开重连），则忽略
+     */
+    public release(connectionString: string, client?: Client): void {
+        const connection = this.connections.get(connectionString);
+        if (!connection || connection.refCount === 0) return;
+        if (client && connection.client !== client) return;
+
+        connection.refCount--;
+        if (connection.refCount === 0) {
+            const idleTimeout = this.getIdleTimeout();
+            connection.idleTimer = setTimeout(() => {
+                if (connection.refCount === 0) {
+                    this.logChannel.appendLine(`[INFO] 连接空闲超时，断开: ${connectionString}`);
+                    this.disconnect(connectionString, 'idle');
+                }
+            }, idleTimeout);
+        }
+    }
+
+    /**
+     * 获取缓存的 SFTP 会话（调用方需已通过 acquire 持有连接）
+     */
+    public async getSftp(connectionString: string): Promise<SFTPWrapper> {
+        const connection = this.connections.get(connectionString);
+        if (!connection || connection.closed) {
+            throw new Error(`Not connected: ${connectionString}`);
+        }
+
+        if (!connection.sftp) {
+            const client = await connection.ready;
+            connection.sftp = new Promise<SFTPWrapper>((resolve, reject) => {
+                client.sftp((err, sftp) => {
+                    if (err) {
+                        this.logChannel.appendLine(`[ERROR] SFTP 会话打开失败: ${connectionString}, ${err.message}`);
+                        connection.sftp = undefined;
+                        reject(err);
+                        return;
+                    }
+                    // SFTP 通道关闭后，下次使用时重新打开
+                    sftp.on('close', () => {
+                        connection.sftp = undefined;
+                    });
+                    resolve(sftp);
+                });
+            });
+        }
+        return connection.sftp;
+    }
+
+    /**
+     * 在共享连接上执行操作，结束后自动释放
+     */
+    public async withClient<T>(connectionString: string, action: (client: Client) => Promise<T>): Promise<T> {
+        const client = await this.acquire(connectionString);
+        try {
+            return await action(client);
+        } finally {
+            this.release(connectionString, client);
+        }
+    }
+
+    /**
+     * 在共享 SFTP 会话上执行操作；若连接在操作过程中断开，自动重连并重试一次
+     */
+    public async withSftp<T>(connectionString: string, action: (sftp: SFTPWrapper) => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            const client = await this.acquire(connectionString);
+            const connection = this.connections.get(connectionString);
+            try {
+                const sftp = await this.getSftp(connectionString);
+                return await action(sftp);
+            } catch (err) {
+                if (attempt === 0 && connection?.closed) {
+                    this.logChannel.appendLine(`[WARN] 连接已断开，正在重连: ${connectionString}`);
+                    continue;
+                }
+                throw err;
+            } finally {
+                this.release(connectionString, client);
+            }
+        }
+    }
+
+    /**
+     * 测试能否连接并通过认证（连接表单的“测试连接”）：使用不进入连接池的独立连接，不登记服务器，也不触发连接事件。
+     * 经由跳板机时跳板机连接仍从连接池获取
+     * @returns 建立连接所用的毫秒数
+     */
+    public async testConnection(details: ServerDetails): Promise<number> {
+        const connectionString = toConnectionString(details);
+        const start = Date.now();
+        let jump: { connectionString: string; client: Client } | undefined;
+        let sock: Duplex | undefined;
+        if (details.jumpHosts && details.jumpHosts.length > 0) {
+            const jumpConnectionString = this.registerJumpHost(details);
+            jump = { connectionString: jumpConnectionString, client: await this.acquire(jumpConnectionString) };
+        }
+
+        const client = new Client();
+        try {
+            if (jump) {
+                sock = await this.forwardThroughJumpHost(jump.connectionString, jump.client, details);
+            } else if (details.proxyCommand) {
+                sock = this.spawnProxyCommand(connectionString, details.proxyCommand);
+            }
+            await new Promise<void>((resolve, reject) => {
+                client
+                    .on('ready', () => resolve())
+                    .on('error', reject)
+                    .on('close', () => reject(new Error(`Connection closed: ${connectionString}`)));
+                client.connect({ ...this.createConnectConfig(details, client), sock, keepaliveInterval: 0 });
+            });
+            return Date.now() - start;
+        } finally {
+            client.end();
+            sock?.destroy();
+            if (jump) this.release(jump.connectionString, jump.client);
+        }
+    }
+
+    /**
+     * 立即断开指定服务器的共享连接
+     */
+    public closeConnection(connectionString: string): void {
+        this.disconnect(connectionString, 'closed');
+    }
+
+    /**
+     * 测量共享连接上一次 SFTP 请求的往返时间；未连接时返回 undefined，不会因此建立连接
+     */
+    public async measureLatency(connectionString: string): Promise<number | undefined> {
+        const connection = this.connections.get(connectionString);
+        if (!connection || connection.closed || !connection.established) return undefined;
+        try {
+            return await this.withSftp(connectionString, sftp => new Promise<number>((resolve, reject) => {
+                const start = Date.now();
+                sftp.realpath('.', err => err ? reject(err) : resolve(Date.now() - start));
+            }));
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * 断开所有共享连接
+     */
+    public closeAll(): void {
+        Array.from(this.connections.keys()).forEach(connectionString => this.closeConnection(connectionString));
+    }
+
+    private disconnect(connectionString: string, type: 'idle' | 'closed'): void {
+        const connection = this.connections.get(connectionString);
+        // 连接已意外断开时也要通知，以清除“重新连接中”的状态
+        if (connection) {
+            this.evict(connectionString, connection);
+            connection.client.end();
+        }
+        this._onDidChangeConnection.fire({ connectionString, type });
+    }
+
+    private connect(connectionString: string): PooledConnection {
+        const client = new Client();
+        const connection: PooledConnection = {
+            client,
+            ready: Promise.resolve(client),
+            refCount: 0,
+            closed: false,
+            established: false
+        };
+
+        this.logChannel.appendLine(`[INFO] 建立新连接: ${connectionString}`);
+        this._onDidChangeConnection.fire({ connectionString, type: 'connecting' });
+        connection.ready = this.resolveServerDetails(connectionString).then(async details => ({
+            details,
+            sock: await this.createSocket(connectionString, details, connection)
+        })).then(({ details, sock }) => new Promise<Client>((resolve, reject) => {
+            // 建立通道期间连接已被关闭
+            if (connection.closed) {
+                sock?.destroy();
+                reject(new Error(`Connection closed: ${connectionString}`));
+                return;
+            }
+
+            client
+                .on('ready', () => {
+                    this.logChannel.appendLine(`[INFO] 连接就绪: ${connectionString}`);
+                    connection.established = true;
+                    this._onDidChangeConnection.fire({ connectionString, type: 'ready' });
+                    resolve(client);
+                })
+                .on('error', (err: Error) => {
+                    this.logChannel.appendLine(`[ERROR] SSH 连接错误: ${connectionString}, ${err.message}`);
+                    if (!connection.closed) {
+                        this._onDidChangeConnection.fire(connection.established
+                            ? { connectionString, type: 'lost', error: err, inUse: connection.refCount > 0 }
+                            : { connectionString, type: 'error', error: err });
+                    }
+                    this.evict(connectionString, connection);
+                    reject(err);
+                })
+                .on('close', () => {
+                    this.logChannel.appendLine(`[INFO] 连接已关闭: ${connectionString}`);
+                    if (!connection.closed) {
+                        this._onDidChangeConnection.fire(connection.established
+                            ? { connectionString, type: 'lost', inUse: connection.refCount > 0 }
+                            : { connectionString, type: 'error', error: new Error('Connection closed') });
+                    }
+                    this.evict(connectionString, connection);
+                    reject(new Error(`Connection closed: ${connectionString}`));
+                });
+
+            try {
+                client.connect({ ...this.createConnectConfig(details, client), sock });
+            } catch (err) {
+                this._onDidChangeConnection.fire({ connectionString, type: 'error', error: err as Error });
+                this.evict(connectionString, connection);
+                reject(err);
+            }
+        }), err => {
+            if (!connection.closed) {
+                this._onDidChangeConnection.fire({ connectionString, type: 'error', error: err });
+            }
+            this.evict(connectionString, connection);
+            throw err;
+        });
+        // 避免无人等待时出现未处理的 rejection
+        connection.ready.catch(() => undefined);
+
+        this.connections.set(connectionString, connection);
+        return connection;
+    }
+
+    private async resolveServerDetails(connectionString: string): Promise<ServerDetails> {
+        if (!this.serverDetailsMap.has(connectionString) && this.serverResolver) {
+            try {
+                const details = await this.serverResolver(connectionString);
+                if (details && !this.serverDetailsMap.has(connectionString)) {
+                    this.serverDetailsMap.set(connectionString, details);
+                }
+            } catch (err) {
+                this.logChannel.appendLine(`[WARN] 查找服务器配置失败: ${connectionString}, ${err instanceof Error ? err.message : String(err)}`);
+            }
+        }
+        return this.getServerDetails(connectionString);
+    }
+
+    /**
+     * 为经由跳板机或 ProxyCommand 的连接建立底层通道；直连时返回 undefined，由 ssh2 自行建立 TCP 连接
+     */
+    private async createSocket(connectionString: string, details: ServerDetails, connection: PooledConnection): Promise<Duplex | undefined> {
+        if (details.jumpHosts && details.jumpHosts.length > 0) {
+            const jumpConnectionString = this.registerJumpHost(details);
+
+            this.logChannel.appendLine(`[INFO] 经由跳板机 ${jumpConnectionString} 连接: ${connectionString}`);
+            const jumpClient = await this.acquire(jumpConnectionString);
+            if (connection.closed) {
+                this.release(jumpConnectionString, jumpClient);
+                throw new Error(`Connection closed: ${connectionString}`);
+            }
+            connection.jump = { connectionString: jumpConnectionString, client: jumpClient };
+            return this.forwardThroughJumpHost(jumpConnectionString, jumpClient, details);
+        }
+
+        if (details.proxyCommand) {
+            this.logChannel.appendLine(`[INFO] 通过 ProxyCommand 连接: ${connectionString}, ${details.proxyCommand}`);
+            return this.spawnProxyCommand(connectionString, details.proxyCommand);
+        }
+        return undefined;
+    }
+
+    /**
+     * 通过跳板机的连接转发到目标服务器的 SSH 端口
+     */
+    private forwardThroughJumpHost(jumpConnectionString: string, jumpClient: Client, details: ServerDetails): Promise<Duplex> {
+        return new Promise<Duplex>((resolve, reject) => {
+            jumpClient.forwardOut('127.0.0.1', 0, details.host, details.port, (err, stream) => {
+                if (err) {
+                    this.logChannel.appendLine(`[ERROR] 跳板机 ${jumpConnectionString} 无法转发到 ${details.host}:${details.port}, ${err.message}`);
+                    reject(err);
+                    return;
+                }
+                resolve(stream);
+            });
+        });
+    }
+
+    /**
+     * 登记经由跳板机连接时直接相连的最后一跳
+     * @returns 最后一跳的连接字符串，调用方通过 acquire 获取其连接
+     */
+    public registerJumpHost(details: ServerDetails): string {
+        // 最后一跳经由前面的跳板机连接（与 ssh -J a,b 一致，覆盖其自身的 ProxyJump）
+        const hops = details.jumpHosts || [];
+        const lastHop = hops[hops.length - 1];
+        const jumpDetails: ServerDetails = hops.length > 1
+            ? { ...lastHop, jumpHosts: hops.slice(0, -1), proxyCommand: undefined }
+            : lastHop;
+        return this.register(jumpDetails);
+    }
+
+    /**
+     * 启动 ProxyCommand，将其标准输入输出包装为 ssh2 可用的双工流
+     */
+    public spawnProxyCommand(connectionString: string, command: string): Duplex {
+        const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'pipe'] });
+        const socket = new Duplex({
+            read: () => child.stdout.resume(),
+            write: (chunk, encoding, callback) => {
+                child.stdin.write(chunk, encoding, callback);
+            },
+            final: callback => {
+                child.stdin.end();
+                callback();
+            },
+            destroy: (err, callback) => {
+                child.kill();
+                callback(err);
+            }
+        });
+
+        child.stdout.on('data', (data: Buffer) => {
+            if (!socket.push(data)) child.stdout.pause();
+        });
+        child.stdout.on('end', () => socket.push(null));
+        child.stderr.on('data', (data: Buffer) => {
+            this.logChannel.appendLine(`[ProxyCommand] ${connectionString}: ${data.toString().trimEnd()}`);
+        });
+        child.stdin.on('error', () => undefined);
+        child.on('error', err => socket.destroy(err));
+        child.on('exit', code => {
+            if (code) this.logChannel.appendLine(`[WARN] ProxyCommand 退出，代码 ${code}: ${connectionString}`);
+        });
+        return socket;
+    }
+
+    private evict(connectionString: string, connection: PooledConnection): void {
+        connection.closed = true;
+        connection.sftp = undefined;
+        if (connection.idleTimer) {
+            clearTimeout(connection.idleTimer);
+            connection.idleTimer = undefined;
+        }
+        // 归还跳板机连接，无其他使用者时由其空闲计时断开
+        if (connection.jump) {
+            const jump = connection.jump;
+            connection.jump = undefined;
+            this.release(jump.connectionString, jump.client);
+        }
+        if (this.connections.get(connectionString) === connection) {
+            this.connections.delete(connectionString);
+        }
+    }
+
+    /**
+     * 生成连接该服务器的 ssh2 配置（认证、主机密钥校验和 keepalive），诊断连接时也使用同一配置。
+     * 同时开始 client 的连接超时计时，生成后应立即用于 client.connect
+     */
+    public createConnectConfig(details: ServerDetails, client: Client): ConnectConfig {
+        const authManager = AuthManager.getInstance();
+        const onPrompt = watchReadyTimeout(client);
+        return {
+            host: details.host,
+            port: details.port,
+            username: details.username,
+            // agent 同时用于认证和交互式终端的 agent 转发
+            agent: authManager.getAgent(details),
+            authHandler: authManager.createAuthHandler(toConnectionString(details), details, onPrompt),
+            hostVerifier: HostKeyManager.getInstance().createHostVerifier(details),
+            // 定期发送 keepalive，服务器连续无响应时判定连接已断开
+            keepaliveInterval: this.getKeepaliveInterval(details),
+            keepaliveCountMax: this.getKeepaliveCountMax(details),
+            // 由 watchReadyTimeout 计时，ssh2 自身的超时无法在等待用户输入时暂停
+            readyTimeout: 0
+        };
+    }
+
+    /**
+     * keepalive 间隔（毫秒）：ssh 配置中的 ServerAliveInterval 优先，否则取设置项，0 表示关闭
+     */
+    private getKeepaliveInterval(details: ServerDetails): number {
+        const configured = parseInt(details.options?.serveraliveinterval?.[0] || '', 10);
+        const seconds = !isNaN(configured)
+            ? configured
+            : vscode.workspace.getConfiguration('starsfall').get<number>('connection.keepaliveInterval', 15);
+        return Math.max(seconds, 0) * 1000;
+    }
+
+    private getKeepaliveCountMax(details: ServerDetails): number {
+        const configured = parseInt(details.options?.serveralivecountmax?.[0] || '', 10);
+        return !isNaN(configured)
+            ? configured
+            : vscode.workspace.getConfiguration('starsfall').get<number>('connection.keepaliveCountMax', 3);
+    }
+
+    private getIdleTimeout(): number {
+        const seconds = vscode.workspace.getConfiguration('starsfall').get<number>('connection.idleTimeout', 300);
+        return Math.max(seconds, 0) * 1000;
+    }
+}
+
+/**
+ * 连接超时计时：READY_TIMEOUT 内未就绪时以与 ssh2 相同的 client-timeout 错误断开。
+ * 等待用户输入期间暂停，输入完成后重新计时
+ * @returns 认证开始和结束等待用户输入时调用
+ */
+function watchReadyTimeout(client: Client): (prompting: boolean) => void {
+    let prompts = 0;
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
+    const start = () => {
+        timer = setTimeout(() => {
+            settled = true;
+            client.emit('error', Object.assign(new Error('Timed out while waiting for handshake'), { level: 'client-timeout' }));
+            client.destroy();
+        }, READY_TIMEOUT);
+    };
+    const stop = () => {
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+    };
+    const settle = () => {
+        settled = true;
+        stop();
+    };
+    client.once('ready', settle).once('error', settle).once('close', settle);
+    start();
+
+    return prompting => {
+        prompts += prompting ? 1 : -1;
+        stop();
+        if (!settled && prompts === 0) start();
+    };
+}
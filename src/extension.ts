@@ -3,6 +3,13 @@ import { ServerManager } from './serverManager';
 import { TerminalProvider } from './terminalProvider';
 import { FileExplorerManager } from './fileExplorerManager';
 import { SshFileSystemProvider } from './sshFileSystemProvider';
+import { RemoteTailProvider, TAIL_SCHEME } from './remoteTailProvider';
+import { RemoteSearchManager } from './remoteSearchManager';
+import { ConnectionPool } from './connectionPool';
+import { AuthManager } from './authManager';
+import { PortForwardManager } from './portForwardManager';
+import { ServerInventory } from './serverInventory';
+import { WorkspaceServerManager } from './workspaceServerManager';
 
 // 全局单例
 const fileExplorerManager = FileExplorerManager.getInstance();
@@ -11,6 +18,14 @@ const serverManager = new ServerManager(fileExplorerManager);
 export function activate(context: vscode.ExtensionContext) {
   console.log('Starsfall Servers Manager is now active!');
 
+  // 加密私钥的密码短语可选保存在 SecretStorage 中
+  AuthManager.getInstance().setSecretStorage(context.secrets);
+
+  // 服务器清单保存在 globalState 中，随设置同步
+  ServerInventory.getInstance().setStorage(context.globalState);
+  // 工作区 .starsfall/servers.json 中共享的服务器定义
+  WorkspaceServerManager.getInstance().initialize(context);
+
   // 监听终端关闭事件，清理缓存
   const terminalCloseSubscription = vscode.window.onDidCloseTerminal(terminal => {
     serverManager.handleTerminalClose(terminal);
@@ -29,18 +44,27 @@ export function activate(context: vscode.ExtensionContext) {
   // 注册文件系统提供者
   const sshFsProvider = new SshFileSystemProvider(fileExplorerManager.getTreeDataProvider());
   context.subscriptions.push(
+    sshFsProvider,
     vscode.workspace.registerFileSystemProvider('ssh', sshFsProvider, {
-      isCaseSensitive: false, // 根据需求调整
+      isCaseSensitive: true,  // Linux 文件名区分大小写，作为工作区文件夹时资源管理器依赖这一点
       isReadonly: false       // 允许写入
-    })
+    }),
+    vscode.workspace.registerTextDocumentContentProvider(TAIL_SCHEME, new RemoteTailProvider())
   );
 
+  // 快速打开和搜索视图在服务器上搜索远程文件夹；建议 API 不可用时改用下方的搜索命令
+  RemoteSearchManager.getInstance().registerProviders(context);
+
+  // 工作区包含远程文件夹时提前连接，认证完成前资源管理器等待文件系统返回
+  fileExplorerManager.restoreWorkspaceFolders();
+
   // 注册 TreeDataProvider
   vscode.window.registerTreeDataProvider('serversList', fileExplorerManager.getTreeDataProvider());
 
   // Register commands
   const connectServerCommand = vscode.commands.registerCommand('starsfall.connectServer', () => serverManager.connectServer());
   const editServerCommand = vscode.commands.registerCommand('starsfall.editServer', () => serverManager.editServer());
+  const deleteServerCommand = vscode.commands.registerCommand('starsfall.deleteServer', () => serverManager.deleteServer());
 
   const removeServerCommand = vscode.commands.registerCommand('starsfall.removeServer', () => serverManager.disconnectServer());
   const disconnectAllCommand = vscode.commands.registerCommand('starsfall.disconnectAll', () => serverManager.disconnectAllTerminals());
@@ -70,6 +94,56 @@ export function activate(context: vscode.ExtensionContext) {
     treeDataProvider.openFile(fileItem);
   });
 
+  // 端口转发命令
+  const addPortForwardCommand = vscode.commands.registerCommand('starsfall.addPortForward', (serverNode) => serverManager.addPortForward(serverNode));
+  const startPortForwardCommand = vscode.commands.registerCommand('starsfall.startPortForward', (forwardNode) => serverManager.startPortForward(forwardNode));
+  const stopPortForwardCommand = vscode.commands.registerCommand('starsfall.stopPortForward', (forwardNode) => serverManager.stopPortForward(forwardNode));
+  const removePortForwardCommand = vscode.commands.registerCommand('starsfall.removePortForward', (forwardNode) => serverManager.removePortForward(forwardNode));
+
+  // 持久会话命令
+  const attachSessionCommand = vscode.commands.registerCommand('starsfall.attachSession', (sessionNode) => serverManager.attachSession(sessionNode));
+  const renameSessionCommand = vscode.commands.registerCommand('starsfall.renameSession', (sessionNode) => serverManager.renameSession(sessionNode));
+  const killSessionCommand = vscode.commands.registerCommand('starsfall.killSession', (sessionNode) => serverManager.killSession(sessionNode));
+  const refreshSessionsCommand = vscode.commands.registerCommand('starsfall.refreshSessions', (groupNode) => {
+    fileExplorerManager.getTreeDataProvider().refreshSessions(groupNode?.connectionString);
+  });
+
+  // 服务器清单命令
+  const connectInventoryServerCommand = vscode.commands.registerCommand('starsfall.connectInventoryServer', (serverNode) => serverManager.connectInventoryServer(serverNode));
+  const addToInventoryCommand = vscode.commands.registerCommand('starsfall.addToInventory', (serverNode) => serverManager.addToInventory(serverNode));
+  const editInventoryServerCommand = vscode.commands.registerCommand('starsfall.editInventoryServer', (serverNode) => serverManager.editInventoryServer(serverNode));
+  const removeFromInventoryCommand = vscode.commands.registerCommand('starsfall.removeFromInventory', (serverNode) => serverManager.removeFromInventory(serverNode));
+  const addInventoryGroupCommand = vscode.commands.registerCommand('starsfall.addInventoryGroup', (groupNode) => serverManager.addInventoryGroup(groupNode));
+  const renameInventoryGroupCommand = vscode.commands.registerCommand('starsfall.renameInventoryGroup', (groupNode) => serverManager.renameInventoryGroup(groupNode));
+  const removeInventoryGroupCommand = vscode.commands.registerCommand('starsfall.removeInventoryGroup', (groupNode) => serverManager.removeInventoryGroup(groupNode));
+  const importServersCommand = vscode.commands.registerCommand('starsfall.importServers', () => serverManager.importServers());
+  const exportServersCommand = vscode.commands.registerCommand('starsfall.exportServers', (groupNode) => serverManager.exportServers(groupNode));
+  const diagnoseConnectionCommand = vscode.commands.registerCommand('starsfall.diagnoseConnection', (serverNode) => serverManager.diagnoseConnection(serverNode));
+
+  // 文件树右键菜单：服务器节点
+  const openServerTerminalCommand = vscode.commands.registerCommand('starsfall.openServerTerminal', (serverNode) => serverManager.openServerTerminal(serverNode));
+  const duplicateServerTerminalCommand = vscode.commands.registerCommand('starsfall.duplicateServerTerminal', (serverNode) => serverManager.duplicateServerTerminal(serverNode));
+  const disconnectServerCommand = vscode.commands.registerCommand('starsfall.disconnectServer', (serverNode) => serverManager.disconnectServer(serverNode));
+  const copyConnectionStringCommand = vscode.commands.registerCommand('starsfall.copyConnectionString', (serverNode) => serverManager.copyConnectionString(serverNode));
+  const refreshNodeCommand = vscode.commands.registerCommand('starsfall.refreshNode', (node) => fileExplorerManager.refreshNode(node));
+
+  // 文件树右键菜单：目录和文件节点
+  const newRemoteFileCommand = vscode.commands.registerCommand('starsfall.newRemoteFile', (directoryNode) => fileExplorerManager.newFile(directoryNode));
+  const newRemoteFolderCommand = vscode.commands.registerCommand('starsfall.newRemoteFolder', (directoryNode) => fileExplorerManager.newFolder(directoryNode));
+  const uploadHereCommand = vscode.commands.registerCommand('starsfall.uploadHere', (directoryNode) => fileExplorerManager.uploadHere(directoryNode));
+  const downloadArchiveCommand = vscode.commands.registerCommand('starsfall.downloadArchive', (directoryNode) => fileExplorerManager.downloadArchive(directoryNode));
+  const openTerminalHereCommand = vscode.commands.registerCommand('starsfall.openTerminalHere', (directoryNode) => serverManager.openTerminalHere(directoryNode));
+  const downloadRemoteFileCommand = vscode.commands.registerCommand('starsfall.downloadRemoteFile', (fileNode) => fileExplorerManager.downloadFile(fileNode));
+  const renameRemoteFileCommand = vscode.commands.registerCommand('starsfall.renameRemoteFile', (fileNode) => fileExplorerManager.renameFile(fileNode));
+  const deleteRemoteFileCommand = vscode.commands.registerCommand('starsfall.deleteRemoteFile', (fileNode) => fileExplorerManager.deleteFile(fileNode));
+  const copyRemotePathCommand = vscode.commands.registerCommand('starsfall.copyRemotePath', (node) => fileExplorerManager.copyPath(node));
+  const openInWorkspaceCommand = vscode.commands.registerCommand('starsfall.openInWorkspace', (node) => fileExplorerManager.openInWorkspace(node));
+  const compareWithLocalCommand = vscode.commands.registerCommand('starsfall.compareWithLocal', (fileNode) => fileExplorerManager.compareWithLocal(fileNode));
+
+  // 在服务器上搜索远程目录（右键目录节点，或从命令面板搜索远程工作区文件夹）
+  const findRemoteFileCommand = vscode.commands.registerCommand('starsfall.findRemoteFile', (directoryNode) => RemoteSearchManager.getInstance().findFile(directoryNode));
+  const searchRemoteTextCommand = vscode.commands.registerCommand('starsfall.searchRemoteText', (directoryNode) => RemoteSearchManager.getInstance().searchText(directoryNode));
+
   // 注册复制终端命令
   const duplicateTerminalCommand = vscode.commands.registerCommand('starsfall.duplicateTerminal', async () => {
     await serverManager.duplicateCurrentTerminal();
@@ -78,6 +152,7 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     connectServerCommand,
     editServerCommand,
+    deleteServerCommand,
     removeServerCommand,
     disconnectAllCommand,
     shutdownAllCommand,
@@ -85,8 +160,48 @@ export function activate(context: vscode.ExtensionContext) {
     uploadFileCommand,
     downloadFileCommand,
     openFileCommand,
+    addPortForwardCommand,
+    startPortForwardCommand,
+    stopPortForwardCommand,
+    removePortForwardCommand,
+    attachSessionCommand,
+    renameSessionCommand,
+    killSessionCommand,
+    refreshSessionsCommand,
+    connectInventoryServerCommand,
+    addToInventoryCommand,
+    editInventoryServerCommand,
+    removeFromInventoryCommand,
+    addInventoryGroupCommand,
+    renameInventoryGroupCommand,
+    removeInventoryGroupCommand,
+    importServersCommand,
+    exportServersCommand,
+    diagnoseConnectionCommand,
+    openServerTerminalCommand,
+    duplicateServerTerminalCommand,
+    disconnectServerCommand,
+    copyConnectionStringCommand,
+    refreshNodeCommand,
+    newRemoteFileCommand,
+    newRemoteFolderCommand,
+    uploadHereCommand,
+    downloadArchiveCommand,
+    openTerminalHereCommand,
+    downloadRemoteFileCommand,
+    renameRemoteFileCommand,
+    deleteRemoteFileCommand,
+    copyRemotePathCommand,
+    compareWithLocalCommand,
+    openInWorkspaceCommand,
+    findRemoteFileCommand,
+    searchRemoteTextCommand,
     duplicateTerminalCommand
   );
 }
 
-export function deactivate() { }
\ No newline at end of file
+export function deactivate() {
+  // 停止端口转发并断开所有共享的 SSH 连接
+  PortForwardManager.getInstance().removeAll();
+  ConnectionPool.getInstance().closeAll();
+}
\ No newline at end of file
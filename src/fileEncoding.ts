@@ -0,0 +1,95 @@
+/**
+ * 打开远程文件前只读取开头的这些字节来判断编码和是否为二进制
+ */
+export const ENCODING_SAMPLE_SIZE = 4096;
+
+export interface DetectedEncoding {
+    binary: boolean;
+    encoding?: string; // VS Code 的编码 id；为 undefined 时由 VS Code 按 files.encoding 设置决定
+}
+
+/**
+ * 根据文件开头的字节判断编码：先看 BOM（UTF-8、UTF-16），再校验 UTF-8 和 GBK/GB18030 的字节结构。
+ * 纯 ASCII 不指定编码，以免覆盖用户的默认编码
+ * @param truncated sample 是否只是文件的开头，为 true 时允许末尾有不完整的多字节字符
+ */
+export function detectEncoding(sample: Uint8Array, truncated: boolean): DetectedEncoding {
+    if (startsWith(sample, [0xef, 0xbb, 0xbf])) return { binary: false, encoding: 'utf8bom' };
+    if (startsWith(sample, [0xff, 0xfe])) return { binary: false, encoding: 'utf16le' };
+    if (startsWith(sample, [0xfe, 0xff])) return { binary: false, encoding: 'utf16be' };
+    if (sample.includes(0) || controlRatio(sample) > 0.1) return { binary: true };
+    if (sample.every(byte => byte < 0x80)) return { binary: false };
+
+    if (isUtf8(sample, truncated)) return { binary: false, encoding: 'utf8' };
+    const gb = scanGb18030(sample, truncated);
+    if (gb) return { binary: false, encoding: gb };
+
+    // 不是可识别的文本编码：高位字节过多时按二进制处理，否则交给 VS Code 猜测
+    const high = sample.filter(byte => byte >= 0x80).length;
+    return { binary: high / sample.length > 0.3 };
+}
+
+// 文本中不应出现的控制字符（换行、制表符、换页和 ESC 除外）所占比例
+function controlRatio(sample: Uint8Array): number {
+    const control = sample.filter(byte => byte < 0x09 || (byte > 0x0d && byte < 0x20 && byte !== 0x1b)).length;
+    return sample.length > 0 ? control / sample.length : 0;
+}
+
+function startsWith(sample: Uint8Array, bom: number[]): boolean {
+    return bom.every((byte, i) => sample[i] === byte);
+}
+
+function isUtf8(sample: Uint8Array, truncated: boolean): boolean {
+    for (let i = 0; i < sample.length;) {
+        const byte = sample[i];
+        const length = byte < 0x80 ? 1 : byte >= 0xc2 && byte <= 0xdf ? 2 : byte >= 0xe0 && byte <= 0xef ? 3 : byte >= 0xf0 && byte <= 0xf4 ? 4 : 0;
+        if (length === 0) return false;
+        for (let j = 1; j < length; j++) {
+            if (i + j >= sample.length) return truncated;
+            if ((sample[i + j] & 0xc0) !== 0x80) return false;
+        }
+        i += length;
+    }
+    return true;
+}
+
+/**
+ * 校验 GB18030 的字节结构（双字节和四字节），有四字节字符时为 gb18030，否则为 gbk。
+ * 双字节的第二个字节可以是 ASCII 字母，为了不把 Latin-1 等文本误判为 GBK，
+ * 要求至少一半的双字节字符落在 GB2312 区（两个字节都不小于 0xA1），常用汉字都在这个区内
+ */
+function scanGb18030(sample: Uint8Array, truncated: boolean): 'gbk' | 'gb18030' | undefined {
+    let doubleBytes = 0;
+    let gb2312 = 0;
+    let fourBytes = 0;
+    for (let i = 0; i < sample.length;) {
+        const lead = sample[i];
+        if (lead < 0x80) {
+            i++;
+            continue;
+        }
+        if (lead === 0x80 || lead === 0xff) return undefined;
+        if (i + 1 >= sample.length) return truncated && doubleBytes + fourBytes > 0 ? result() : undefined;
+        const second = sample[i + 1];
+        if (second >= 0x30 && second <= 0x39) {
+            if (i + 3 >= sample.length) return truncated && doubleBytes + fourBytes > 0 ? result() : undefined;
+            const third = sample[i + 2];
+            const fourth = sample[i + 3];
+            if (third < 0x81 || third > 0xfe || fourth < 0x30 || fourth > 0x39) return undefined;
+            fourBytes++;
+            i += 4;
+        } else if ((second >= 0x40 && second <= 0x7e) || (second >= 0x80 && second <= 0xfe)) {
+            doubleBytes++;
+            if (lead >= 0xa1 && second >= 0xa1) gb2312++;
+            i += 2;
+        } else {
+            return undefined;
+        }
+    }
+    return result();
+
+    function result(): 'gbk' | 'gb18030' | undefined {
+        if (doubleBytes > 0 && gb2312 * 2 < doubleBytes) return undefined;
+        return fourBytes > 0 ? 'gb18030' : 'gbk';
+    }
+}
@@ -1,16 +1,25 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { StarsfallTreeDataProvider, TreeNode } from './starsfallTreeDataProvider';
+import { ConnectionPool } from './connectionPool';
+import { resolveExistingTargets, runTransfers, uriExists } from './remoteTransfer';
+import { archiveFileName, buildArchiveCommand, joinRemotePath, remoteParentPath, validateRemoteFileName } from './remoteFiles';
 
 export class FileExplorerManager {
     private static instance: FileExplorerManager;
     private treeDataProvider!: StarsfallTreeDataProvider;
     private treeView!: vscode.TreeView<TreeNode>;
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
 
     private constructor() {
         if (!FileExplorerManager.instance) {
             this.treeDataProvider = new StarsfallTreeDataProvider();
             this.treeView = vscode.window.createTreeView('serversList', {
-                treeDataProvider: this.treeDataProvider
+                treeDataProvider: this.treeDataProvider,
+                dragAndDropController: this.treeDataProvider,
+                canSelectMany: true
             });
             FileExplorerManager.instance = this;
         }
@@ -60,6 +69,294 @@ export class FileExplorerManager {
         this.treeView.title = this.treeView.title;
     }
 
+    /**
+     * 刷新服务器或目录节点
+     */
+    public refreshNode(node: TreeNode): void {
+        this.treeDataProvider.refreshItem(node);
+    }
+
+    public async newFile(directoryNode: TreeNode): Promise<void> {
+        const uri = await this.promptNewEntry(directoryNode, '新建文件');
+        if (!uri) return;
+        try {
+            await vscode.workspace.fs.writeFile(uri, new Uint8Array(0));
+            this.treeDataProvider.refreshItem(directoryNode);
+            await vscode.window.showTextDocument(uri);
+        } catch (error) {
+            vscode.window.showErrorMessage(`新建文件失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    public async newFolder(directoryNode: TreeNode): Promise<void> {
+        const uri = await this.promptNewEntry(directoryNode, '新建文件夹');
+        if (!uri) return;
+        try {
+            await vscode.workspace.fs.createDirectory(uri);
+            this.treeDataProvider.refreshItem(directoryNode);
+        } catch (error) {
+            vscode.window.showErrorMessage(`新建文件夹失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * 选择本地文件上传到该目录，已存在的文件询问是否覆盖
+     */
+    public async uploadHere(directoryNode: TreeNode): Promise<void> {
+        const directoryUri = directoryNode?.resourceUri;
+        if (!directoryUri) return;
+        const localFiles = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: '上传',
+            title: `上传到 ${directoryUri.path || '/'}`
+        });
+        if (!localFiles || localFiles.length === 0) return;
+
+        const transfers = await resolveExistingTargets(localFiles.map(local => ({
+            source: local,
+            target: directoryUri.with({ path: joinRemotePath(directoryUri.path, path.basename(local.fsPath)) })
+        })));
+        if (!transfers) return;
+        try {
+            await runTransfers('正在上传', transfers);
+        } catch (error) {
+            vscode.window.showErrorMessage(`上传失败: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            this.treeDataProvider.refreshItem(directoryNode);
+        }
+    }
+
+    /**
+     * 在服务器上用 tar 打包目录，边接收边写入本地 .tar.gz 文件
+     */
+    public async downloadArchive(directoryNode: TreeNode): Promise<void> {
+        const directoryUri = directoryNode?.resourceUri;
+        if (!directoryUri) return;
+        const remotePath = directoryUri.path || '/';
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: this.defaultLocalUri(archiveFileName(remotePath)),
+            filters: { 'tar.gz': ['gz'] },
+            title: `下载 ${remotePath} 为压缩包`
+        });
+        if (!target) return;
+
+        try {
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `正在打包下载 ${remotePath}`, cancellable: true },
+                (progress, token) => this.connectionPool.withClient(directoryUri.authority, client => new Promise<void>((resolve, reject) => {
+                    client.exec(buildArchiveCommand(remotePath), (err, stream) => {
+                        if (err) return reject(err);
+                        const output = fs.createWriteStream(target.fsPath);
+                        let received = 0;
+                        let exitCode: number | undefined;
+                        let stderr = '';
+                        // 取消或失败时删除未写完的文件
+                        const fail = (error: Error) => {
+                            output.destroy();
+                            fs.unlink(target.fsPath, () => undefined);
+                            reject(error);
+                        };
+                        const cancellation = token.onCancellationRequested(() => {
+                            stream.close();
+                            fail(new vscode.CancellationError());
+                        });
+                        stream.on('data', (chunk: Buffer) => {
+                            received += chunk.length;
+                            progress.report({ message: `已接收 ${(received / 1024 / 1024).toFixed(1)} MB` });
+                        });
+                        stream.stderr.on('data', (chunk: Buffer) => stderr += chunk.toString());
+                        stream.on('exit', (code: number) => exitCode = code);
+                        stream.on('close', () => {
+                            cancellation.dispose();
+                            if (token.isCancellationRequested) return;
+                            if (exitCode) {
+                                fail(new Error(stderr.trim() || `tar 退出代码 ${exitCode}`));
+                            } else {
+                                output.end(() => resolve());
+                            }
+                        });
+                        output.on('error', fail);
+                        stream.pipe(output, { end: false });
+                    });
+                }))
+            );
+            vscode.window.showInformationMessage(`已下载到 ${target.fsPath}`);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) return;
+            vscode.window.showErrorMessage(`下载压缩包失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    public async downloadFile(fileNode: TreeNode): Promise<void> {
+        const uri = fileNode?.resourceUri;
+        if (!uri) return;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: this.defaultLocalUri(path.posix.basename(uri.path)),
+            title: `下载 ${uri.path}`
+        });
+        if (!target) return;
+        try {
+            if (await runTransfers('正在下载', [{ source: uri, target }]) > 0) {
+                vscode.window.showInformationMessage(`已下载到 ${target.fsPath}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`下载失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    public async renameFile(fileNode: TreeNode): Promise<void> {
+        const uri = fileNode?.resourceUri;
+        if (!uri) return;
+        const oldName = path.posix.basename(uri.path);
+        const extension = path.posix.extname(oldName);
+        const newName = await vscode.window.showInputBox({
+            prompt: `重命名 ${uri.path}`,
+            value: oldName,
+            valueSelection: [0, extension ? oldName.length - extension.length : oldName.length],
+            validateInput: value => validateRemoteFileName(value)
+        });
+        if (!newName || newName.trim() === oldName) return;
+
+        const newUri = uri.with({ path: joinRemotePath(remoteParentPath(uri.path), newName) });
+        try {
+            if (await uriExists(newUri)) {
+                vscode.window.showErrorMessage(`${newUri.path} 已存在`);
+                return;
+            }
+            await vscode.workspace.fs.rename(uri, newUri, { overwrite: false });
+            this.treeDataProvider.refreshDirectory(uri.authority, remoteParentPath(uri.path));
+        } catch (error) {
+            vscode.window.showErrorMessage(`重命名失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    public async deleteFile(fileNode: TreeNode): Promise<void> {
+        const uri = fileNode?.resourceUri;
+        if (!uri) return;
+        const confirm = await vscode.window.showWarningMessage(
+            `确定要删除 ${uri.path} 吗？此操作无法撤销。`,
+            { modal: true },
+            '删除'
+        );
+        if (confirm !== '删除') return;
+        try {
+            await vscode.workspace.fs.delete(uri, { recursive: false, useTrash: false });
+            this.treeDataProvider.refreshDirectory(uri.authority, remoteParentPath(uri.path));
+        } catch (error) {
+            vscode.window.showErrorMessage(`删除失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    public async copyPath(node: TreeNode): Promise<void> {
+        const uri = node?.resourceUri;
+        if (!uri) return;
+        await vscode.env.clipboard.writeText(uri.path);
+        vscode.window.setStatusBarMessage(`已复制 ${uri.path}`, 3000);
+    }
+
+    /**
+     * 选择本地文件与远程文件对比
+     */
+    public async compareWithLocal(fileNode: TreeNode): Promise<void> {
+        const uri = fileNode?.resourceUri;
+        if (!uri) return;
+        const localFiles = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.find(folder => folder.uri.scheme === 'file')?.uri,
+            openLabel: '对比',
+            title: `选择与 ${uri.path} 对比的本地文件`
+        });
+        if (!localFiles || localFiles.length === 0) return;
+        const name = path.posix.basename(uri.path);
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            localFiles[0],
+            uri,
+            `${path.basename(localFiles[0].fsPath)} (本地) ↔ ${name} (${uri.authority})`
+        );
+    }
+
+    /**
+     * 将远程目录添加为工作区文件夹，服务器节点添加用户主目录；已添加时在资源管理器中定位
+     */
+    public async openInWorkspace(node: TreeNode): Promise<void> {
+        let uri = node?.contextValue === 'directory' ? node.resourceUri : undefined;
+        try {
+            if (!uri && node?.connectionString) {
+                const connectionString = node.connectionString;
+                const home = await this.connectionPool.withSftp(connectionString, sftp => new Promise<string>((resolve, reject) => {
+                    sftp.realpath('.', (err, absolutePath) => err ? reject(err) : resolve(absolutePath));
+                }));
+                uri = vscode.Uri.parse(`ssh://${connectionString}`).with({ path: home });
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`获取主目录失败: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        if (!uri) return;
+
+        const existing = vscode.workspace.getWorkspaceFolder(uri);
+        if (existing && existing.uri.path === uri.path) {
+            await vscode.commands.executeCommand('revealInExplorer', uri);
+            return;
+        }
+        const name = `${this.connectionPool.getServerDetails(uri.authority).name}: ${uri.path}`;
+        const index = vscode.workspace.workspaceFolders?.length ?? 0;
+        if (!vscode.workspace.updateWorkspaceFolders(index, 0, { uri, name })) {
+            vscode.window.showErrorMessage(`无法将 ${uri.path} 添加到工作区`);
+        }
+    }
+
+    /**
+     * 重新打开含远程文件夹的工作区时提前连接：认证期间显示进度，
+     * 失败或取消认证后可重试，成功后刷新资源管理器
+     */
+    public async restoreWorkspaceFolders(): Promise<void> {
+        const connectionStrings = new Set((vscode.workspace.workspaceFolders || [])
+            .filter(folder => folder.uri.scheme === 'ssh')
+            .map(folder => folder.uri.authority));
+        await Promise.all(Array.from(connectionStrings).map(connectionString => this.restoreConnection(connectionString, false)));
+    }
+
+    private async restoreConnection(connectionString: string, retry: boolean): Promise<void> {
+        try {
+            await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Window, title: `正在连接 ${connectionString}` },
+                () => this.connectionPool.withClient(connectionString, async () => undefined)
+            );
+            if (retry) await vscode.commands.executeCommand('workbench.files.action.refreshFilesExplorer');
+        } catch (error) {
+            const choice = await vscode.window.showErrorMessage(
+                `无法连接工作区中的远程文件夹 ${connectionString}: ${error instanceof Error ? error.message : String(error)}`,
+                '重试'
+            );
+            if (choice === '重试') await this.restoreConnection(connectionString, true);
+        }
+    }
+
+    // 询问新文件或文件夹的名称，返回其 URI；已存在时提示并返回 undefined
+    private async promptNewEntry(directoryNode: TreeNode, title: string): Promise<vscode.Uri | undefined> {
+        const directoryUri = directoryNode?.resourceUri;
+        if (!directoryUri) return undefined;
+        const name = await vscode.window.showInputBox({
+            prompt: `${title}（位于 ${directoryUri.path || '/'}）`,
+            validateInput: value => validateRemoteFileName(value)
+        });
+        if (!name) return undefined;
+        const uri = directoryUri.with({ path: joinRemotePath(directoryUri.path, name) });
+        if (await uriExists(uri)) {
+            vscode.window.showErrorMessage(`${uri.path} 已存在`);
+            return undefined;
+        }
+        return uri;
+    }
+
+    // 保存对话框的默认位置：第一个本地工作区文件夹，否则为用户主目录
+    private defaultLocalUri(fileName: string): vscode.Uri {
+        const folder = vscode.workspace.workspaceFolders?.find(item => item.uri.scheme === 'file');
+        return vscode.Uri.joinPath(folder ? folder.uri : vscode.Uri.file(os.homedir()), fileName);
+    }
+
     public getTreeDataProvider(): StarsfallTreeDataProvider {
         return this.treeDataProvider;
     }
@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HostVerifier } from 'ssh2';
+import { ServerDetails } from './sshConfigHandler';
+import { expandTilde } from './sshConfigParser';
+import {
+    checkHostKey,
+    formatKnownHostName,
+    formatKnownHostsLine,
+    getFingerprint,
+    getKeyType,
+    readKnownHostsFile
+} from './knownHosts';
+import { confirmUnknownHostKey, showHostKeyChangedError, showHostKeyRejectedError } from './uiHelper';
+
+// 与 OpenSSH 相同的默认 known_hosts 文件
+const DEFAULT_USER_KNOWN_HOSTS_FILES = ['~/.ssh/known_hosts', '~/.ssh/known_hosts2'];
+const DEFAULT_GLOBAL_KNOWN_HOSTS_FILES = ['/etc/ssh/ssh_known_hosts', '/etc/ssh/ssh_known_hosts2'];
+
+/**
+ * 主机密钥校验：按 ~/.ssh/known_hosts（含哈希主机名）校验服务器公钥，
+ * 首次连接时显示指纹由用户确认后保存，密钥变更时拒绝连接。
+ * 遵循 ssh 配置中的 UserKnownHostsFile、GlobalKnownHostsFile、HostKeyAlias、StrictHostKeyChecking 和 HashKnownHosts。
+ */
+export class HostKeyManager {
+    private static instance: HostKeyManager;
+    private pendingVerifications: Map<string, Promise<boolean>> = new Map(); // 正在确认中的主机密钥，避免重复弹框
+
+    public static getInstance(): HostKeyManager {
+        if (!HostKeyManager.instance) {
+            HostKeyManager.instance = new HostKeyManager();
+        }
+        return HostKeyManager.instance;
+    }
+
+    /**
+     * 生成 ssh2 的 hostVerifier
+     */
+    public createHostVerifier(details: ServerDetails): HostVerifier {
+        return (key, verify) => {
+            this.verify(details, key)
+                .then(valid => verify(valid))
+                .catch(err => {
+                    vscode.window.showErrorMessage(`校验 ${details.host} 的主机密钥失败: ${err.message}`);
+                    verify(false);
+                });
+        };
+    }
+
+    private verify(details: ServerDetails, key: Buffer): Promise<boolean> {
+        const hostName = details.options?.hostkeyalias?.[0] || formatKnownHostName(details.host, details.port);
+        const pendingKey = `${hostName} ${key.toString('base64')}`;
+
+        // 多个连接同时首次连接同一主机时只询问一次
+        let pending = this.pendingVerifications.get(pendingKey);
+        if (!pending) {
+            pending = this.checkAndConfirm(details, hostName, key);
+            this.pendingVerifications.set(pendingKey, pending);
+            pending.finally(() => this.pendingVerifications.delete(pendingKey)).catch(() => undefined);
+        }
+        return pending;
+    }
+
+    private async checkAndConfirm(details: ServerDetails, hostName: string, key: Buffer): Promise<boolean> {
+        const userFiles = this.getKnownHostsFiles(details, 'userknownhostsfile', DEFAULT_USER_KNOWN_HOSTS_FILES);
+        const globalFiles = this.getKnownHostsFiles(details, 'globalknownhostsfile', DEFAULT_GLOBAL_KNOWN_HOSTS_FILES);
+        const entries = [...userFiles, ...globalFiles].flatMap(file => readKnownHostsFile(file));
+
+        const keyType = getKeyType(key);
+        const fingerprint = getFingerprint(key);
+        const result = checkHostKey(entries, hostName, key);
+
+        switch (result.status) {
+            case 'trusted':
+                return true;
+            case 'revoked':
+                showHostKeyRejectedError(hostName, `${keyType} 密钥 ${fingerprint} 已在 ${result.entry.file}:${result.entry.line} 中被吊销`);
+                return false;
+            case 'changed': {
+                const oldFingerprint = getFingerprint(Buffer.from(result.entry.key, 'base64'));
+                showHostKeyChangedError(hostName, keyType, oldFingerprint, fingerprint, `${result.entry.file}:${result.entry.line}`);
+                return false;
+            }
+        }
+
+        const strict = (details.options?.stricthostkeychecking?.[0] || 'ask').toLowerCase();
+        if (strict === 'yes') {
+            showHostKeyRejectedError(hostName, 'known_hosts 中没有该主机的密钥，且 StrictHostKeyChecking 为 yes');
+            return false;
+        }
+        // accept-new / no / off：与 OpenSSH 一样自动保存新主机的密钥
+        if (strict === 'ask' && !(await confirmUnknownHostKey(hostName, keyType, fingerprint))) {
+            return false;
+        }
+
+        const hash = (details.options?.hashknownhosts?.[0] || '').toLowerCase() === 'yes';
+        this.saveHostKey(userFiles[0], formatKnownHostsLine(hostName, key, hash));
+        return true;
+    }
+
+    private getKnownHostsFiles(details: ServerDetails, keyword: string, defaults: string[]): string[] {
+        const configured = details.options?.[keyword]?.[0];
+        const files = configured ? configured.split(/\s+/) : defaults;
+        return files.filter(file => file.toLowerCase() !== 'none').map(file => expandTilde(file, os.homedir()));
+    }
+
+    private saveHostKey(filePath: string | undefined, line: string): void {
+        if (!filePath) return;
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+            // 确保追加的内容另起一行
+            const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '';
+            const prefix = existing && !existing.endsWith('\n') ? '\n' : '';
+            fs.appendFileSync(filePath, `${prefix}${line}\n`, { mode: 0o600 });
+        } catch (err) {
+            vscode.window.showWarningMessage(`无法将主机密钥保存到 ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+}
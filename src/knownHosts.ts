@@ -0,0 +1,124 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { matchPatternList } from './sshConfigParser';
+
+/**
+ * known_hosts 中的一条记录
+ */
+export interface KnownHostEntry {
+    marker?: 'cert-authority' | 'revoked';
+    hosts: string;   // 主机模式列表（逗号分隔）或 |1|salt|hash 形式的哈希主机名
+    keyType: string;
+    key: string;     // base64 编码的公钥
+    file: string;
+    line: number;    // 从 1 开始的行号
+}
+
+export type HostKeyCheckResult =
+    | { status: 'trusted'; entry: KnownHostEntry }
+    | { status: 'revoked'; entry: KnownHostEntry }
+    | { status: 'changed'; entry: KnownHostEntry }
+    | { status: 'unknown' };
+
+/**
+ * 读取并解析 known_hosts 文件，文件不存在时返回空列表
+ */
+export function readKnownHostsFile(filePath: string): KnownHostEntry[] {
+    if (!fs.existsSync(filePath)) return [];
+    return parseKnownHosts(fs.readFileSync(filePath, 'utf-8'), filePath);
+}
+
+/**
+ * 解析 known_hosts 内容，忽略空行、注释和格式错误的行
+ */
+export function parseKnownHosts(content: string, filePath: string): KnownHostEntry[] {
+    const entries: KnownHostEntry[] = [];
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) return;
+
+        const fields = line.split(/\s+/);
+        let marker: KnownHostEntry['marker'];
+        if (fields[0].startsWith('@')) {
+            const name = fields.shift()!.substring(1);
+            if (name !== 'cert-authority' && name !== 'revoked') return;
+            marker = name;
+        }
+        if (fields.length < 3) return;
+
+        entries.push({ marker, hosts: fields[0], keyType: fields[1], key: fields[2], file: filePath, line: index + 1 });
+    });
+    return entries;
+}
+
+/**
+ * known_hosts 中使用的主机名：非 22 端口写作 [host]:port
+ */
+export function formatKnownHostName(host: string, port: number): string {
+    return port === 22 ? host : `[${host}]:${port}`;
+}
+
+/**
+ * 判断记录是否适用于该主机名，支持哈希主机名和带通配符/取反的模式列表
+ */
+export function matchesKnownHost(entry: KnownHostEntry, hostName: string): boolean {
+    if (entry.hosts.startsWith('|1|')) {
+        const [, , salt, hash] = entry.hosts.split('|');
+        if (!salt || !hash) return false;
+        return hashKnownHostName(hostName, Buffer.from(salt, 'base64')) === entry.hosts;
+    }
+    return matchPatternList(hostName.toLowerCase(), entry.hosts.toLowerCase().split(','));
+}
+
+/**
+ * 按 OpenSSH HashKnownHosts 的格式对主机名做 HMAC-SHA1 哈希
+ */
+export function hashKnownHostName(hostName: string, salt: Buffer = crypto.randomBytes(20)): string {
+    const hash = crypto.createHmac('sha1', salt).update(hostName).digest('base64');
+    return `|1|${salt.toString('base64')}|${hash}`;
+}
+
+/**
+ * 从公钥数据中读取密钥类型（如 ssh-ed25519）
+ */
+export function getKeyType(key: Buffer): string {
+    const length = key.readUInt32BE(0);
+    return key.subarray(4, 4 + length).toString('ascii');
+}
+
+/**
+ * 计算与 ssh-keygen -l 一致的 SHA256 指纹
+ */
+export function getFingerprint(key: Buffer): string {
+    const digest = crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '');
+    return `SHA256:${digest}`;
+}
+
+/**
+ * 按 OpenSSH 规则校验主机密钥：被吊销的密钥直接拒绝；存在同类型的其他密钥视为密钥已变更
+ */
+export function checkHostKey(entries: KnownHostEntry[], hostName: string, key: Buffer): HostKeyCheckResult {
+    const keyType = getKeyType(key);
+    const encoded = key.toString('base64');
+
+    const revoked = entries.find(entry => entry.marker === 'revoked' && entry.key === encoded);
+    if (revoked) return { status: 'revoked', entry: revoked };
+
+    // 暂不支持主机证书，cert-authority 记录不参与校验
+    const matching = entries.filter(entry => !entry.marker && matchesKnownHost(entry, hostName));
+    const trusted = matching.find(entry => entry.key === encoded);
+    if (trusted) return { status: 'trusted', entry: trusted };
+
+    const changed = matching.find(entry => entry.keyType === keyType);
+    if (changed) return { status: 'changed', entry: changed };
+    return { status: 'unknown' };
+}
+
+/**
+ * 生成要追加到 known_hosts 的一行
+ * @param hash 是否哈希主机名（对应 HashKnownHosts yes）
+ */
+export function formatKnownHostsLine(hostName: string, key: Buffer, hash: boolean = false): string {
+    const hosts = hash ? hashKnownHostName(hostName) : hostName;
+    return `${hosts} ${getKeyType(key)} ${key.toString('base64')}`;
+}
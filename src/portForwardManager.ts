@@ -0,0 +1,513 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import { Duplex } from 'stream';
+import { Client, ClientChannel, TcpConnectionDetails, AcceptConnection, RejectConnection } from 'ssh2';
+import { ConnectionPool } from './connectionPool';
+import { ServerDetails } from './sshConfigHandler';
+import { forwardSpecsFromOptions, formatForwardSpec, PortForwardSpec } from './portForwardSpec';
+
+export type PortForwardStatus = 'stopped' | 'starting' | 'active' | 'error';
+
+/**
+ * 一条端口转发及其运行状态
+ */
+export interface PortForward {
+    id: string;
+    connectionString: string;
+    spec: PortForwardSpec;
+    source: 'config' | 'manual';  // 来自 ssh 配置或用户手动添加
+    status: PortForwardStatus;
+    error?: string;
+    boundPort?: number;           // 实际监听的端口（指定端口为 0 时由系统分配）
+    bytesSent: number;            // 本地 → 远程
+    bytesReceived: number;        // 远程 → 本地
+    activeConnections: number;
+    totalConnections: number;
+}
+
+// 运行中的转发占用的资源
+interface ForwardRuntime {
+    client: Client;
+    server?: net.Server;
+    onTcpConnection?: (details: TcpConnectionDetails, accept: AcceptConnection<ClientChannel>, reject: RejectConnection) => void;
+    onClose: () => void;
+    sockets: Set<Duplex>;
+}
+
+// 流量计数刷新到界面的最小间隔
+const CHANGE_THROTTLE_MS = 1000;
+
+/**
+ * 端口转发管理：在连接池的共享连接上建立本地（-L）、远程（-R）和动态 SOCKS（-D）转发，
+ * 记录每条转发的状态与流量，变化时通知文件树刷新。
+ */
+export class PortForwardManager {
+    private static instance: PortForwardManager;
+    private forwards: Map<string, PortForward[]> = new Map(); // 键为连接字符串
+    private runtimes: Map<string, ForwardRuntime> = new Map(); // 键为转发 id
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+    private logChannel: vscode.OutputChannel;
+    private nextId = 1;
+
+    private pendingChanges: Set<string> = new Set();
+    private changeTimer?: NodeJS.Timeout;
+    private _onDidChangeForwards: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+    readonly onDidChangeForwards: vscode.Event<string> = this._onDidChangeForwards.event;
+
+    private constructor() {
+        this.logChannel = vscode.window.createOutputChannel('Starsfall Port Forwarding');
+    }
+
+    public static getInstance(): PortForwardManager {
+        if (!PortForwardManager.instance) {
+            PortForwardManager.instance = new PortForwardManager();
+        }
+        return PortForwardManager.instance;
+    }
+
+    public getForwards(connectionString: string): PortForward[] {
+        return this.forwards.get(connectionString) || [];
+    }
+
+    public getForward(id: string): PortForward | undefined {
+        for (const forwards of this.forwards.values()) {
+            const forward = forwards.find(f => f.id === id);
+            if (forward) return forward;
+        }
+        return undefined;
+    }
+
+    /**
+     * 按 ssh 配置中的 LocalForward/RemoteForward/DynamicForward 建立转发（与 ssh 一样在连接时自动启动），
+     * 替换之前从配置读取的转发，手动添加的转发保持不变
+     */
+    public async loadFromConfig(connectionString: string, details: ServerDetails): Promise<void> {
+        const { specs, errors } = forwardSpecsFromOptions(details.options);
+        errors.forEach(error => this.logChannel.appendLine(`[WARN] ${connectionString}: ${error}`));
+
+        this.getForwards(connectionString)
+            .filter(forward => forward.source === 'config')
+            .forEach(forward => this.removeForward(forward.id));
+
+        const added = specs.map(spec => this.createForward(connectionString, spec, 'config'));
+        await Promise.all(added.map(forward => this.startForward(forward.id)));
+    }
+
+    /**
+     * 手动添加一条转发并立即启动
+     */
+    public async addForward(connectionString: string, spec: PortForwardSpec): Promise<PortForward> {
+        const forward = this.createForward(connectionString, spec, 'manual');
+        await this.startForward(forward.id);
+        return forward;
+    }
+
+    public async startForward(id: string): Promise<void> {
+        const forward = this.getForward(id);
+        if (!forward || forward.status === 'active' || forward.status === 'starting') return;
+
+        forward.status = 'starting';
+        forward.error = undefined;
+        this.notifyChange(forward.connectionString, true);
+
+        let client: Client | undefined;
+        try {
+            client = await this.connectionPool.acquire(forward.connectionString);
+            const runtime: ForwardRuntime = {
+                client,
+                onClose: () => this.handleConnectionClosed(forward),
+                sockets: new Set()
+            };
+            // 启动期间被停止或删除
+            if (forward.status !== 'starting') {
+                this.connectionPool.release(forward.connectionString, client);
+                return;
+            }
+            this.runtimes.set(id, runtime);
+            client.once('close', runtime.onClose);
+
+            if (forward.spec.type === 'remote') {
+                await this.startRemoteForward(forward, runtime);
+            } else {
+                await this.startLocalServer(forward, runtime);
+            }
+
+            forward.status = 'active';
+            this.logChannel.appendLine(`[INFO] 端口转发已启动: ${forward.connectionString} ${formatForwardSpec(forward.spec)}`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            this.logChannel.appendLine(`[ERROR] 端口转发启动失败: ${forward.connectionString} ${formatForwardSpec(forward.spec)}, ${message}`);
+            this.cleanup(forward);
+            forward.status = 'error';
+            forward.error = message;
+        }
+        this.notifyChange(forward.connectionString, true);
+    }
+
+    public stopForward(id: string): void {
+        const forward = this.getForward(id);
+        if (!forward || forward.status === 'stopped') return;
+
+        this.cleanup(forward);
+        forward.status = 'stopped';
+        forward.error = undefined;
+        this.logChannel.appendLine(`[INFO] 端口转发已停止: ${forward.connectionString} ${formatForwardSpec(forward.spec)}`);
+        this.notifyChange(forward.connectionString, true);
+    }
+
+    public removeForward(id: string): void {
+        const forward = this.getForward(id);
+        if (!forward) return;
+
+        this.cleanup(forward);
+        const remaining = this.getForwards(forward.connectionString).filter(f => f.id !== id);
+        if (remaining.length > 0) {
+            this.forwards.set(forward.connectionString, remaining);
+        } else {
+            this.forwards.delete(forward.connectionString);
+        }
+        this.notifyChange(forward.connectionString, true);
+    }
+
+    /**
+     * 停止并移除服务器的全部转发；不指定连接字符串时移除所有服务器的转发
+     */
+    public removeAll(connectionString?: string): void {
+        const connectionStrings = connectionString ? [connectionString] : Array.from(this.forwards.keys());
+        connectionStrings.forEach(cs => this.getForwards(cs).forEach(forward => this.removeForward(forward.id)));
+    }
+
+    private createForward(connectionString: string, spec: PortForwardSpec, source: PortForward['source']): PortForward {
+        const forward: PortForward = {
+            id: String(this.nextId++),
+            connectionString,
+            spec,
+            source,
+            status: 'stopped',
+            bytesSent: 0,
+            bytesReceived: 0,
+            activeConnections: 0,
+            totalConnections: 0
+        };
+        this.forwards.set(connectionString, [...this.getForwards(connectionString), forward]);
+        return forward;
+    }
+
+    /**
+     * 本地转发与动态转发：在本机监听端口，每个连接通过 forwardOut 打开到目标的通道
+     */
+    private startLocalServer(forward: PortForward, runtime: ForwardRuntime): Promise<void> {
+        const { spec } = forward;
+        const server = net.createServer(socket => {
+            socket.on('error', () => undefined);
+            if (spec.type === 'dynamic') {
+                acceptSocksRequest(socket)
+                    .then(request => this.openForwardOut(forward, runtime, socket, request.host, request.port, request.reply))
+                    .catch(err => {
+                        this.logChannel.appendLine(`[WARN] SOCKS 请求无效: ${err.message}`);
+                        socket.destroy();
+                    });
+            } else {
+                this.openForwardOut(forward, runtime, socket, spec.targetHost!, spec.targetPort!);
+            }
+        });
+        runtime.server = server;
+
+        return new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(spec.bindPort, normalizeBindAddress(spec.bindAddress, 'local'), () => {
+                server.removeListener('error', reject);
+                server.on('error', err => this.logChannel.appendLine(`[ERROR] 端口转发监听错误: ${err.message}`));
+                forward.boundPort = (server.address() as net.AddressInfo).port;
+                resolve();
+            });
+        });
+    }
+
+    private openForwardOut(
+        forward: PortForward,
+        runtime: ForwardRuntime,
+        socket: net.Socket,
+        host: string,
+        port: number,
+        reply?: (success: boolean) => void
+    ): void {
+        runtime.client.forwardOut(socket.remoteAddress || '127.0.0.1', socket.remotePort || 0, host, port, (err, channel) => {
+            reply?.(!err);
+            if (err) {
+                this.logChannel.appendLine(`[WARN] 无法转发到 ${host}:${port}: ${err.message}`);
+                socket.destroy();
+                return;
+            }
+            this.bridge(forward, runtime, socket, channel);
+        });
+    }
+
+    /**
+     * 远程转发：请求服务器监听端口，服务器上的新连接转发到本地目标；未指定目标时作为远程 SOCKS 代理
+     */
+    private startRemoteForward(forward: PortForward, runtime: ForwardRuntime): Promise<void> {
+        const { spec } = forward;
+        return new Promise<void>((resolve, reject) => {
+            runtime.client.forwardIn(normalizeBindAddress(spec.bindAddress, 'remote'), spec.bindPort, (err, port) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                forward.boundPort = port || spec.bindPort;
+
+                runtime.onTcpConnection = (details, accept) => {
+                    if (details.destPort !== forward.boundPort) return;
+                    const channel = accept();
+                    if (spec.targetHost !== undefined && spec.targetPort !== undefined) {
+                        this.connectLocal(forward, runtime, channel, spec.targetHost, spec.targetPort);
+                        return;
+                    }
+                    acceptSocksRequest(channel)
+                        .then(request => this.connectLocal(forward, runtime, channel, request.host, request.port, request.reply))
+                        .catch(() => channel.destroy());
+                };
+                runtime.client.on('tcp connection', runtime.onTcpConnection);
+                resolve();
+            });
+        });
+    }
+
+    private connectLocal(
+        forward: PortForward,
+        runtime: ForwardRuntime,
+        channel: ClientChannel,
+        host: string,
+        port: number,
+        reply?: (success: boolean) => void
+    ): void {
+        const socket = net.connect(port, host);
+        socket.once('connect', () => {
+            reply?.(true);
+            this.bridge(forward, runtime, socket, channel);
+        });
+        socket.once('error', err => {
+            if (socket.connecting) {
+                this.logChannel.appendLine(`[WARN] 无法连接本地目标 ${host}:${port}: ${err.message}`);
+                reply?.(false);
+                channel.destroy();
+            }
+        });
+    }
+
+    /**
+     * 双向转发数据并统计流量
+     */
+    private bridge(forward: PortForward, runtime: ForwardRuntime, local: Duplex, remote: Duplex): void {
+        forward.activeConnections++;
+        forward.totalConnections++;
+        runtime.sockets.add(local);
+        runtime.sockets.add(remote);
+
+        local.on('data', (data: Buffer) => {
+            forward.bytesSent += data.length;
+            this.notifyChange(forward.connectionString);
+        });
+        remote.on('data', (data: Buffer) => {
+            forward.bytesReceived += data.length;
+            this.notifyChange(forward.connectionString);
+        });
+        local.pipe(remote);
+        remote.pipe(local);
+
+        let closed = false;
+        const close = () => {
+            if (closed) return;
+            closed = true;
+            runtime.sockets.delete(local);
+            runtime.sockets.delete(remote);
+            local.destroy();
+            remote.destroy();
+            forward.activeConnections--;
+            this.notifyChange(forward.connectionString);
+        };
+        local.on('close', close);
+        remote.on('close', close);
+        local.on('error', close);
+        remote.on('error', close);
+    }
+
+    private handleConnectionClosed(forward: PortForward): void {
+        if (forward.status !== 'active' && forward.status !== 'starting') return;
+        this.logChannel.appendLine(`[WARN] 连接已断开，端口转发停止: ${forward.connectionString} ${formatForwardSpec(forward.spec)}`);
+        this.cleanup(forward);
+        forward.status = 'error';
+        forward.error = '连接已断开';
+        this.notifyChange(forward.connectionString, true);
+    }
+
+    // 释放转发占用的监听端口、通道和共享连接
+    private cleanup(forward: PortForward): void {
+        const runtime = this.runtimes.get(forward.id);
+        if (!runtime) return;
+        this.runtimes.delete(forward.id);
+
+        runtime.client.removeListener('close', runtime.onClose);
+        if (runtime.onTcpConnection) {
+            runtime.client.removeListener('tcp connection', runtime.onTcpConnection);
+            if (forward.boundPort !== undefined) {
+                runtime.client.unforwardIn(normalizeBindAddress(forward.spec.bindAddress, 'remote'), forward.boundPort, () => undefined);
+            }
+        }
+        runtime.server?.close();
+        runtime.sockets.forEach(socket => socket.destroy());
+        forward.activeConnections = 0;
+        forward.boundPort = undefined;
+        this.connectionPool.release(forward.connectionString, runtime.client);
+    }
+
+    /**
+     * 通知界面刷新；流量变化合并后最多每秒刷新一次，状态变化立即刷新
+     */
+    private notifyChange(connectionString: string, immediate: boolean = false): void {
+        if (immediate) {
+            this.pendingChanges.delete(connectionString);
+            this._onDidChangeForwards.fire(connectionString);
+            return;
+        }
+        this.pendingChanges.add(connectionString);
+        if (!this.changeTimer) {
+            this.changeTimer = setTimeout(() => {
+                this.changeTimer = undefined;
+                const changed = Array.from(this.pendingChanges);
+                this.pendingChanges.clear();
+                changed.forEach(cs => this._onDidChangeForwards.fire(cs));
+            }, CHANGE_THROTTLE_MS);
+        }
+    }
+}
+
+// 监听地址：localhost 为默认值，'*' 或空表示所有网卡（远程转发时由服务器解释）
+function normalizeBindAddress(bindAddress: string, side: 'local' | 'remote'): string {
+    if (bindAddress === '*' || bindAddress === '') {
+        return side === 'local' ? '0.0.0.0' : '';
+    }
+    return bindAddress;
+}
+
+interface SocksRequest {
+    host: string;
+    port: number;
+    reply: (success: boolean) => void;
+}
+
+/**
+ * 处理 SOCKS4/4a/5 握手（仅支持无认证的 CONNECT），解析出客户端请求的目标地址
+ */
+function acceptSocksRequest(stream: Duplex): Promise<SocksRequest> {
+    return new Promise<SocksRequest>((resolve, reject) => {
+        let buffer = Buffer.alloc(0);
+        let greeted = false;
+
+        const finish = (err?: Error, request?: SocksRequest, consumed: number = 0) => {
+            stream.removeListener('data', onData);
+            stream.removeListener('end', onEnd);
+            if (err) {
+                reject(err);
+                return;
+            }
+            // 客户端可能在握手后立即发送数据，放回流中等待转发
+            stream.pause();
+            if (buffer.length > consumed) stream.unshift(buffer.subarray(consumed));
+            resolve(request!);
+        };
+
+        const onEnd = () => finish(new Error('SOCKS 握手未完成'));
+
+        const onData = (data: Buffer) => {
+            buffer = Buffer.concat([buffer, data]);
+            const version = buffer[0];
+
+            if (version === 4) {
+                // VN CD DSTPORT(2) DSTIP(4) USERID\0 [HOST\0]
+                if (buffer.length < 9) return;
+                const userEnd = buffer.indexOf(0, 8);
+                if (userEnd === -1) return;
+                const port = buffer.readUInt16BE(2);
+                const ip = Array.from(buffer.subarray(4, 8));
+                let host = ip.join('.');
+                let consumed = userEnd + 1;
+                // SOCKS4a：IP 为 0.0.0.x 时目标主机名跟在 USERID 之后
+                if (ip[0] === 0 && ip[1] === 0 && ip[2] === 0 && ip[3] !== 0) {
+                    const hostEnd = buffer.indexOf(0, consumed);
+                    if (hostEnd === -1) return;
+                    host = buffer.subarray(consumed, hostEnd).toString();
+                    consumed = hostEnd + 1;
+                }
+                if (buffer[1] !== 1) {
+                    stream.end(Buffer.from([0, 0x5b, 0, 0, 0, 0, 0, 0]));
+                    finish(new Error('SOCKS4 只支持 CONNECT'));
+                    return;
+                }
+                const reply = (success: boolean) => stream.write(Buffer.from([0, success ? 0x5a : 0x5b, 0, 0, 0, 0, 0, 0]));
+                finish(undefined, { host, port, reply }, consumed);
+                return;
+            }
+
+            if (version !== 5) {
+                finish(new Error(`不支持的 SOCKS 版本: ${version}`));
+                return;
+            }
+
+            if (!greeted) {
+                // VER NMETHODS METHODS...
+                if (buffer.length < 2 || buffer.length < 2 + buffer[1]) return;
+                const methods = buffer.subarray(2, 2 + buffer[1]);
+                const noAuth = methods.includes(0);
+                stream.write(Buffer.from([5, noAuth ? 0 : 0xff]));
+                if (!noAuth) {
+                    finish(new Error('SOCKS5 客户端要求认证'));
+                    return;
+                }
+                buffer = buffer.subarray(2 + buffer[1]);
+                greeted = true;
+                if (buffer.length === 0) return;
+            }
+
+            // VER CMD RSV ATYP DST.ADDR DST.PORT
+            if (buffer.length < 5) return;
+            let host: string;
+            let offset: number;
+            switch (buffer[3]) {
+                case 1:
+                    if (buffer.length < 10) return;
+                    host = Array.from(buffer.subarray(4, 8)).join('.');
+                    offset = 8;
+                    break;
+                case 3:
+                    if (buffer.length < 5 + buffer[4] + 2) return;
+                    host = buffer.subarray(5, 5 + buffer[4]).toString();
+                    offset = 5 + buffer[4];
+                    break;
+                case 4: {
+                    if (buffer.length < 22) return;
+                    const groups: string[] = [];
+                    for (let i = 4; i < 20; i += 2) groups.push(buffer.readUInt16BE(i).toString(16));
+                    host = groups.join(':');
+                    offset = 20;
+                    break;
+                }
+                default:
+                    stream.end(Buffer.from([5, 8, 0, 1, 0, 0, 0, 0, 0, 0]));
+                    finish(new Error(`不支持的 SOCKS5 地址类型: ${buffer[3]}`));
+                    return;
+            }
+            if (buffer[1] !== 1) {
+                stream.end(Buffer.from([5, 7, 0, 1, 0, 0, 0, 0, 0, 0]));
+                finish(new Error('SOCKS5 只支持 CONNECT'));
+                return;
+            }
+            const port = buffer.readUInt16BE(offset);
+            const reply = (success: boolean) => stream.write(Buffer.from([5, success ? 0 : 1, 0, 1, 0, 0, 0, 0, 0, 0]));
+            finish(undefined, { host, port, reply }, offset + 2);
+        };
+
+        stream.on('data', onData);
+        stream.once('end', onEnd);
+    });
+}
@@ -0,0 +1,131 @@
+/**
+ * 端口转发类型，对应 ssh 的 -L、-R 和 -D
+ */
+export type PortForwardType = 'local' | 'remote' | 'dynamic';
+
+export interface PortForwardSpec {
+    type: PortForwardType;
+    bindAddress: string;  // 监听地址，'localhost' 为默认值，'*' 表示所有网卡
+    bindPort: number;
+    targetHost?: string;  // 动态转发（SOCKS）时为空
+    targetPort?: number;
+}
+
+// ssh 配置中的转发指令（小写关键字）与类型的对应关系
+const FORWARD_KEYWORDS: Array<[string, PortForwardType]> = [
+    ['localforward', 'local'],
+    ['remoteforward', 'remote'],
+    ['dynamicforward', 'dynamic']
+];
+
+const FLAGS: Record<PortForwardType, string> = { local: 'L', remote: 'R', dynamic: 'D' };
+
+/**
+ * 读取 ssh 配置中对该主机生效的 LocalForward、RemoteForward 和 DynamicForward
+ * @returns 转发列表及无法解析的指令说明
+ */
+export function forwardSpecsFromOptions(options?: Record<string, string[]>): { specs: PortForwardSpec[]; errors: string[] } {
+    const specs: PortForwardSpec[] = [];
+    const errors: string[] = [];
+    for (const [keyword, type] of FORWARD_KEYWORDS) {
+        for (const value of options?.[keyword] || []) {
+            try {
+                specs.push(parseForwardSpec(type, value));
+            } catch (err) {
+                errors.push(err instanceof Error ? err.message : String(err));
+            }
+        }
+    }
+    return { specs, errors };
+}
+
+/**
+ * 解析转发参数，同时接受 ssh 配置写法（"8080 db:5432"）和命令行写法（"8080:db:5432"），
+ * 地址与端口也可以用 / 分隔，IPv6 地址需用方括号括起
+ */
+export function parseForwardSpec(type: PortForwardType, value: string): PortForwardSpec {
+    const args = value.trim().split(/\s+/).filter(arg => arg);
+    if (args.length === 0 || args.length > 2) {
+        throw new Error(`无效的端口转发: ${value}`);
+    }
+    if (args.some(arg => arg.startsWith('/'))) {
+        throw new Error(`暂不支持 Unix 套接字转发: ${value}`);
+    }
+
+    let listen: string[];
+    let target: string[] | undefined;
+    if (args.length === 2) {
+        listen = splitAddress(args[0]);
+        target = splitAddress(args[1]);
+    } else {
+        // 命令行写法：[bind_address:]port[:host:hostport]
+        const parts = splitAddress(args[0]);
+        const listenLength = type === 'dynamic' || parts.length <= 2 ? parts.length : parts.length - 2;
+        listen = parts.slice(0, listenLength);
+        target = listenLength < parts.length ? parts.slice(listenLength) : undefined;
+    }
+
+    if (listen.length < 1 || listen.length > 2 || (target && target.length !== 2)) {
+        throw new Error(`无效的端口转发: ${value}`);
+    }
+    if (type === 'dynamic' && target) {
+        throw new Error(`动态转发不能指定目标地址: ${value}`);
+    }
+    // 与 OpenSSH 一样，只有 RemoteForward 可以省略目标（远程动态转发）
+    if (type === 'local' && !target) {
+        throw new Error(`本地转发需要指定目标地址: ${value}`);
+    }
+
+    const spec: PortForwardSpec = {
+        type,
+        bindAddress: listen.length === 2 ? (listen[0] || '*') : 'localhost',
+        bindPort: parsePort(listen[listen.length - 1], value)
+    };
+    if (target) {
+        spec.targetHost = target[0];
+        spec.targetPort = parsePort(target[1], value);
+    }
+    return spec;
+}
+
+/**
+ * 格式化为 ssh 命令行参数的形式，如 -L 8080:db:5432
+ */
+export function formatForwardSpec(spec: PortForwardSpec): string {
+    const parts: string[] = [];
+    if (spec.bindAddress !== 'localhost') parts.push(formatHost(spec.bindAddress));
+    parts.push(String(spec.bindPort));
+    if (spec.targetHost !== undefined && spec.targetPort !== undefined) {
+        parts.push(formatHost(spec.targetHost), String(spec.targetPort));
+    }
+    return `-${FLAGS[spec.type]} ${parts.join(':')}`;
+}
+
+// 按 : 或 / 拆分地址，方括号内的 IPv6 地址保持完整
+function splitAddress(value: string): string[] {
+    if (value.includes('/')) {
+        return value.split('/').map(part => part.replace(/^\[|\]$/g, ''));
+    }
+    const parts: string[] = [];
+    const regex = /\[([^\]]*)\]|([^:]*)/g;
+    let position = 0;
+    while (position <= value.length) {
+        regex.lastIndex = position;
+        const match = regex.exec(value)!;
+        parts.push(match[1] !== undefined ? match[1] : match[2]);
+        position = regex.lastIndex + 1; // 跳过分隔的冒号
+    }
+    return parts;
+}
+
+function parsePort(value: string, spec: string): number {
+    const port = Number(value);
+    if (!/^\d+$/.test(value) || port > 65535) {
+        throw new Error(`无效的端口 ${value}: ${spec}`);
+    }
+    return port;
+}
+
+function formatHost(host: string): string {
+    return host.includes(':') ? `[${host}]` : host;
+}
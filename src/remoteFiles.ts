@@ -0,0 +1,79 @@
+import * as path from 'path';
+import { quoteArgument } from './remoteSession';
+
+/**
+ * 校验新建或重命名时输入的文件名，合法时返回 undefined
+ */
+export function validateRemoteFileName(name: string): string | undefined {
+    const trimmed = name.trim();
+    if (!trimmed) return '请输入名称';
+    if (trimmed.includes('/')) return '名称不能包含 /';
+    if (trimmed === '.' || trimmed === '..') return '无效的名称';
+    return undefined;
+}
+
+export function joinRemotePath(dir: string, name: string): string {
+    return path.posix.join(dir || '/', name.trim());
+}
+
+/**
+ * 远程路径的上级目录，根目录的上级仍为根目录
+ */
+export function remoteParentPath(remotePath: string): string {
+    return path.posix.dirname(remotePath || '/');
+}
+
+/**
+ * 在服务器上将目录打包为 tar.gz 并输出到标准输出
+ */
+export function buildArchiveCommand(dirPath: string): string {
+    const normalized = path.posix.normalize(dirPath || '/');
+    if (normalized === '/') return 'tar -czf - -C / .';
+    return `tar -czf - -C ${quoteArgument(path.posix.dirname(normalized))} ${quoteArgument(path.posix.basename(normalized))}`;
+}
+
+export function archiveFileName(dirPath: string): string {
+    return `${path.posix.basename(path.posix.normalize(dirPath || '/')) || 'root'}.tar.gz`;
+}
+
+/**
+ * candidate 是否为 directory 本身或其子路径，用于避免把目录拖进自身
+ */
+export function isSameOrDescendant(directory: string, candidate: string): boolean {
+    const base = path.posix.normalize(directory || '/').replace(/\/+$/, '');
+    const target = path.posix.normalize(candidate || '/').replace(/\/+$/, '');
+    return target === base || target.startsWith(`${base}/`);
+}
+
+/**
+ * 解析拖放数据中的 text/uri-list，忽略注释和空行
+ */
+export function parseUriList(text: string): string[] {
+    return text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+}
+
+/**
+ * 文件系统操作失败的类别，对应 vscode.FileSystemError 的各个工厂方法
+ */
+export type FileErrorKind = 'notFound' | 'noPermissions' | 'unavailable';
+
+export function classifyFileError(error: { code?: unknown; level?: string; message?: string }): FileErrorKind | undefined {
+    // SFTP 状态码：2 NO_SUCH_FILE，3 PERMISSION_DENIED
+    if (error.code === 2) return 'notFound';
+    if (error.code === 3) return 'noPermissions';
+    // 连接、认证失败（ssh2 的 level 或 Node 网络错误码）以及连接中途关闭
+    if (error.level || typeof error.code === 'string' || /^(Connection closed|Not connected)/.test(error.message || '')) {
+        return 'unavailable';
+    }
+    return undefined;
+}
+
+/**
+ * 以 B、KB、MB、GB 显示字节数
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
@@ -0,0 +1,281 @@
+import * as path from 'path';
+import { quoteArgument } from './remoteSession';
+
+/**
+ * 文件搜索和文本搜索共用的选项（来自 files.exclude、search.exclude 等设置）
+ */
+export interface RemoteSearchOptions {
+    includes: string[];
+    excludes: string[];
+    useIgnoreFiles: boolean;   // 遵循 .gitignore 等忽略文件（仅 rg 支持）
+    followSymlinks: boolean;
+    maxFileSize?: number;      // 文本搜索跳过超过该字节数的文件（仅 rg 支持）
+}
+
+export interface RemoteTextQuery {
+    pattern: string;
+    isRegExp?: boolean;
+    isCaseSensitive?: boolean;
+    isWordMatch?: boolean;
+    isMultiline?: boolean;
+}
+
+/**
+ * 文本搜索输出中的一行匹配
+ */
+export interface RemoteSearchLine {
+    path: string;        // 相对于搜索目录的路径
+    lineNumber: number;  // 从 1 开始
+    text: string;
+}
+
+export interface ColumnRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * 将 VS Code 的 glob（**、*、?、{a,b}、[...]）转换为匹配相对路径的正则表达式
+ */
+export function globToRegExp(glob: string): RegExp {
+    return new RegExp(`^${globToSource(glob.replace(/^\.\//, ''))}$`);
+}
+
+function globToSource(glob: string): string {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // ** 匹配任意层目录
+                const followedBySlash = glob[i + 2] === '/';
+                source += followedBySlash ? '(?:.*/)?' : '.*';
+                i += followedBySlash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+                continue;
+            }
+            source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+            i = end;
+        } else if (char === '{') {
+            const end = findClosingBrace(glob, i);
+            if (end === -1) {
+                source += '\\{';
+                continue;
+            }
+            source += `(?:${splitAlternatives(glob.slice(i + 1, end)).map(globToSource).join('|')})`;
+            i = end;
+        } else {
+            source += char.replace(/[.+^$()|\\\]}]/g, '\\$&');
+        }
+    }
+    return source;
+}
+
+function findClosingBrace(glob: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < glob.length; i++) {
+        if (glob[i] === '{') depth++;
+        if (glob[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+}
+
+function splitAlternatives(body: string): string[] {
+    const alternatives: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of body) {
+        if (char === ',' && depth === 0) {
+            alternatives.push(current);
+            current = '';
+            continue;
+        }
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        current += char;
+    }
+    alternatives.push(current);
+    return alternatives;
+}
+
+/**
+ * 按包含和排除的 glob 过滤相对路径。不含 / 的 glob 可匹配任意一级；
+ * 匹配到某级目录时，该目录下的所有文件都算匹配（如排除 node_modules 目录）
+ */
+export function createGlobFilter(includes: string[], excludes: string[]): (relativePath: string) => boolean {
+    const compile = (glob: string) => globToRegExp(glob.includes('/') ? glob : `**/${glob}`);
+    const included = includes.map(compile);
+    const excluded = excludes.map(compile);
+    const matchesAny = (patterns: RegExp[], relativePath: string) => {
+        const parts = relativePath.split('/');
+        for (let i = parts.length; i > 0; i--) {
+            const prefix = parts.slice(0, i).join('/');
+            if (patterns.some(pattern => pattern.test(prefix))) return true;
+        }
+        return false;
+    };
+    return relativePath => (included.length === 0 || matchesAny(included, relativePath)) && !matchesAny(excluded, relativePath);
+}
+
+/**
+ * 快速打开的模糊匹配：模式中的字符按顺序出现在路径中即可（忽略大小写、空格和路径分隔符）
+ */
+export function fuzzyMatchesPath(pattern: string, relativePath: string): boolean {
+    const needle = pattern.replace(/[\s/\\]/g, '').toLowerCase();
+    const haystack = relativePath.toLowerCase();
+    let index = 0;
+    for (let i = 0; i < haystack.length && index < needle.length; i++) {
+        if (haystack[i] === needle[index]) index++;
+    }
+    return index === needle.length;
+}
+
+/**
+ * 列出搜索目录下的文件：有 rg 时用 rg --files（可遵循 .gitignore），否则用 find；
+ * 输入了模式时先在服务器上用 grep 做模糊过滤，减少传回的数据
+ */
+export function buildFileSearchCommand(folder: string, pattern: string, options: RemoteSearchOptions): string {
+    const rg = ['rg', '--files', '--hidden', '--no-messages'];
+    if (!options.useIgnoreFiles) rg.push('--no-ignore');
+    if (options.followSymlinks) rg.push('--follow');
+    rg.push(...rgGlobArgs(options));
+
+    const prunes = simpleNames(options.excludes).map(name => `-name ${quoteArgument(name)}`);
+    const find = ['find', ...(options.followSymlinks ? ['-L'] : []), '.'];
+    if (prunes.length > 0) find.push('\\(', prunes.join(' -o '), '\\)', '-prune', '-o');
+    find.push('-type', 'f', '-print', '2>/dev/null');
+
+    const needle = pattern.replace(/[\s/\\]/g, '');
+    const filter = needle
+        ? ` | grep -i -E ${quoteArgument(Array.from(needle).map(char => char.replace(/[.[\]()*+?{}|^$\\]/g, '\\$&')).join('.*'))}`
+        : '';
+    return wrapScript(folder, `if command -v rg >/dev/null 2>&1; then ${rg.join(' ')}; else ${find.join(' ')}; fi${filter}`);
+}
+
+/**
+ * 在搜索目录中查找文本：有 rg 时用 rg，否则用 grep -r。
+ * 两者都输出“路径\0行号:内容”，文件名中的冒号不会影响解析
+ */
+export function buildTextSearchCommand(folder: string, query: RemoteTextQuery, options: RemoteSearchOptions): string {
+    const rg = ['rg', '--null', '--line-number', '--no-heading', '--with-filename', '--color', 'never', '--hidden', '--no-messages'];
+    rg.push(query.isCaseSensitive ? '--case-sensitive' : '--ignore-case');
+    if (!query.isRegExp) rg.push('--fixed-strings');
+    if (query.isWordMatch) rg.push('--word-regexp');
+    if (query.isMultiline) rg.push('--multiline');
+    if (!options.useIgnoreFiles) rg.push('--no-ignore');
+    if (options.followSymlinks) rg.push('--follow');
+    if (options.maxFileSize) rg.push('--max-filesize', String(options.maxFileSize));
+    rg.push(...rgGlobArgs(options), '-e', quoteArgument(query.pattern), '.');
+
+    // grep 只能按目录名和文件名排除或包含，其余 glob 在本地过滤
+    const grep = ['grep', options.followSymlinks ? '-R' : '-r', '-n', '-H', '-I', '-Z'];
+    if (!query.isCaseSensitive) grep.push('-i');
+    // 正则优先用 PCRE（-P，与 JS 正则最接近，支持 \d 等），grep 未编译 PCRE 时用 -E
+    grep.push(query.isRegExp ? '"$mode"' : '-F');
+    if (query.isWordMatch) grep.push('-w');
+    // 只有全部包含项都是 *.ext 形式时才交给 grep，否则会漏掉其他包含项匹配的文件；
+    // --include 需在 --exclude 之前，否则两者都不匹配的文件也会被搜索
+    const includeNames = options.includes.map(glob => /^(?:\*\*\/)?(\*\.[^*?[\]{}/]+)$/.exec(glob)?.[1]);
+    if (includeNames.every(name => name)) {
+        includeNames.forEach(name => grep.push(`--include=${quoteArgument(name!)}`));
+    }
+    simpleNames(options.excludes).forEach(name => grep.push(`--exclude-dir=${quoteArgument(name)}`, `--exclude=${quoteArgument(name)}`));
+    grep.push('-e', quoteArgument(query.pattern), '.', '2>/dev/null');
+
+    const detectMode = query.isRegExp ? 'mode=-E; echo x | grep -qP x 2>/dev/null && mode=-P; ' : '';
+    return wrapScript(folder, `if command -v rg >/dev/null 2>&1; then ${rg.join(' ')}; else ${detectMode}${grep.join(' ')}; fi`);
+}
+
+/**
+ * 解析文本搜索输出的一行
+ */
+export function parseSearchLine(line: string): RemoteSearchLine | undefined {
+    const separator = line.indexOf('\0');
+    if (separator === -1) return undefined;
+    const rest = line.slice(separator + 1);
+    const colon = rest.indexOf(':');
+    const lineNumber = parseInt(rest.slice(0, colon), 10);
+    if (colon === -1 || !(lineNumber > 0)) return undefined;
+    return {
+        path: normalizeListedPath(line.slice(0, separator)),
+        lineNumber,
+        text: rest.slice(colon + 1).replace(/\r$/, '')
+    };
+}
+
+/**
+ * rg 和 find 输出的路径相对于搜索目录，find 带有 ./ 前缀
+ */
+export function normalizeListedPath(listed: string): string {
+    return path.posix.normalize(listed.replace(/^\.\//, ''));
+}
+
+/**
+ * 本地定位匹配位置用的正则，与搜索视图的选项一致
+ */
+export function buildMatchRegExp(query: RemoteTextQuery): RegExp {
+    let source = query.isRegExp ? query.pattern : query.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (query.isWordMatch) source = `\\b${source}\\b`;
+    return new RegExp(source, query.isCaseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * 一行中所有匹配的列范围；服务器端与 JS 正则语法不完全一致而定位不到时，返回整行
+ */
+export function findMatchRanges(text: string, regex: RegExp | undefined): ColumnRange[] {
+    const ranges: ColumnRange[] = [];
+    if (regex) {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(text)) !== null) {
+            if (match[0].length === 0) {
+                regex.lastIndex++;
+                continue;
+            }
+            ranges.push({ start: match.index, end: match.index + match[0].length });
+        }
+    }
+    return ranges.length > 0 ? ranges : [{ start: 0, end: text.length }];
+}
+
+/**
+ * 截取过长行中第一个匹配附近的内容作为预览，匹配范围相应平移
+ */
+export function createPreview(text: string, ranges: ColumnRange[], charsPerLine: number): { text: string; matches: ColumnRange[] } {
+    if (text.length <= charsPerLine) return { text, matches: ranges };
+    const offset = Math.max(0, Math.min(ranges[0].start - 20, text.length - charsPerLine));
+    const end = offset + charsPerLine;
+    return {
+        text: text.slice(offset, end),
+        matches: ranges
+            .filter(range => range.start >= offset && range.start < end)
+            .map(range => ({ start: range.start - offset, end: Math.min(range.end, end) - offset }))
+    };
+}
+
+function rgGlobArgs(options: RemoteSearchOptions): string[] {
+    return [
+        ...options.excludes.map(glob => `-g ${quoteArgument(`!${glob}`)}`),
+        ...options.includes.map(glob => `-g ${quoteArgument(glob)}`)
+    ];
+}
+
+// 形如 name 或 **/name、不含通配符的排除项，可直接交给 find -prune 和 grep --exclude-dir
+function simpleNames(globs: string[]): string[] {
+    return globs
+        .map(glob => /^(?:\*\*\/)?([^*?[\]{}/]+)$/.exec(glob)?.[1])
+        .filter((name): name is string => !!name);
+}
+
+// 通过 sh 执行，不依赖用户登录 shell 的语法（如 fish）
+function wrapScript(folder: string, script: string): string {
+    return `sh -c ${quoteArgument(`cd ${quoteArgument(folder)} && ${script}`)}`;
+}
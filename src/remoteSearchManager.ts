@@ -0,0 +1,338 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    buildFileSearchCommand,
+    buildMatchRegExp,
+    buildTextSearchCommand,
+    createGlobFilter,
+    createPreview,
+    findMatchRanges,
+    fuzzyMatchesPath,
+    normalizeListedPath,
+    parseSearchLine,
+    RemoteSearchOptions,
+    RemoteTextQuery
+} from './remoteSearch';
+import { RemoteSearchProvider, runRemoteLines } from './remoteSearchProvider';
+import { joinRemotePath } from './remoteFiles';
+import { isCancellation } from './remoteTransfer';
+
+// 列表中最多显示的结果数
+const MAX_RESULTS = 500;
+// 停止输入后等待多久再到服务器上搜索
+const SEARCH_DELAY = 300;
+// 结果在列表中批量刷新的间隔
+const REFRESH_INTERVAL = 100;
+// 文本搜索结果中每行预览的最大字符数
+const PREVIEW_CHARS = 200;
+
+interface SearchResultItem extends vscode.QuickPickItem {
+    uri: vscode.Uri;
+    selection?: vscode.Range; // 文本搜索打开文件后选中的匹配
+}
+
+type TextSearchFlag = 'isCaseSensitive' | 'isWordMatch' | 'isRegExp';
+
+// 标题栏按钮：切换文本搜索选项，或编辑包含的文件
+interface SearchPickButton extends vscode.QuickInputButton {
+    flag?: TextSearchFlag;
+}
+
+const TEXT_SEARCH_TOGGLES: Array<{ flag: TextSearchFlag; icon: string; label: string }> = [
+    { flag: 'isCaseSensitive', icon: 'case-sensitive', label: '区分大小写' },
+    { flag: 'isWordMatch', icon: 'whole-word', label: '全字匹配' },
+    { flag: 'isRegExp', icon: 'regex', label: '使用正则表达式' }
+];
+
+/**
+ * 一次搜索的状态：包含的文件 glob，以及文本搜索的选项（文件搜索没有）
+ */
+interface SearchPickState {
+    includes: string[];
+    flags?: Record<TextSearchFlag, boolean>;
+}
+
+/**
+ * 远程目录搜索：建议 API 可用时注册快速打开和搜索视图的提供者；另提供命令，
+ * 在快速选择列表中搜索文件树中的目录，或在提供者不可用时搜索 ssh:// 工作区文件夹
+ */
+export class RemoteSearchManager {
+    private static instance: RemoteSearchManager;
+    private logChannel: vscode.OutputChannel;
+
+    private constructor() {
+        this.logChannel = vscode.window.createOutputChannel('Starsfall Search');
+    }
+
+    public static getInstance(): RemoteSearchManager {
+        if (!RemoteSearchManager.instance) {
+            RemoteSearchManager.instance = new RemoteSearchManager();
+        }
+        return RemoteSearchManager.instance;
+    }
+
+    /**
+     * 为 ssh:// 注册文件搜索和文本搜索提供者。两者是建议 API，未允许本扩展使用时
+     * （如从应用市场安装的正式版）访问会抛出异常，此时只能使用搜索命令
+     * @returns 是否注册成功
+     */
+    public registerProviders(context: vscode.ExtensionContext): boolean {
+        const provider = new RemoteSearchProvider();
+        try {
+            context.subscriptions.push(
+                vscode.workspace.registerFileSearchProvider('ssh', provider),
+                vscode.workspace.registerTextSearchProvider('ssh', provider)
+            );
+            return true;
+        } catch (err) {
+            this.logChannel.appendLine(`[WARN] 快速打开和搜索视图不支持远程文件夹（需要建议 API），请使用 Starsfall 搜索命令: ${err instanceof Error ? err.message : String(err)}`);
+            return false;
+        }
+    }
+
+    /**
+     * 按文件名模糊查找远程目录中的文件
+     * @param node 服务器文件树中的目录节点；从命令面板调用时在远程工作区文件夹中查找
+     */
+    public async findFile(node?: { resourceUri?: vscode.Uri }): Promise<void> {
+        const folder = await this.pickFolder(node);
+        if (!folder) return;
+
+        this.showSearchPick(folder, `在 ${folder.authority}:${folder.path} 中查找文件`, '输入文件名', { includes: [] }, async (pattern, options, token, add) => {
+            if (!pattern.trim()) return false;
+            const accept = createGlobFilter(options.includes, options.excludes);
+            let count = 0;
+            await runRemoteLines(folder.authority, buildFileSearchCommand(folder.path, pattern, options), token, line => {
+                const relativePath = normalizeListedPath(line);
+                if (!accept(relativePath) || !fuzzyMatchesPath(pattern, relativePath)) return true;
+                const directory = path.posix.dirname(relativePath);
+                add({
+                    label: path.posix.basename(relativePath),
+                    description: directory === '.' ? '' : directory,
+                    uri: folder.with({ path: joinRemotePath(folder.path, relativePath) })
+                });
+                return ++count < MAX_RESULTS;
+            });
+            return count >= MAX_RESULTS;
+        });
+    }
+
+    /**
+     * 在远程目录的文件内容中搜索文本，标题栏按钮切换区分大小写、全字匹配和正则表达式。
+     * 未开启区分大小写时遵循 search.smartCase：模式中含大写字母则区分大小写
+     * @param node 服务器文件树中的目录节点；从命令面板调用时在远程工作区文件夹中搜索
+     */
+    public async searchText(node?: { resourceUri?: vscode.Uri }): Promise<void> {
+        const folder = await this.pickFolder(node);
+        if (!folder) return;
+        const smartCase = vscode.workspace.getConfiguration('search', folder).get<boolean>('smartCase', false);
+        const state: SearchPickState = { includes: [], flags: { isCaseSensitive: false, isWordMatch: false, isRegExp: false } };
+
+        this.showSearchPick(folder, `在 ${folder.authority}:${folder.path} 中搜索文本`, '输入要搜索的文本', state, async (pattern, options, token, add) => {
+            if (!pattern) return false;
+            const flags = state.flags!;
+            const query: RemoteTextQuery = {
+                pattern,
+                ...flags,
+                isCaseSensitive: flags.isCaseSensitive || (smartCase && pattern !== pattern.toLowerCase())
+            };
+            let regex: RegExp | undefined;
+            try {
+                regex = buildMatchRegExp(query);
+            } catch {
+                regex = undefined; // 服务器端正则语法 JS 不支持时，选中整行
+            }
+
+            const accept = createGlobFilter(options.includes, options.excludes);
+            let count = 0;
+            await runRemoteLines(folder.authority, buildTextSearchCommand(folder.path, query, options), token, line => {
+                const parsed = parseSearchLine(line);
+                if (!parsed || !accept(parsed.path)) return true;
+                const ranges = findMatchRanges(parsed.text, regex);
+                const lineIndex = parsed.lineNumber - 1;
+                const first = ranges[0] || { start: 0, end: parsed.text.length };
+                add({
+                    label: createPreview(parsed.text, ranges, PREVIEW_CHARS).text.trim() || parsed.text,
+                    description: `${parsed.path}:${parsed.lineNumber}`,
+                    uri: folder.with({ path: joinRemotePath(folder.path, parsed.path) }),
+                    selection: new vscode.Range(lineIndex, first.start, lineIndex, first.end)
+                });
+                return ++count < MAX_RESULTS;
+            });
+            return count >= MAX_RESULTS;
+        });
+    }
+
+    /**
+     * 显示随输入在服务器上搜索的快速选择列表。输入变化、切换选项或修改包含的文件时取消上一次搜索，
+     * 结果边接收边显示；选中后打开文件
+     * @param search 按当前输入和搜索选项执行一次搜索，返回是否因结果过多而提前停止
+     */
+    private showSearchPick(
+        folder: vscode.Uri,
+        title: string,
+        placeholder: string,
+        state: SearchPickState,
+        search: (value: string, options: RemoteSearchOptions, token: vscode.CancellationToken, add: (item: SearchResultItem) => void) => Promise<boolean>
+    ): void {
+        const pick = vscode.window.createQuickPick<SearchResultItem>();
+        pick.placeholder = placeholder;
+        pick.matchOnDescription = true;
+
+        const updateTitle = (limitHit: boolean) => {
+            const enabled = TEXT_SEARCH_TOGGLES.filter(toggle => state.flags?.[toggle.flag]).map(toggle => toggle.label);
+            if (state.includes.length > 0) enabled.push(`包含 ${state.includes.join(', ')}`);
+            pick.title = title
+                + (enabled.length > 0 ? `（${enabled.join('、')}）` : '')
+                + (limitHit ? ` - 只显示前 ${MAX_RESULTS} 个结果` : '');
+        };
+        const updateButtons = () => {
+            const flags = state.flags;
+            const toggles = !flags ? [] : TEXT_SEARCH_TOGGLES.map((toggle): SearchPickButton => ({
+                flag: toggle.flag,
+                iconPath: new vscode.ThemeIcon(toggle.icon),
+                tooltip: `${toggle.label}（${flags[toggle.flag] ? '已开启' : '已关闭'}）`
+            }));
+            pick.buttons = [
+                ...toggles,
+                { iconPath: new vscode.ThemeIcon('filter'), tooltip: state.includes.length > 0 ? `包含的文件: ${state.includes.join(', ')}` : '包含的文件' }
+            ];
+        };
+        updateTitle(false);
+        updateButtons();
+
+        let source: vscode.CancellationTokenSource | undefined;
+        let delayTimer: NodeJS.Timeout | undefined;
+        let refreshTimer: NodeJS.Timeout | undefined;
+        // 编辑包含的文件时列表会暂时隐藏，此时不释放
+        let editingIncludes = false;
+
+        const run = () => {
+            source?.cancel();
+            source?.dispose();
+            if (refreshTimer) clearTimeout(refreshTimer);
+            refreshTimer = undefined;
+            const current = source = new vscode.CancellationTokenSource();
+            const results: SearchResultItem[] = [];
+            const refresh = () => {
+                refreshTimer = undefined;
+                if (!current.token.isCancellationRequested) pick.items = results.slice();
+            };
+
+            pick.items = [];
+            pick.busy = true;
+            updateTitle(false);
+            search(pick.value, this.getSearchOptions(folder, state.includes), current.token, item => {
+                // 结果已经按输入在服务器上过滤，不让列表再按标签过滤一遍
+                results.push({ ...item, alwaysShow: true });
+                if (!refreshTimer) refreshTimer = setTimeout(refresh, REFRESH_INTERVAL);
+            }).then(limitHit => {
+                if (current.token.isCancellationRequested) return;
+                if (refreshTimer) clearTimeout(refreshTimer);
+                refresh();
+                updateTitle(limitHit);
+                pick.busy = false;
+            }, err => {
+                if (current.token.isCancellationRequested) return;
+                pick.busy = false;
+                const message = err instanceof Error ? err.message : String(err);
+                this.logChannel.appendLine(`[ERROR] 远程搜索失败: ${title}, ${message}`);
+                vscode.window.showErrorMessage(`远程搜索失败: ${message}`);
+            });
+        };
+
+        const editIncludes = async () => {
+            editingIncludes = true;
+            const value = await vscode.window.showInputBox({
+                prompt: '包含的文件（逗号分隔的 glob，留空表示全部文件）',
+                placeHolder: '例如 *.ts, src/**',
+                value: state.includes.join(', ')
+            });
+            editingIncludes = false;
+            if (value !== undefined) {
+                state.includes = value.split(',').map(glob => glob.trim()).filter(Boolean);
+                updateButtons();
+            }
+            pick.show();
+            if (value !== undefined) run();
+        };
+
+        pick.onDidChangeValue(() => {
+            if (delayTimer) clearTimeout(delayTimer);
+            delayTimer = setTimeout(run, SEARCH_DELAY);
+        });
+        pick.onDidTriggerButton(button => {
+            const flag = (button as SearchPickButton).flag;
+            if (!flag || !state.flags) {
+                editIncludes();
+                return;
+            }
+            state.flags[flag] = !state.flags[flag];
+            updateButtons();
+            run();
+        });
+        pick.onDidAccept(() => {
+            const item = pick.selectedItems[0];
+            if (!item) return;
+            pick.hide();
+            this.openResult(item);
+        });
+        pick.onDidHide(() => {
+            if (editingIncludes) return;
+            if (delayTimer) clearTimeout(delayTimer);
+            if (refreshTimer) clearTimeout(refreshTimer);
+            source?.cancel();
+            source?.dispose();
+            pick.dispose();
+        });
+        pick.show();
+    }
+
+    private async openResult(item: SearchResultItem): Promise<void> {
+        try {
+            if (item.selection) {
+                await vscode.window.showTextDocument(item.uri, { selection: item.selection });
+            } else {
+                await vscode.commands.executeCommand('vscode.open', item.uri);
+            }
+        } catch (err) {
+            if (isCancellation(err)) return;
+            vscode.window.showErrorMessage(`无法打开文件: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    /**
+     * 确定搜索的目录：优先使用右键的目录节点，否则在 ssh:// 工作区文件夹中选择
+     */
+    private async pickFolder(node?: { resourceUri?: vscode.Uri }): Promise<vscode.Uri | undefined> {
+        if (node?.resourceUri) return node.resourceUri;
+        const folders = (vscode.workspace.workspaceFolders || []).filter(folder => folder.uri.scheme === 'ssh');
+        if (folders.length === 0) {
+            vscode.window.showInformationMessage('工作区中没有远程文件夹。可在服务器文件树的目录上右键搜索，或先将目录添加到工作区。');
+            return undefined;
+        }
+        if (folders.length === 1) return folders[0].uri;
+        const picked = await vscode.window.showQuickPick(
+            folders.map(folder => ({ label: folder.name, description: `${folder.uri.authority}:${folder.uri.path}`, folder })),
+            { placeHolder: '选择要搜索的远程文件夹' }
+        );
+        return picked?.folder.uri;
+    }
+
+    /**
+     * 与搜索视图相同，按目录所在工作区文件夹的 files.exclude、search.exclude、
+     * search.useIgnoreFiles 和 search.followSymlinks 设置确定搜索选项
+     */
+    private getSearchOptions(folder: vscode.Uri, includes: string[]): RemoteSearchOptions {
+        const search = vscode.workspace.getConfiguration('search', folder);
+        const files = vscode.workspace.getConfiguration('files', folder);
+        // 值为 { when: ... } 的条件排除项依赖同级文件，无法在服务器上判断，不使用
+        const enabled = (globs: Record<string, unknown> | undefined) => Object.keys(globs || {}).filter(glob => globs![glob] === true);
+        return {
+            includes,
+            excludes: [...enabled(files.get('exclude')), ...enabled(search.get('exclude'))],
+            useIgnoreFiles: search.get<boolean>('useIgnoreFiles', true),
+            followSymlinks: search.get<boolean>('followSymlinks', true)
+        };
+    }
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { StringDecoder } from 'string_decoder';
+import { ConnectionPool } from './connectionPool';
+import {
+    buildFileSearchCommand,
+    buildMatchRegExp,
+    buildTextSearchCommand,
+    createGlobFilter,
+    createPreview,
+    findMatchRanges,
+    fuzzyMatchesPath,
+    normalizeListedPath,
+    parseSearchLine,
+    RemoteSearchOptions
+} from './remoteSearch';
+import { joinRemotePath } from './remoteFiles';
+
+// 预览中每行的默认最大字符数
+const DEFAULT_CHARS_PER_LINE = 1000;
+
+/**
+ * ssh:// 工作区文件夹的快速打开和搜索视图：在服务器上运行 rg（没有时用 find / grep），
+ * 通过共享连接逐行读取结果，不下载文件
+ */
+export class RemoteSearchProvider implements vscode.FileSearchProvider, vscode.TextSearchProvider {
+    async provideFileSearchResults(query: vscode.FileSearchQuery, options: vscode.FileSearchOptions, token: vscode.CancellationToken): Promise<vscode.Uri[]> {
+        const folder = options.folder;
+        const accept = createGlobFilter(options.includes, options.excludes);
+        const results: vscode.Uri[] = [];
+        await runRemoteLines(folder.authority, buildFileSearchCommand(folder.path, query.pattern, this.toSearchOptions(options)), token, line => {
+            const relativePath = normalizeListedPath(line);
+            if (accept(relativePath) && fuzzyMatchesPath(query.pattern, relativePath)) {
+                results.push(folder.with({ path: joinRemotePath(folder.path, relativePath) }));
+            }
+            return options.maxResults === undefined || results.length < options.maxResults;
+        });
+        return results;
+    }
+
+    async provideTextSearchResults(
+        query: vscode.TextSearchQuery,
+        options: vscode.TextSearchOptions,
+        progress: vscode.Progress<vscode.TextSearchResult>,
+        token: vscode.CancellationToken
+    ): Promise<vscode.TextSearchComplete> {
+        const folder = options.folder;
+        const accept = createGlobFilter(options.includes, options.excludes);
+        const charsPerLine = options.previewOptions?.charsPerLine || DEFAULT_CHARS_PER_LINE;
+        let regex: RegExp | undefined;
+        try {
+            regex = buildMatchRegExp(query);
+        } catch {
+            regex = undefined; // 服务器端正则语法 JS 不支持时，预览中高亮整行
+        }
+
+        let matches = 0;
+        let limitHit = false;
+        const command = buildTextSearchCommand(folder.path, query, { ...this.toSearchOptions(options), maxFileSize: options.maxFileSize });
+        await runRemoteLines(folder.authority, command, token, line => {
+            const parsed = parseSearchLine(line);
+            if (!parsed || !accept(parsed.path)) return true;
+            if (matches >= options.maxResults) {
+                limitHit = true;
+                return false;
+            }
+            const ranges = findMatchRanges(parsed.text, regex);
+            const preview = createPreview(parsed.text, ranges, charsPerLine);
+            const lineIndex = parsed.lineNumber - 1;
+            progress.report({
+                uri: folder.with({ path: joinRemotePath(folder.path, parsed.path) }),
+                ranges: ranges.map(range => new vscode.Range(lineIndex, range.start, lineIndex, range.end)),
+                preview: {
+                    text: preview.text,
+                    matches: preview.matches.map(range => new vscode.Range(0, range.start, 0, range.end))
+                }
+            });
+            matches++;
+            return true;
+        });
+        return { limitHit };
+    }
+
+    private toSearchOptions(options: vscode.SearchOptions): RemoteSearchOptions {
+        return {
+            includes: options.includes,
+            excludes: options.excludes,
+            useIgnoreFiles: options.useIgnoreFiles,
+            followSymlinks: options.followSymlinks
+        };
+    }
+}
+
+/**
+ * 在服务器上执行搜索命令并逐行处理输出；onLine 返回 false 或搜索被取消时关闭通道
+ */
+export function runRemoteLines(connectionString: string, command: string, token: vscode.CancellationToken, onLine: (line: string) => boolean): Promise<void> {
+    return ConnectionPool.getInstance().withClient(connectionString, client => new Promise<void>((resolve, reject) => {
+        if (token.isCancellationRequested) return resolve();
+        client.exec(command, (err, stream) => {
+            if (err) return reject(err);
+            const decoder = new StringDecoder('utf8');
+            let buffer = '';
+            let stopped = false;
+            const stop = () => {
+                if (stopped) return;
+                stopped = true;
+                cancellation.dispose();
+                stream.close();
+            };
+            const cancellation = token.onCancellationRequested(stop);
+
+            stream.on('data', (chunk: Buffer) => {
+                if (stopped) return;
+                buffer += decoder.write(chunk);
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    if (line && !onLine(line)) {
+                        stop();
+                        return;
+                    }
+                }
+            });
+            stream.stderr.resume();
+            stream.on('close', () => {
+                cancellation.dispose();
+                buffer += decoder.end();
+                if (!stopped && buffer) onLine(buffer);
+                resolve();
+            });
+        });
+    }));
+}
@@ -0,0 +1,105 @@
+/**
+ * 远程持久会话使用的终端复用器
+ */
+export type SessionKind = 'tmux' | 'screen';
+
+/**
+ * 服务器上已存在的 tmux / screen 会话
+ */
+export interface RemoteSession {
+    kind: SessionKind;
+    id: string;        // 用于 -t / -S 定位会话：tmux 为会话名，screen 为 pid.name
+    name: string;
+    windows?: number;  // 仅 tmux 提供
+    attached: boolean;
+}
+
+/**
+ * 打开会话的方式：附加（不存在则创建）或在会话中新建窗口
+ */
+export type SessionAttachMode = 'attach' | 'new-window';
+
+/**
+ * 列出会话的命令；复用器未安装时输出为空
+ */
+export function buildListCommand(kind: SessionKind): string {
+    if (kind === 'tmux') {
+        return `tmux list-sessions -F '#{session_name}\t#{session_windows}\t#{session_attached}' 2>/dev/null || true`;
+    }
+    return 'screen -ls 2>/dev/null || true';
+}
+
+/**
+ * 生成交互式终端执行的命令：附加到会话或在会话中新建窗口；复用器未安装时回退到普通登录 shell
+ */
+export function buildAttachCommand(kind: SessionKind, id: string, mode: SessionAttachMode): string {
+    const target = quoteArgument(id);
+    let attach: string;
+    if (kind === 'tmux') {
+        attach = mode === 'new-window'
+            ? `exec tmux new-session -A -s ${target} \\; new-window`
+            : `exec tmux new-session -A -s ${target}`;
+    } else {
+        // screen -x 可与其他终端同时附加；会话不存在时新建
+        const attachOrCreate = `screen -x ${target} || screen -S ${target}`;
+        attach = mode === 'new-window'
+            ? `screen -S ${target} -X screen 2>/dev/null; ${attachOrCreate}`
+            : attachOrCreate;
+    }
+    const fallback = `echo "${kind} 未安装，已打开普通 shell"; exec "\${SHELL:-/bin/sh}" -l`;
+    // 通过 sh 执行，不依赖用户登录 shell 的语法（如 fish）
+    return `sh -c ${quoteArgument(`if command -v ${kind} >/dev/null 2>&1; then ${attach}; else ${fallback}; fi`)}`;
+}
+
+export function buildRenameCommand(session: RemoteSession, newName: string): string {
+    return session.kind === 'tmux'
+        ? `tmux rename-session -t ${quoteArgument(session.id)} ${quoteArgument(newName)}`
+        : `screen -S ${quoteArgument(session.id)} -X sessionname ${quoteArgument(newName)}`;
+}
+
+export function buildKillCommand(session: RemoteSession): string {
+    return session.kind === 'tmux'
+        ? `tmux kill-session -t ${quoteArgument(session.id)}`
+        : `screen -S ${quoteArgument(session.id)} -X quit`;
+}
+
+/**
+ * 解析 buildListCommand('tmux') 的输出
+ */
+export function parseTmuxSessions(output: string): RemoteSession[] {
+    return output.split(/\r?\n/).filter(line => line.trim()).map(line => {
+        const [name, windows, attached] = line.split('\t');
+        return {
+            kind: 'tmux' as const,
+            id: name,
+            name,
+            windows: parseInt(windows, 10) || undefined,
+            attached: parseInt(attached, 10) > 0
+        };
+    });
+}
+
+/**
+ * 解析 screen -ls 的输出，如 "\t12345.build\t(05/01/2025 10:00:00 AM)\t(Detached)"
+ */
+export function parseScreenSessions(output: string): RemoteSession[] {
+    const sessions: RemoteSession[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = /^\s+(\d+)\.(\S+)\s.*\((Attached|Detached|Multi, attached|Multi, detached)\)\s*$/i.exec(line);
+        if (!match) continue;
+        const [, pid, name, state] = match;
+        sessions.push({ kind: 'screen', id: `${pid}.${name}`, name, attached: /attached/i.test(state) && !/detached/i.test(state) });
+    }
+    return sessions;
+}
+
+/**
+ * 会话名只保留 tmux 和 screen 都能接受的字符
+ */
+export function sanitizeSessionName(name: string): string {
+    return name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'starsfall';
+}
+
+export function quoteArgument(value: string): string {
+    return /^[A-Za-z0-9_.-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
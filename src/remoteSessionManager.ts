@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { ConnectionPool } from './connectionPool';
+import {
+    buildKillCommand,
+    buildListCommand,
+    buildRenameCommand,
+    parseScreenSessions,
+    parseTmuxSessions,
+    RemoteSession,
+    sanitizeSessionName,
+    SessionKind
+} from './remoteSession';
+
+/**
+ * 远程持久会话管理：按设置决定终端是否附加到 tmux / screen 会话，并负责列出、重命名和结束服务器上的会话
+ */
+export class RemoteSessionManager {
+    private static instance: RemoteSessionManager;
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+
+    public static getInstance(): RemoteSessionManager {
+        if (!RemoteSessionManager.instance) {
+            RemoteSessionManager.instance = new RemoteSessionManager();
+        }
+        return RemoteSessionManager.instance;
+    }
+
+    /**
+     * 当前启用的复用器；未开启持久会话时返回 undefined
+     */
+    public getSessionKind(): SessionKind | undefined {
+        const kind = vscode.workspace.getConfiguration('starsfall').get<string>('terminal.persistentSession', 'off');
+        return kind === 'tmux' || kind === 'screen' ? kind : undefined;
+    }
+
+    /**
+     * 新终端默认附加的会话名
+     */
+    public getDefaultSessionName(): string {
+        return sanitizeSessionName(vscode.workspace.getConfiguration('starsfall').get<string>('terminal.sessionName', 'starsfall'));
+    }
+
+    public async listSessions(connectionString: string): Promise<RemoteSession[]> {
+        const kind = this.getSessionKind();
+        if (!kind) return [];
+        const output = await this.exec(connectionString, buildListCommand(kind));
+        return kind === 'tmux' ? parseTmuxSessions(output) : parseScreenSessions(output);
+    }
+
+    public async renameSession(connectionString: string, session: RemoteSession, newName: string): Promise<void> {
+        await this.exec(connectionString, buildRenameCommand(session, sanitizeSessionName(newName)), true);
+    }
+
+    public async killSession(connectionString: string, session: RemoteSession): Promise<void> {
+        await this.exec(connectionString, buildKillCommand(session), true);
+    }
+
+    /**
+     * 在共享连接上执行命令并返回标准输出
+     * @param checkExitCode 为 true 时命令返回非零退出码视为失败
+     */
+    private exec(connectionString: string, command: string, checkExitCode: boolean = false): Promise<string> {
+        return this.connectionPool.withClient(connectionString, client => new Promise<string>((resolve, reject) => {
+            client.exec(command, (err, stream) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                let stdout = '';
+                let stderr = '';
+                let exitCode: number | undefined;
+                stream.on('data', (data: Buffer) => {
+                    stdout += data.toString();
+                });
+                stream.stderr.on('data', (data: Buffer) => {
+                    stderr += data.toString();
+                });
+                stream.on('exit', (code: number) => {
+                    exitCode = code;
+                });
+                stream.on('close', () => {
+                    if (checkExitCode && exitCode) {
+                        reject(new Error(stderr.trim() || stdout.trim() || `${command} 退出码 ${exitCode}`));
+                        return;
+                    }
+                    resolve(stdout);
+                });
+            });
+        }));
+    }
+}
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+import { ConnectionPool } from './connectionPool';
+import { detectEncoding, ENCODING_SAMPLE_SIZE } from './fileEncoding';
+import { withTransferProgress } from './remoteTransfer';
+import { readRemoteTail } from './sftpTransfer';
+
+/**
+ * 大文件“只打开末尾”时使用的只读文档，路径与对应的 ssh:// 文件相同
+ */
+export const TAIL_SCHEME = 'ssh-tail';
+
+// 只打开末尾时读取的字节数
+const TAIL_SIZE = 2 * 1024 * 1024;
+
+// 检测到的编码对应的解码器名称
+const DECODER_LABELS: Record<string, string> = {
+    utf8: 'utf-8',
+    utf8bom: 'utf-8',
+    utf16le: 'utf-16le',
+    utf16be: 'utf-16be',
+    gbk: 'gbk',
+    gb18030: 'gb18030'
+};
+
+/**
+ * 读取远程文件的最后一部分作为只读文档，从第一个完整的行开始显示，适合查看很大的日志
+ */
+export class RemoteTailProvider implements vscode.TextDocumentContentProvider {
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const { content, truncated } = await withTransferProgress(`正在读取 ${path.posix.basename(uri.path)} 的末尾`, TAIL_SIZE, true, control =>
+            this.connectionPool.withSftp(uri.authority, sftp => readRemoteTail(sftp, uri.path, TAIL_SIZE, control)));
+        const text = truncated ? content.subarray(content.indexOf(0x0a) + 1) : content;
+        const { encoding } = detectEncoding(text.subarray(0, ENCODING_SAMPLE_SIZE), true);
+        return new TextDecoder(DECODER_LABELS[encoding || 'utf8'] || 'utf-8').decode(text);
+    }
+}
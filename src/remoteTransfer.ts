@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConnectionPool } from './connectionPool';
+import { formatBytes } from './remoteFiles';
+import { downloadToLocal, TransferControl, uploadFromLocal } from './sftpTransfer';
+
+// 小于该大小的文件直接传输，不显示进度通知
+const PROGRESS_MIN_SIZE = 1024 * 1024;
+
+/**
+ * 一次文件传输：本地与远程之间的上传、下载，或远程之间的复制、移动
+ */
+export interface Transfer {
+    source: vscode.Uri;
+    target: vscode.Uri;
+}
+
+export async function uriExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 目标已存在时询问覆盖还是跳过
+ * @returns 需要执行的传输，用户取消时为 undefined
+ */
+export async function resolveExistingTargets(transfers: Transfer[]): Promise<Transfer[] | undefined> {
+    const existing: Transfer[] = [];
+    for (const transfer of transfers) {
+        if (await uriExists(transfer.target)) existing.push(transfer);
+    }
+    if (existing.length === 0) return transfers;
+
+    const choice = await vscode.window.showWarningMessage(
+        `以下文件已存在：${existing.map(transfer => baseName(transfer.target)).join(', ')}`,
+        { modal: true },
+        '覆盖',
+        '跳过已存在的文件'
+    );
+    if (!choice) return undefined;
+    return choice === '覆盖' ? transfers : transfers.filter(transfer => !existing.includes(transfer));
+}
+
+/**
+ * 在通知中显示进度逐个传输，可取消。本地与服务器之间的文件分块流式传输，
+ * 进度精确到字节，取消时正在传输的文件也会停止并删除未写完的部分
+ * @param move 为 true 时移动（同一服务器内通过 rename 完成），否则复制
+ * @returns 完成的传输数量
+ */
+export async function runTransfers(title: string, transfers: Transfer[], move: boolean = false): Promise<number> {
+    return vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+        async (progress, token) => {
+            const share = 100 / transfers.length;
+            let completed = 0;
+            for (const transfer of transfers) {
+                if (token.isCancellationRequested) break;
+                const message = `${baseName(transfer.source)} (${completed + 1}/${transfers.length})`;
+                let reported = 0;
+                const report = (fraction: number, detail?: string) => {
+                    const increment = share * fraction - reported;
+                    reported += increment;
+                    progress.report({ message: detail ? `${message} ${detail}` : message, increment });
+                };
+                const control = createTransferControl(token, (transferred, total) => report(transferred / total, `${formatBytes(transferred)} / ${formatBytes(total)}`));
+
+                report(0);
+                try {
+                    if (move) {
+                        await vscode.workspace.fs.rename(transfer.source, transfer.target, { overwrite: true });
+                    } else if (transfer.source.scheme === 'ssh' && transfer.target.scheme === 'file') {
+                        await ConnectionPool.getInstance().withSftp(transfer.source.authority, sftp => downloadToLocal(sftp, transfer.source.path, transfer.target.fsPath, control));
+                    } else if (transfer.source.scheme === 'file' && transfer.target.scheme === 'ssh') {
+                        await ConnectionPool.getInstance().withSftp(transfer.target.authority, sftp => uploadFromLocal(transfer.source.fsPath, sftp, transfer.target.path, control));
+                    } else {
+                        await vscode.workspace.fs.copy(transfer.source, transfer.target, { overwrite: true });
+                    }
+                } catch (err) {
+                    if (token.isCancellationRequested) break;
+                    throw err;
+                }
+                report(1);
+                completed++;
+            }
+            return completed;
+        }
+    );
+}
+
+/**
+ * 执行一次可能很大的文件读写：达到 PROGRESS_MIN_SIZE 时在通知中显示已传输的字节数
+ * @param cancellable 是否允许取消；取消时抛出 vscode.CancellationError
+ */
+export async function withTransferProgress<T>(title: string, size: number, cancellable: boolean, task: (control: TransferControl) => Promise<T>): Promise<T> {
+    if (size < PROGRESS_MIN_SIZE) return task({});
+    return vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title, cancellable }, async (progress, token) => {
+        let reported = 0;
+        const control = createTransferControl(token, (transferred, total) => {
+            // 按整数百分比更新，避免每个数据块都发送一次进度
+            const percent = Math.floor(transferred / total * 100);
+            if (percent <= reported) return;
+            progress.report({ message: `${formatBytes(transferred)} / ${formatBytes(total)}`, increment: percent - reported });
+            reported = percent;
+        });
+        try {
+            return await task(control);
+        } catch (err) {
+            if (token.isCancellationRequested) throw new vscode.CancellationError();
+            throw err;
+        }
+    });
+}
+
+/**
+ * 是否为取消读写产生的错误。文件系统提供者抛出的 CancellationError 经 VS Code 转发后
+ * 只保留名称，不再是 vscode.CancellationError 的实例
+ */
+export function isCancellation(err: unknown): boolean {
+    return err instanceof vscode.CancellationError || (err instanceof Error && err.name === 'Canceled');
+}
+
+function createTransferControl(token: vscode.CancellationToken, onProgress: (transferred: number, total: number) => void): TransferControl {
+    return { onProgress, isCancelled: () => token.isCancellationRequested };
+}
+
+function baseName(uri: vscode.Uri): string {
+    return uri.scheme === 'file' ? path.basename(uri.fsPath) : path.posix.basename(uri.path);
+}
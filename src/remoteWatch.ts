@@ -0,0 +1,119 @@
+import * as path from 'path';
+import { quoteArgument } from './remoteSession';
+import { createGlobFilter } from './remoteSearch';
+
+export type RemoteChangeType = 'created' | 'changed' | 'deleted';
+
+export interface RemoteChange {
+    type: RemoteChangeType;
+    path: string;
+}
+
+/**
+ * 一个监视请求（对应 FileSystemProvider.watch 的一次调用）
+ */
+export interface RemoteWatchRequest {
+    path: string;
+    recursive: boolean;
+    excludes: string[];
+}
+
+/**
+ * 轮询时记录的条目状态
+ */
+export interface EntrySnapshot {
+    isDirectory: boolean;
+    mtime: number;
+    size: number;
+}
+
+// inotifywait 输出的事件行：“事件列表 路径”；以 ! 开头的行是脚本自身的状态
+const INOTIFY_EVENTS = 'create,delete,modify,attrib,close_write,moved_to,moved_from,delete_self,move_self';
+
+/**
+ * 生成在服务器上监视文件的脚本：递归和非递归的路径各用一个 inotifywait，
+ * 跳过不存在的路径。没有 inotifywait 时输出 !missing，inotifywait 退出时输出 !exit 和退出码；
+ * 标准输入关闭（通道关闭或连接断开）时结束这些 inotifywait 进程
+ */
+export function buildInotifyCommand(requests: RemoteWatchRequest[]): string {
+    const groups = [true, false].map(recursive => {
+        const paths = Array.from(new Set(requests.filter(request => request.recursive === recursive).map(request => request.path)));
+        if (paths.length === 0) return '';
+        const names = excludedNames(requests.filter(request => request.recursive === recursive));
+        const args = ['inotifywait', '-m', '-q', ...(recursive ? ['-r'] : []), '-e', INOTIFY_EVENTS, '--format', quoteArgument('%e %w%f')];
+        if (recursive && names.length > 0) {
+            args.push('--exclude', quoteArgument(`(^|/)(${names.map(escapeRegExp).join('|')})(/|$)`));
+        }
+        return `set --; for p in ${paths.map(quoteArgument).join(' ')}; do [ -e "$p" ] && set -- "$@" "$p"; done; `
+            + `[ $# -gt 0 ] && { ( ${args.join(' ')} "$@" & w=$!; trap 'kill $w; exit' TERM; wait $w; echo "!exit $?" ) & pids="$pids $!"; }; `;
+    }).join('');
+    const script = `command -v inotifywait >/dev/null 2>&1 || { echo '!missing'; exit 127; }; pids=; ${groups}cat >/dev/null; kill $pids 2>/dev/null`;
+    return `sh -c ${quoteArgument(script)}`;
+}
+
+/**
+ * 解析 inotifywait 输出的一行事件
+ */
+export function parseInotifyLine(line: string): RemoteChange | undefined {
+    const space = line.indexOf(' ');
+    if (space === -1) return undefined;
+    const events = line.slice(0, space).split(',');
+    const changedPath = normalizeWatchedPath(line.slice(space + 1));
+    const has = (...names: string[]) => names.some(name => events.includes(name));
+    if (has('CREATE', 'MOVED_TO')) return { type: 'created', path: changedPath };
+    if (has('DELETE', 'MOVED_FROM', 'DELETE_SELF', 'MOVE_SELF')) return { type: 'deleted', path: changedPath };
+    if (has('MODIFY', 'ATTRIB', 'CLOSE_WRITE')) return { type: 'changed', path: changedPath };
+    return undefined;
+}
+
+/**
+ * 变化的路径是否属于该监视请求：监视的路径本身、递归监视下的任意子项或非递归监视下的直接子项，且未被排除
+ */
+export function isWatchedBy(request: RemoteWatchRequest, changedPath: string): boolean {
+    if (changedPath === request.path) return true;
+    const prefix = request.path === '/' ? '/' : `${request.path}/`;
+    if (!changedPath.startsWith(prefix)) return false;
+    const relativePath = changedPath.slice(prefix.length);
+    if (!request.recursive && relativePath.includes('/')) return false;
+    return request.excludes.length === 0 || createGlobFilter([], request.excludes)(relativePath);
+}
+
+/**
+ * 比较两次轮询的结果。previous 为 undefined 时是第一次轮询，只记录不报告；
+ * 目录的修改时间随子项增删变化，只报告其新增和删除
+ */
+export function diffSnapshots(previous: Map<string, EntrySnapshot> | undefined, current: Map<string, EntrySnapshot>): RemoteChange[] {
+    if (!previous) return [];
+    const changes: RemoteChange[] = [];
+    previous.forEach((entry, entryPath) => {
+        const next = current.get(entryPath);
+        if (!next || next.isDirectory !== entry.isDirectory) changes.push({ type: 'deleted', path: entryPath });
+    });
+    current.forEach((entry, entryPath) => {
+        const before = previous.get(entryPath);
+        if (!before || before.isDirectory !== entry.isDirectory) {
+            changes.push({ type: 'created', path: entryPath });
+        } else if (!entry.isDirectory && (before.mtime !== entry.mtime || before.size !== entry.size)) {
+            changes.push({ type: 'changed', path: entryPath });
+        }
+    });
+    return changes;
+}
+
+// inotifywait 的目录路径带有结尾的 /（%w），与 %f 拼接后规范化
+function normalizeWatchedPath(watchedPath: string): string {
+    const normalized = path.posix.normalize(watchedPath);
+    return normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized;
+}
+
+// 所有请求都排除的简单名称（如 node_modules、.git）交给 inotifywait，不为其中的目录建立监视
+function excludedNames(requests: RemoteWatchRequest[]): string[] {
+    const names = requests.map(request => new Set(request.excludes
+        .map(glob => /^(?:\*\*\/)?([^*?[\]{}/]+)(?:\/\*\*)?$/.exec(glob)?.[1])
+        .filter((name): name is string => !!name)));
+    return names.length === 0 ? [] : Array.from(names[0]).filter(name => names.every(set => set.has(name)));
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,272 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { Client, ClientChannel, FileEntryWithStats, SFTPWrapper, Stats } from 'ssh2';
+import { ConnectionPool } from './connectionPool';
+import { createGlobFilter } from './remoteSearch';
+import { joinRemotePath } from './remoteFiles';
+import {
+    buildInotifyCommand,
+    diffSnapshots,
+    EntrySnapshot,
+    isWatchedBy,
+    parseInotifyLine,
+    RemoteChange,
+    RemoteWatchRequest
+} from './remoteWatch';
+
+// 轮询间隔（毫秒）
+const POLL_INTERVAL = 5000;
+// 每个递归监视轮询时最多列出的条目数，避免在很大的目录树上每次轮询都遍历全部文件
+const MAX_POLLED_ENTRIES = 10000;
+// 监视请求变化后稍等再重启 inotifywait，打开多个文件时只重启一次
+const RESTART_DELAY = 200;
+
+/**
+ * 一台服务器上的全部文件监视：优先在服务器上运行 inotifywait，通过一个通道接收事件；
+ * 服务器没有 inotifywait 或监视失败时，改为定时在共享 SFTP 会话上批量列出目录并比较。
+ * 有监视请求时持有共享连接的引用，避免连接因空闲超时断开；连接断开后不主动重连，
+ * 其他使用者重新建立连接时再恢复监视
+ */
+export class RemoteWatcher implements vscode.Disposable {
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+    private requests = new Set<RemoteWatchRequest>();
+    private mode: 'inotify' | 'poll' = 'inotify';
+    private channel?: ClientChannel;
+    private generation = 0; // 每次启动或停止 inotifywait 时递增，忽略过期通道的输出
+    private restartTimer?: NodeJS.Timeout;
+    private pollTimer?: NodeJS.Timeout;
+    private polling = false;
+    private truncationLogged = false;
+    private snapshots = new Map<RemoteWatchRequest, Map<string, EntrySnapshot>>();
+    private connectionListener: vscode.Disposable;
+    private client?: Client; // 监视期间持有的共享连接引用
+    private acquiring = false;
+    private connectionLost = false;
+
+    constructor(
+        private connectionString: string,
+        private onChanges: (changes: RemoteChange[]) => void,
+        private logChannel: vscode.OutputChannel
+    ) {
+        // 连接（重新）建立后重新持有引用并启动 inotifywait；连接断开时通道随之关闭
+        this.connectionListener = this.connectionPool.onDidChangeConnection(event => {
+            if (event.connectionString !== connectionString) return;
+            if (event.type === 'ready') {
+                if (this.connectionLost && this.requests.size > 0) {
+                    this.logChannel.appendLine(`[INFO] 连接已恢复，重新启动文件监视: ${connectionString}`);
+                }
+                this.connectionLost = false;
+                this.holdConnection();
+                this.scheduleRestart();
+            } else if (event.type === 'lost' || event.type === 'idle' || event.type === 'closed') {
+                // 连接已从连接池移除，原有引用随之失效
+                if (this.client && this.requests.size > 0) {
+                    this.connectionLost = true;
+                    this.logChannel.appendLine(`[INFO] 连接已断开，文件监视暂停，重新连接后恢复: ${connectionString}`);
+                }
+                this.client = undefined;
+            }
+        });
+    }
+
+    public isEmpty(): boolean {
+        return this.requests.size === 0;
+    }
+
+    public add(request: RemoteWatchRequest): vscode.Disposable {
+        this.requests.add(request);
+        this.holdConnection();
+        this.scheduleRestart();
+        return new vscode.Disposable(() => {
+            if (!this.requests.delete(request)) return;
+            this.snapshots.delete(request);
+            if (this.requests.size === 0) this.releaseConnection();
+            this.scheduleRestart();
+        });
+    }
+
+    public dispose(): void {
+        this.requests.clear();
+        this.snapshots.clear();
+        this.connectionListener.dispose();
+        if (this.restartTimer) clearTimeout(this.restartTimer);
+        if (this.pollTimer) clearInterval(this.pollTimer);
+        this.restartTimer = undefined;
+        this.pollTimer = undefined;
+        this.stopInotify();
+        this.releaseConnection();
+    }
+
+    /**
+     * 有监视请求时持有共享连接的引用，连接尚未建立时同时建立连接
+     */
+    private holdConnection(): void {
+        if (this.client || this.acquiring || this.requests.size === 0) return;
+        this.acquiring = true;
+        this.connectionPool.acquire(this.connectionString).then(client => {
+            this.acquiring = false;
+            // 等待连接期间监视已全部移除
+            if (this.requests.size === 0) {
+                this.connectionPool.release(this.connectionString, client);
+                return;
+            }
+            this.client = client;
+        }, err => {
+            this.acquiring = false;
+            this.logChannel.appendLine(`[WARN] 无法连接服务器，暂不监视文件: ${this.connectionString}, ${err instanceof Error ? err.message : String(err)}`);
+        });
+    }
+
+    private releaseConnection(): void {
+        if (!this.client) return;
+        this.connectionPool.release(this.connectionString, this.client);
+        this.client = undefined;
+    }
+
+    private scheduleRestart(): void {
+        if (this.mode !== 'inotify') return;
+        if (this.restartTimer) clearTimeout(this.restartTimer);
+        this.restartTimer = setTimeout(() => {
+            this.restartTimer = undefined;
+            this.startInotify();
+        }, RESTART_DELAY);
+    }
+
+    private startInotify(): void {
+        this.stopInotify();
+        if (this.requests.size === 0 || !this.connectionPool.isConnected(this.connectionString)) return;
+
+        const generation = this.generation;
+        const requests = Array.from(this.requests);
+        this.connectionPool.withClient(this.connectionString, client => new Promise<ClientChannel>((resolve, reject) => {
+            client.exec(buildInotifyCommand(requests), (err, stream) => err ? reject(err) : resolve(stream));
+        })).then(stream => {
+            if (generation !== this.generation) {
+                stream.end();
+                return;
+            }
+            this.attach(stream, requests);
+        }, err => {
+            if (generation !== this.generation) return;
+            this.fallBackToPolling(`无法启动 inotifywait: ${err instanceof Error ? err.message : String(err)}`);
+        });
+    }
+
+    private attach(stream: ClientChannel, requests: RemoteWatchRequest[]): void {
+        this.channel = stream;
+        const decoder = new StringDecoder('utf8');
+        let buffer = '';
+        let stderr = '';
+
+        stream.on('data', (chunk: Buffer) => {
+            if (this.channel !== stream) return;
+            buffer += decoder.write(chunk);
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            const changes: RemoteChange[] = [];
+            for (const line of lines) {
+                if (line === '!missing') {
+                    this.fallBackToPolling('服务器上没有 inotifywait');
+                    return;
+                }
+                // 监视的路径都被删除时 inotifywait 正常退出，其他退出码表示监视失败（如超出 inotify 监视数量上限）
+                const exit = /^!exit (\d+)$/.exec(line);
+                if (exit) {
+                    if (exit[1] !== '0') {
+                        this.fallBackToPolling(`inotifywait 退出，代码 ${exit[1]}${stderr.trim() ? `: ${stderr.trim()}` : ''}`);
+                        return;
+                    }
+                    continue;
+                }
+                const change = parseInotifyLine(line);
+                if (change && requests.some(request => isWatchedBy(request, change.path))) changes.push(change);
+            }
+            if (changes.length > 0) this.onChanges(changes);
+        });
+        stream.stderr.on('data', (chunk: Buffer) => {
+            stderr += chunk.toString();
+        });
+        stream.on('close', () => {
+            if (this.channel === stream) this.channel = undefined;
+        });
+    }
+
+    private stopInotify(): void {
+        this.generation++;
+        const channel = this.channel;
+        this.channel = undefined;
+        // 关闭标准输入后，服务器上的脚本结束全部 inotifywait 进程
+        channel?.end();
+    }
+
+    private fallBackToPolling(reason: string): void {
+        if (this.mode === 'poll') return;
+        this.logChannel.appendLine(`[INFO] ${reason}，改为轮询监视文件: ${this.connectionString}`);
+        this.mode = 'poll';
+        this.stopInotify();
+        this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL);
+        this.poll();
+    }
+
+    /**
+     * 在同一个 SFTP 会话上并行列出所有监视的路径，与上一次的结果比较
+     */
+    private async poll(): Promise<void> {
+        if (this.polling || this.requests.size === 0 || !this.connectionPool.isConnected(this.connectionString)) return;
+        this.polling = true;
+        try {
+            const requests = Array.from(this.requests);
+            const results = await this.connectionPool.withSftp(this.connectionString, sftp => Promise.all(requests.map(request => this.scan(sftp, request))));
+            const changes: RemoteChange[] = [];
+            requests.forEach((request, i) => {
+                if (!this.requests.has(request)) return;
+                changes.push(...diffSnapshots(this.snapshots.get(request), results[i]));
+                this.snapshots.set(request, results[i]);
+            });
+            if (changes.length > 0) this.onChanges(changes);
+        } catch (err) {
+            this.logChannel.appendLine(`[WARN] 轮询文件变化失败: ${this.connectionString}, ${err instanceof Error ? err.message : String(err)}`);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private async scan(sftp: SFTPWrapper, request: RemoteWatchRequest): Promise<Map<string, EntrySnapshot>> {
+        const entries = new Map<string, EntrySnapshot>();
+        const root = await new Promise<Stats | undefined>(resolve => sftp.stat(request.path, (err, stats) => resolve(err ? undefined : stats)));
+        if (!root) return entries;
+        entries.set(request.path, this.toSnapshot(root));
+        if (!root.isDirectory()) return entries;
+
+        const accept = createGlobFilter([], request.excludes);
+        let directories = [request.path];
+        while (directories.length > 0) {
+            const listings = await Promise.all(directories.map(directory => new Promise<[string, FileEntryWithStats[]]>(resolve => {
+                sftp.readdir(directory, (err, list) => resolve([directory, err ? [] : list]));
+            })));
+            directories = [];
+            for (const [directory, list] of listings) {
+                for (const file of list) {
+                    const childPath = joinRemotePath(directory, file.filename);
+                    if (!accept(path.posix.relative(request.path, childPath))) continue;
+                    if (entries.size >= MAX_POLLED_ENTRIES) {
+                        if (!this.truncationLogged) {
+                            this.truncationLogged = true;
+                            this.logChannel.appendLine(`[WARN] ${request.path} 下的文件超过 ${MAX_POLLED_ENTRIES} 个，只轮询其中一部分: ${this.connectionString}`);
+                        }
+                        return entries;
+                    }
+                    entries.set(childPath, this.toSnapshot(file.attrs));
+                    // 不进入符号链接指向的目录，避免循环
+                    if (request.recursive && file.attrs.isDirectory()) directories.push(childPath);
+                }
+            }
+        }
+        return entries;
+    }
+
+    private toSnapshot(stats: Stats): EntrySnapshot {
+        return { isDirectory: stats.isDirectory(), mtime: stats.mtime, size: stats.size };
+    }
+}
@@ -0,0 +1,204 @@
+import { ServerDetails } from './sshConfigHandler';
+import { appendHostBlock, formatProxyJump } from './sshConfigWriter';
+
+/**
+ * 支持的导出格式
+ */
+export type ExportFormat = 'sshConfig' | 'ansibleIni' | 'ansibleYaml' | 'csv';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; fileName: string }> = {
+    sshConfig: { label: 'SSH 配置片段', fileName: 'servers.conf' },
+    ansibleIni: { label: 'Ansible inventory (INI)', fileName: 'hosts.ini' },
+    ansibleYaml: { label: 'Ansible inventory (YAML)', fileName: 'hosts.yml' },
+    csv: { label: 'CSV', fileName: 'servers.csv' }
+};
+
+/**
+ * 导出的服务器，分组路径用 / 表示嵌套
+ */
+export interface ExportedServer extends ServerDetails {
+    group?: string;
+    tags?: string[];
+}
+
+// Ansible 的连接变量，按此顺序输出
+type AnsibleVars = Array<[string, string]>;
+
+interface AnsibleGroup {
+    name: string;
+    hosts: Array<{ name: string; vars: AnsibleVars }>;
+    vars: AnsibleVars;   // 组内全部主机相同的连接变量
+    children: string[];  // 子分组的 Ansible 组名
+    topLevel: boolean;   // 是否直接属于 all
+}
+
+export function formatExport(format: ExportFormat, servers: ExportedServer[]): string {
+    switch (format) {
+        case 'sshConfig': return formatSshConfigFragment(servers);
+        case 'ansibleIni': return formatAnsibleIni(servers);
+        case 'ansibleYaml': return formatAnsibleYaml(servers);
+        case 'csv': return formatCsv(servers);
+    }
+}
+
+/**
+ * 导出为 ssh 配置片段，可通过 Include 引入或直接追加到 ~/.ssh/config
+ */
+export function formatSshConfigFragment(servers: ExportedServer[]): string {
+    return servers.reduce((content, server) => appendHostBlock(content, server), '# Exported by Starsfall\n');
+}
+
+/**
+ * 导出为 Ansible INI inventory：嵌套分组写成 [group:children]，组内共同的连接变量写入 [group:vars]
+ */
+export function formatAnsibleIni(servers: ExportedServer[]): string {
+    const sections: string[] = [];
+    for (const group of buildAnsibleGroups(servers)) {
+        if (group.hosts.length > 0) {
+            sections.push([`[${group.name}]`, ...group.hosts.map(host => [host.name, ...host.vars.map(([key, value]) => `${key}=${quoteIniValue(value)}`)].join(' '))].join('\n'));
+        }
+        if (group.children.length > 0) {
+            sections.push([`[${group.name}:children]`, ...group.children].join('\n'));
+        }
+        if (group.vars.length > 0) {
+            sections.push([`[${group.name}:vars]`, ...group.vars.map(([key, value]) => `${key}=${quoteIniValue(value)}`)].join('\n'));
+        }
+    }
+    return sections.join('\n\n') + '\n';
+}
+
+/**
+ * 导出为 Ansible YAML inventory，结构与 INI 相同
+ */
+export function formatAnsibleYaml(servers: ExportedServer[]): string {
+    const groups = new Map(buildAnsibleGroups(servers).map(group => [group.name, group]));
+    const lines: string[] = ['all:'];
+
+    const writeGroup = (group: AnsibleGroup, indent: string) => {
+        if (group.hosts.length > 0) {
+            lines.push(`${indent}hosts:`);
+            for (const host of group.hosts) {
+                lines.push(`${indent}  ${quoteYamlValue(host.name)}:${host.vars.length === 0 ? ' {}' : ''}`);
+                host.vars.forEach(([key, value]) => lines.push(`${indent}    ${key}: ${formatYamlScalar(key, value)}`));
+            }
+        }
+        if (group.vars.length > 0) {
+            lines.push(`${indent}vars:`);
+            group.vars.forEach(([key, value]) => lines.push(`${indent}  ${key}: ${formatYamlScalar(key, value)}`));
+        }
+        if (group.children.length > 0) {
+            lines.push(`${indent}children:`);
+            for (const child of group.children) {
+                lines.push(`${indent}  ${child}:`);
+                writeGroup(groups.get(child)!, `${indent}    `);
+            }
+        }
+    };
+
+    // 顶层分组挂在 all 下，未分组的主机直接写在 all 的 hosts 中
+    const topLevel = Array.from(groups.values()).filter(group => group.topLevel && group.name !== 'ungrouped');
+    const ungrouped = groups.get('ungrouped');
+    writeGroup({
+        name: 'all',
+        hosts: ungrouped ? ungrouped.hosts : [],
+        vars: [],
+        children: topLevel.map(group => group.name),
+        topLevel: false
+    }, '  ');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * 导出为 CSV，列与导入命令识别的表头一致
+ */
+export function formatCsv(servers: ExportedServer[]): string {
+    const rows = [['Name', 'Host', 'Port', 'Username', 'Private Key', 'ProxyJump', 'Group', 'Tags']];
+    for (const server of servers) {
+        rows.push([
+            server.name,
+            server.host,
+            String(server.port),
+            server.username,
+            server.privateKeyPath || '',
+            formatProxyJump(server.jumpHosts),
+            server.group || '',
+            (server.tags || []).join(',')
+        ]);
+    }
+    return rows.map(row => row.map(quoteCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * 将分组路径转换为 Ansible 组：prod/eu 成为 prod 的子组 prod__eu，未分组的主机放入 ungrouped
+ */
+function buildAnsibleGroups(servers: ExportedServer[]): AnsibleGroup[] {
+    const groups = new Map<string, AnsibleGroup>();
+    const ensureGroup = (path: string[]): AnsibleGroup => {
+        const name = path.length > 0 ? path.map(toAnsibleName).join('__') : 'ungrouped';
+        let group = groups.get(name);
+        if (!group) {
+            group = { name, hosts: [], vars: [], children: [], topLevel: path.length <= 1 };
+            groups.set(name, group);
+            if (path.length > 1) {
+                const parent = ensureGroup(path.slice(0, -1));
+                if (!parent.children.includes(name)) parent.children.push(name);
+            }
+        }
+        return group;
+    };
+
+    for (const server of servers) {
+        const path = (server.group || '').split('/').map(part => part.trim()).filter(Boolean);
+        ensureGroup(path).hosts.push({ name: toAnsibleHostName(server.name), vars: hostVars(server) });
+    }
+
+    // 组内多台主机的相同变量提升为组变量
+    for (const group of groups.values()) {
+        if (group.hosts.length < 2 || group.name === 'ungrouped') continue;
+        const [first, ...rest] = group.hosts;
+        group.vars = first.vars.filter(([key, value]) => key !== 'ansible_host'
+            && rest.every(host => host.vars.some(([otherKey, otherValue]) => otherKey === key && otherValue === value)));
+        const shared = new Set(group.vars.map(([key]) => key));
+        group.hosts.forEach(host => host.vars = host.vars.filter(([key]) => !shared.has(key)));
+    }
+    return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function hostVars(server: ExportedServer): AnsibleVars {
+    const vars: AnsibleVars = [];
+    if (server.host !== server.name) vars.push(['ansible_host', server.host]);
+    if (server.port !== 22) vars.push(['ansible_port', String(server.port)]);
+    vars.push(['ansible_user', server.username]);
+    if (server.privateKeyPath) vars.push(['ansible_ssh_private_key_file', server.privateKeyPath]);
+    const proxyJump = formatProxyJump(server.jumpHosts);
+    if (proxyJump) vars.push(['ansible_ssh_common_args', `-o ProxyJump=${proxyJump}`]);
+    return vars;
+}
+
+// Ansible 组名只能包含字母、数字和下划线
+function toAnsibleName(name: string): string {
+    return name.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^(\d)/, '_$1') || 'group';
+}
+
+function toAnsibleHostName(name: string): string {
+    return name.replace(/\s+/g, '-');
+}
+
+function quoteIniValue(value: string): string {
+    return /[\s'"#;=]/.test(value) ? `'${value.replace(/'/g, "\\'")}'` : value;
+}
+
+function formatYamlScalar(key: string, value: string): string {
+    return key === 'ansible_port' ? value : quoteYamlValue(value);
+}
+
+// 会被 YAML 解析为其他类型或含特殊字符的值加引号
+function quoteYamlValue(value: string): string {
+    const plain = /^[A-Za-z0-9_./~@+-][A-Za-z0-9_./~@+:=-]*$/.test(value)
+        && !/^(true|false|yes|no|on|off|null|~|[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?)$/i.test(value);
+    return plain ? value : `'${value.replace(/'/g, "''")}'`;
+}
+
+function quoteCsvValue(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
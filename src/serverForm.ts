@@ -0,0 +1,128 @@
+import { ServerDetails } from './sshConfigHandler';
+import { formatProxyJump } from './sshConfigWriter';
+import { parseJumpHosts } from './workspaceServers';
+
+/**
+ * 连接表单中的认证方式
+ */
+export type AuthMethod = 'key' | 'password' | 'agent';
+
+/**
+ * 连接表单的字段值，与 webview 中的输入框一一对应
+ */
+export interface ServerFormValues {
+    name: string;
+    host: string;
+    port: string;
+    username: string;
+    authMethod: AuthMethod;
+    privateKeyPath: string;
+    password: string;
+    jumpHost: string; // ProxyJump 写法，可引用 ssh 配置中的服务器名
+}
+
+export type ServerFormErrors = Partial<Record<keyof ServerFormValues, string>>;
+
+export interface ServerFormValidationOptions {
+    existingNames: string[];                 // ssh 配置中已有的 Host 别名
+    originalName?: string;                   // 编辑时的原名称，不视为重名
+    fileExists?: (file: string) => boolean;  // 检查私钥文件是否存在
+}
+
+const HOST_PATTERN = /^(?:[A-Za-z0-9](?:[A-Za-z0-9_-]*[A-Za-z0-9])?)(?:\.[A-Za-z0-9](?:[A-Za-z0-9_-]*[A-Za-z0-9])?)*\.?$/;
+const IPV6_PATTERN = /^\[?[0-9A-Fa-f:.]*:[0-9A-Fa-f:.]*(%\w+)?\]?$/;
+const JUMP_HOP_PATTERN = /^(?:[^@\s,]+@)?(?:\[[^\]]+\]|[^:\s,]+)(?::\d+)?$/;
+
+/**
+ * 由已有服务器得到表单初始值；新建服务器时使用默认值
+ */
+export function toFormValues(details?: ServerDetails): ServerFormValues {
+    return {
+        name: details?.name || '',
+        host: details?.host || '',
+        port: String(details?.port || 22),
+        username: details?.username || 'root',
+        authMethod: details?.privateKeyPath ? 'key' : details?.password ? 'password' : details ? 'agent' : 'key',
+        privateKeyPath: details?.privateKeyPath || '',
+        password: '',
+        jumpHost: formatProxyJump(details?.jumpHosts)
+    };
+}
+
+/**
+ * 校验表单，返回各字段的错误信息；没有错误时返回空对象
+ */
+export function validateServerForm(values: ServerFormValues, options: ServerFormValidationOptions): ServerFormErrors {
+    const errors: ServerFormErrors = {};
+    const name = values.name.trim();
+    if (!name) {
+        errors.name = '请输入服务器名称';
+    } else if (/\s/.test(name)) {
+        errors.name = '名称不能包含空白（将作为 ssh 配置的 Host 别名）';
+    } else if (name !== options.originalName && options.existingNames.includes(name)) {
+        errors.name = `ssh 配置中已有名为 ${name} 的服务器`;
+    }
+
+    const host = values.host.trim();
+    if (!host) {
+        errors.host = '请输入服务器地址';
+    } else if (!HOST_PATTERN.test(host) && !IPV6_PATTERN.test(host)) {
+        errors.host = '无效的主机名或 IP 地址';
+    }
+
+    const port = values.port.trim();
+    if (!/^\d+$/.test(port) || Number(port) < 1 || Number(port) > 65535) {
+        errors.port = '端口应为 1-65535 的整数';
+    }
+
+    const username = values.username.trim();
+    if (!username) {
+        errors.username = '请输入用户名';
+    } else if (/[\s:]/.test(username)) {
+        errors.username = '用户名不能包含空白或冒号';
+    }
+
+    if (values.authMethod === 'key') {
+        const keyPath = values.privateKeyPath.trim();
+        if (!keyPath) {
+            errors.privateKeyPath = '请选择私钥文件';
+        } else if (options.fileExists && !options.fileExists(keyPath)) {
+            errors.privateKeyPath = '私钥文件不存在';
+        }
+    }
+
+    const jumpHost = values.jumpHost.trim();
+    if (jumpHost) {
+        const hops = jumpHost.split(',').map(hop => hop.trim());
+        if (hops.some(hop => !JUMP_HOP_PATTERN.test(hop))) {
+            errors.jumpHost = '格式应为 [用户@]主机[:端口]，多个跳板机用逗号分隔';
+        } else if (hops.includes(name)) {
+            errors.jumpHost = '跳板机不能是服务器自身';
+        }
+    }
+    return errors;
+}
+
+/**
+ * 由表单值得到 ServerDetails（调用前应已通过校验）
+ * @param knownServers ssh 配置中的服务器，跳板机可直接引用其名称
+ */
+export function fromFormValues(values: ServerFormValues, knownServers: ServerDetails[]): ServerDetails {
+    const username = values.username.trim();
+    const details: ServerDetails = {
+        name: values.name.trim(),
+        host: values.host.trim().replace(/^\[|\]$/g, ''),
+        port: Number(values.port.trim()),
+        username
+    };
+    if (values.authMethod === 'key') {
+        details.privateKeyPath = values.privateKeyPath.trim();
+    } else if (values.authMethod === 'password' && values.password) {
+        details.password = values.password;
+    }
+    const jumpHost = values.jumpHost.trim();
+    if (jumpHost) {
+        details.jumpHosts = parseJumpHosts(jumpHost, username, knownServers.filter(server => server.name !== details.name));
+    }
+    return details;
+}
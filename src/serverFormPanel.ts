@@ -0,0 +1,317 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConnectionPool } from './connectionPool';
+import { fromFormValues, ServerFormErrors, ServerFormValues, toFormValues, validateServerForm } from './serverForm';
+import { ServerDetails } from './sshConfigHandler';
+
+export interface ServerFormOptions {
+    title: string;
+    initial?: ServerDetails;        // 编辑时的原有配置
+    knownServers: ServerDetails[];  // ssh 配置中的服务器，用于重名检查和跳板机选择
+}
+
+// webview 发给扩展的消息
+type FormMessage =
+    | { type: 'change'; values: ServerFormValues }
+    | { type: 'browseKey' }
+    | { type: 'test'; values: ServerFormValues }
+    | { type: 'submit'; values: ServerFormValues }
+    | { type: 'cancel' };
+
+/**
+ * 新增和编辑服务器共用的连接表单：输入时即时校验，支持选择认证方式、浏览私钥、跳板机和测试连接
+ */
+export class ServerFormPanel {
+    /**
+     * 打开连接表单
+     * @returns 用户保存的服务器配置；关闭或取消时返回 undefined
+     */
+    public static show(options: ServerFormOptions): Promise<ServerDetails | undefined> {
+        return new Promise(resolve => new ServerFormPanel(options, resolve));
+    }
+
+    private panel: vscode.WebviewPanel;
+    private settled = false;
+
+    private constructor(private options: ServerFormOptions, private resolve: (details: ServerDetails | undefined) => void) {
+        this.panel = vscode.window.createWebviewPanel('starsfallServerForm', options.title, vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        });
+        this.panel.webview.html = this.getHtml(toFormValues(options.initial));
+        this.panel.webview.onDidReceiveMessage((message: FormMessage) => this.handleMessage(message));
+        this.panel.onDidDispose(() => this.finish(undefined));
+    }
+
+    private async handleMessage(message: FormMessage): Promise<void> {
+        switch (message.type) {
+            case 'change':
+                this.post({ type: 'errors', errors: this.validate(message.values) });
+                break;
+            case 'browseKey': {
+                const uris = await vscode.window.showOpenDialog({
+                    canSelectFiles: true,
+                    canSelectFolders: false,
+                    canSelectMany: false,
+                    defaultUri: vscode.Uri.file(path.join(os.homedir(), '.ssh')),
+                    openLabel: '选择私钥文件'
+                });
+                if (uris?.[0]) {
+                    this.post({ type: 'keySelected', path: uris[0].fsPath });
+                }
+                break;
+            }
+            case 'test':
+                await this.testConnection(message.values);
+                break;
+            case 'submit': {
+                const errors = this.validate(message.values);
+                if (Object.keys(errors).length > 0) {
+                    this.post({ type: 'errors', errors });
+                    return;
+                }
+                this.finish(fromFormValues(message.values, this.options.knownServers));
+                this.panel.dispose();
+                break;
+            }
+            case 'cancel':
+                this.panel.dispose();
+                break;
+        }
+    }
+
+    private validate(values: ServerFormValues): ServerFormErrors {
+        return validateServerForm(values, {
+            existingNames: this.options.knownServers.map(server => server.name),
+            originalName: this.options.initial?.name,
+            fileExists: file => fs.existsSync(file.startsWith('~/') ? path.join(os.homedir(), file.substring(2)) : file)
+        });
+    }
+
+    private async testConnection(values: ServerFormValues): Promise<void> {
+        const errors = this.validate(values);
+        // 测试连接不要求名称有效
+        delete errors.name;
+        if (Object.keys(errors).length > 0) {
+            this.post({ type: 'errors', errors });
+            this.post({ type: 'testResult', ok: false, message: '请先修正表单中的错误' });
+            return;
+        }
+
+        const details = fromFormValues({ ...values, name: values.name.trim() || values.host.trim() }, this.options.knownServers);
+        this.post({ type: 'testResult', pending: true, message: `正在连接 ${details.username}@${details.host}:${details.port}…` });
+        try {
+            const elapsed = await ConnectionPool.getInstance().testConnection(details);
+            this.post({ type: 'testResult', ok: true, message: `连接成功（${elapsed} ms）` });
+        } catch (error) {
+            this.post({ type: 'testResult', ok: false, message: `连接失败: ${error instanceof Error ? error.message : String(error)}` });
+        }
+    }
+
+    private post(message: Record<string, unknown>): void {
+        this.panel.webview.postMessage(message);
+    }
+
+    private finish(details: ServerDetails | undefined): void {
+        if (this.settled) return;
+        this.settled = true;
+        this.resolve(details);
+    }
+
+    private getHtml(values: ServerFormValues): string {
+        const nonce = createNonce();
+        const state = {
+            values,
+            jumpHosts: this.options.knownServers
+                .filter(server => server.name !== this.options.initial?.name)
+                .map(server => ({ name: server.name, description: `${server.username}@${server.host}:${server.port}` })),
+            submitLabel: this.options.initial ? '保存' : '添加'
+        };
+        // 嵌入 <script> 时转义 <，避免值中的 </script> 提前结束脚本
+        const stateJson = JSON.stringify(state).replace(/</g, '\\u003c');
+
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 16px 24px; max-width: 560px; }
+    .field { margin-bottom: 14px; }
+    .row { display: flex; gap: 12px; }
+    .row .field { flex: 1; }
+    .row .field.port { flex: 0 0 110px; }
+    label { display: block; margin-bottom: 4px; }
+    input[type=text], input[type=password] { box-sizing: border-box; width: 100%; padding: 4px 6px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+    input:focus { outline: 1px solid var(--vscode-focusBorder); }
+    input.invalid { border-color: var(--vscode-inputValidation-errorBorder); }
+    .error { color: var(--vscode-errorForeground); font-size: 0.9em; margin-top: 3px; min-height: 1em; }
+    .hint { color: var(--vscode-descriptionForeground); font-size: 0.9em; margin-top: 3px; }
+    .auth label { display: inline-flex; align-items: center; gap: 4px; margin-right: 16px; }
+    .auth label:first-child { display: block; }
+    .with-button { display: flex; gap: 6px; }
+    button { padding: 4px 12px; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    button.secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    .actions { display: flex; gap: 8px; margin-top: 20px; }
+    #testResult { margin-top: 12px; }
+    #testResult.ok { color: var(--vscode-testing-iconPassed, var(--vscode-foreground)); }
+    #testResult.failed { color: var(--vscode-errorForeground); }
+    [hidden] { display: none !important; }
+</style>
+</head>
+<body>
+<form id="form" novalidate>
+    <div class="field">
+        <label for="name">名称</label>
+        <input type="text" id="name" placeholder="例如: my-server" autofocus>
+        <div class="error" data-for="name"></div>
+    </div>
+    <div class="row">
+        <div class="field">
+            <label for="host">地址</label>
+            <input type="text" id="host" placeholder="例如: 192.168.1.1">
+            <div class="error" data-for="host"></div>
+        </div>
+        <div class="field port">
+            <label for="port">端口</label>
+            <input type="text" id="port" inputmode="numeric">
+            <div class="error" data-for="port"></div>
+        </div>
+    </div>
+    <div class="field">
+        <label for="username">用户名</label>
+        <input type="text" id="username">
+        <div class="error" data-for="username"></div>
+    </div>
+    <div class="field auth">
+        <label>认证方式</label>
+        <label><input type="radio" name="authMethod" value="key"> 私钥</label>
+        <label><input type="radio" name="authMethod" value="password"> 密码</label>
+        <label><input type="radio" name="authMethod" value="agent"> ssh-agent</label>
+    </div>
+    <div class="field" id="keyField">
+        <label for="privateKeyPath">私钥文件</label>
+        <div class="with-button">
+            <input type="text" id="privateKeyPath" placeholder="~/.ssh/id_ed25519">
+            <button type="button" class="secondary" id="browseKey">浏览…</button>
+        </div>
+        <div class="error" data-for="privateKeyPath"></div>
+    </div>
+    <div class="field" id="passwordField">
+        <label for="password">密码</label>
+        <input type="password" id="password" placeholder="留空则连接时询问">
+        <div class="hint">密码只在本次会话中使用，不会写入 ssh 配置</div>
+    </div>
+    <div class="field">
+        <label for="jumpHost">跳板机</label>
+        <input type="text" id="jumpHost" list="jumpHosts" placeholder="无">
+        <datalist id="jumpHosts"></datalist>
+        <div class="hint">选择 ssh 配置中的服务器，或输入 [用户@]主机[:端口]，多个跳板机用逗号分隔</div>
+        <div class="error" data-for="jumpHost"></div>
+    </div>
+    <div class="actions">
+        <button type="submit" id="submit"></button>
+        <button type="button" class="secondary" id="test">测试连接</button>
+        <button type="button" class="secondary" id="cancel">取消</button>
+    </div>
+    <div id="testResult"></div>
+</form>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const state = ${stateJson};
+    const fields = ['name', 'host', 'port', 'username', 'privateKeyPath', 'password', 'jumpHost'];
+    const form = document.getElementById('form');
+    // 用户修改过的字段才显示错误，避免新建时一打开就满屏报错
+    const touched = new Set(state.values.name ? fields : []);
+
+    fields.forEach(field => document.getElementById(field).value = state.values[field]);
+    document.querySelector('input[name=authMethod][value=' + state.values.authMethod + ']').checked = true;
+    document.getElementById('submit').textContent = state.submitLabel;
+    const datalist = document.getElementById('jumpHosts');
+    state.jumpHosts.forEach(host => {
+        const option = document.createElement('option');
+        option.value = host.name;
+        option.label = host.description;
+        datalist.appendChild(option);
+    });
+
+    function getValues() {
+        const values = {};
+        fields.forEach(field => values[field] = document.getElementById(field).value);
+        values.authMethod = document.querySelector('input[name=authMethod]:checked').value;
+        return values;
+    }
+
+    function updateAuthFields() {
+        const method = document.querySelector('input[name=authMethod]:checked').value;
+        document.getElementById('keyField').hidden = method !== 'key';
+        document.getElementById('passwordField').hidden = method !== 'password';
+    }
+
+    function showErrors(errors) {
+        fields.forEach(field => {
+            const message = touched.has(field) ? errors[field] || '' : '';
+            const element = document.querySelector('.error[data-for=' + field + ']');
+            if (element) element.textContent = message;
+            document.getElementById(field).classList.toggle('invalid', !!message);
+        });
+    }
+
+    function validate() {
+        vscode.postMessage({ type: 'change', values: getValues() });
+    }
+
+    form.addEventListener('input', event => {
+        if (event.target.id) touched.add(event.target.id);
+        updateAuthFields();
+        validate();
+    });
+    form.addEventListener('submit', event => {
+        event.preventDefault();
+        fields.forEach(field => touched.add(field));
+        vscode.postMessage({ type: 'submit', values: getValues() });
+    });
+    document.getElementById('browseKey').addEventListener('click', () => vscode.postMessage({ type: 'browseKey' }));
+    document.getElementById('test').addEventListener('click', () => vscode.postMessage({ type: 'test', values: getValues() }));
+    document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+    document.addEventListener('keydown', event => {
+        if (event.key === 'Escape') vscode.postMessage({ type: 'cancel' });
+    });
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'errors') {
+            showErrors(message.errors);
+        } else if (message.type === 'keySelected') {
+            document.getElementById('privateKeyPath').value = message.path;
+            touched.add('privateKeyPath');
+            validate();
+        } else if (message.type === 'testResult') {
+            const result = document.getElementById('testResult');
+            result.textContent = message.message;
+            result.className = message.pending ? '' : (message.ok ? 'ok' : 'failed');
+            document.getElementById('test').disabled = !!message.pending;
+        }
+    });
+
+    updateAuthFields();
+    validate();
+</script>
+</body>
+</html>`;
+    }
+}
+
+function createNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
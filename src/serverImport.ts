@@ -0,0 +1,342 @@
+import { TextDecoder } from 'util';
+import { ServerDetails } from './sshConfigHandler';
+
+/**
+ * 支持导入的其他客户端导出格式
+ */
+export type ImportFormat = 'putty' | 'mobaxterm' | 'filezilla' | 'termius';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+    putty: 'PuTTY 会话 (.reg)',
+    mobaxterm: 'MobaXterm 会话 (.mxtsessions)',
+    filezilla: 'FileZilla 站点管理器 (sitemanager.xml)',
+    termius: 'Termius 导出 (.csv)'
+};
+
+/**
+ * 导入的服务器，保留原客户端中的分组和标签；密码不会导入
+ */
+export interface ImportedServer extends ServerDetails {
+    group?: string;
+    tags?: string[];
+}
+
+export interface ImportResult {
+    servers: ImportedServer[];
+    warnings: string[]; // 跳过的会话及原因
+}
+
+// MobaXterm 书签中 SSH 会话的类型编号
+const MOBAXTERM_SSH_TYPE = '109';
+// FileZilla 中 SFTP 协议的编号
+const FILEZILLA_SFTP_PROTOCOL = '1';
+
+/**
+ * 按 BOM 解码导出文件：regedit 导出的 .reg 文件为 UTF-16LE
+ */
+export function decodeImportFile(buffer: Buffer): string {
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+        return buffer.subarray(2).toString('utf16le');
+    }
+    if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+        return buffer.subarray(3).toString('utf8');
+    }
+    return buffer.toString('utf8');
+}
+
+/**
+ * 根据文件名和内容判断导出格式，无法判断时返回 undefined
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFormat | undefined {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('.reg') || /\\SimonTatham\\PuTTY\\Sessions\\/i.test(content)) return 'putty';
+    if (lower.endsWith('.mxtsessions') || /^\[Bookmarks(_\d+)?\]/m.test(content)) return 'mobaxterm';
+    if (lower.endsWith('.xml') || /<FileZilla3\b/.test(content)) return 'filezilla';
+    if (lower.endsWith('.csv')) return 'termius';
+    return undefined;
+}
+
+export function parseImportFile(format: ImportFormat, content: string): ImportResult {
+    const result = format === 'putty' ? parsePuttyRegistry(content)
+        : format === 'mobaxterm' ? parseMobaXtermSessions(content)
+        : format === 'filezilla' ? parseFileZillaSites(content)
+        : parseTermiusCsv(content);
+    return { servers: uniqueNames(result.servers), warnings: result.warnings };
+}
+
+/**
+ * 解析 regedit 导出的 PuTTY 会话（HKCU\Software\SimonTatham\PuTTY\Sessions）
+ */
+export function parsePuttyRegistry(content: string): ImportResult {
+    const servers: ImportedServer[] = [];
+    const warnings: string[] = [];
+    let session: { name: string; values: Record<string, string> } | undefined;
+
+    const flush = () => {
+        if (!session) return;
+        const { name, values } = session;
+        const protocol = values.Protocol || 'ssh';
+        if (!values.HostName) {
+            // Default Settings 等模板会话没有主机名
+            if (name !== 'Default Settings') warnings.push(`${name}: 未设置主机名`);
+        } else if (protocol !== 'ssh') {
+            warnings.push(`${name}: 不支持 ${protocol} 协议`);
+        } else {
+            // HostName 可以写成 user@host
+            const at = values.HostName.lastIndexOf('@');
+            const hostUser = at >= 0 ? values.HostName.substring(0, at) : undefined;
+            servers.push({
+                name: toHostAlias(name),
+                host: at >= 0 ? values.HostName.substring(at + 1) : values.HostName,
+                port: parseInt(values.PortNumber, 10) || 22,
+                username: values.UserName || hostUser || 'root',
+                privateKeyPath: values.PublicKeyFile || undefined
+            });
+        }
+        session = undefined;
+    };
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        const section = /^\[(.*)\]$/.exec(line);
+        if (section) {
+            flush();
+            const match = /\\SimonTatham\\PuTTY\\Sessions\\([^\\]+)$/i.exec(section[1]);
+            if (match) {
+                session = { name: decodePuttySessionName(match[1]), values: {} };
+            }
+            continue;
+        }
+        const value = /^"([^"]+)"=(?:"((?:[^"\\]|\\.)*)"|dword:([0-9a-fA-F]{8}))$/.exec(line);
+        if (session && value) {
+            session.values[value[1]] = value[3] !== undefined
+                ? String(parseInt(value[3], 16))
+                : value[2].replace(/\\(.)/g, '$1');
+        }
+    }
+    flush();
+    return { servers, warnings };
+}
+
+/**
+ * 解析 MobaXterm 导出的 .mxtsessions：每个 [Bookmarks_N] 段为一个文件夹，SubRep 为文件夹路径
+ */
+export function parseMobaXtermSessions(content: string): ImportResult {
+    const servers: ImportedServer[] = [];
+    const warnings: string[] = [];
+    let group: string | undefined;
+    let inBookmarks = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        const section = /^\[(.*)\]$/.exec(line);
+        if (section) {
+            inBookmarks = /^Bookmarks(_\d+)?$/i.test(section[1]);
+            group = undefined;
+            continue;
+        }
+        const eq = line.indexOf('=');
+        if (!inBookmarks || eq <= 0) continue;
+
+        const key = line.substring(0, eq);
+        const value = line.substring(eq + 1);
+        if (key === 'SubRep') {
+            group = value.split('\\').filter(Boolean).join('/') || undefined;
+            continue;
+        }
+        if (key === 'ImgNum') continue;
+
+        // 会话格式：#类型#图标%主机%端口%用户%...%私钥%...#终端设置#...
+        const match = /^#(\d+)#([^#]*)/.exec(value);
+        if (!match) continue;
+        if (match[1] !== MOBAXTERM_SSH_TYPE) {
+            warnings.push(`${key}: 不是 SSH 会话`);
+            continue;
+        }
+        const fields = match[2].split('%');
+        const host = fields[1];
+        if (!host) {
+            warnings.push(`${key}: 未设置主机名`);
+            continue;
+        }
+        servers.push({
+            name: toHostAlias(key),
+            host,
+            port: parseInt(fields[2], 10) || 22,
+            username: fields[3] || 'root',
+            privateKeyPath: fields[14] || undefined,
+            group
+        });
+    }
+    return { servers, warnings };
+}
+
+/**
+ * 解析 FileZilla 的 sitemanager.xml，只导入 SFTP 站点；保存的密码会被忽略
+ */
+export function parseFileZillaSites(content: string): ImportResult {
+    const servers: ImportedServer[] = [];
+    const warnings: string[] = [];
+    const folders: string[] = [];
+    const tokenPattern = /<Folder\b[^>]*>([^<]*)|<\/Folder>|<Server\b[^>]*>([\s\S]*?)<\/Server>/g;
+
+    let token: RegExpExecArray | null;
+    while ((token = tokenPattern.exec(content)) !== null) {
+        if (token[0].startsWith('<Folder')) {
+            folders.push(decodeXmlText(token[1]).trim());
+            continue;
+        }
+        if (token[0] === '</Folder>') {
+            folders.pop();
+            continue;
+        }
+
+        const body = token[2];
+        const field = (tag: string) => {
+            const match = new RegExp(`<${tag}\\b[^>]*>([^<]*)</${tag}>`).exec(body);
+            return match ? decodeXmlText(match[1]).trim() : undefined;
+        };
+        const name = field('Name') || field('Host') || 'server';
+        if (field('Protocol') !== FILEZILLA_SFTP_PROTOCOL) {
+            warnings.push(`${name}: 不是 SFTP 站点`);
+            continue;
+        }
+        const host = field('Host');
+        if (!host) {
+            warnings.push(`${name}: 未设置主机名`);
+            continue;
+        }
+        servers.push({
+            name: toHostAlias(name),
+            host,
+            port: parseInt(field('Port') || '', 10) || 22,
+            username: field('User') || 'root',
+            privateKeyPath: field('Keyfile') || undefined,
+            group: folders.filter(Boolean).join('/') || undefined
+        });
+    }
+    return { servers, warnings };
+}
+
+/**
+ * 解析 Termius 导出的 CSV，按表头识别列；密码列会被忽略
+ */
+export function parseTermiusCsv(content: string): ImportResult {
+    const servers: ImportedServer[] = [];
+    const warnings: string[] = [];
+    const rows = parseCsv(content);
+    if (rows.length === 0) return { servers, warnings };
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    const column = (...names: string[]) => header.findIndex(value => names.includes(value));
+    const columns = {
+        label: column('label', 'name', 'alias'),
+        host: column('hostname', 'hostname/ip', 'host', 'address', 'ip'),
+        port: column('port'),
+        username: column('username', 'user'),
+        group: column('group', 'groups'),
+        tags: column('tags', 'tag'),
+        key: column('ssh_key', 'key', 'private key', 'identity file')
+    };
+    if (columns.host < 0) {
+        return { servers, warnings: ['CSV 缺少主机地址列（Hostname）'] };
+    }
+
+    rows.slice(1).forEach((row, index) => {
+        const cell = (position: number) => position >= 0 ? (row[position] || '').trim() : '';
+        const host = cell(columns.host);
+        const label = cell(columns.label) || host;
+        if (!host) {
+            warnings.push(`${label || `第 ${index + 2} 行`}: 未设置主机名`);
+            return;
+        }
+        const tags = cell(columns.tags).split(/[,;]/).map(tag => tag.trim()).filter(Boolean);
+        servers.push({
+            name: toHostAlias(label),
+            host,
+            port: parseInt(cell(columns.port), 10) || 22,
+            username: cell(columns.username) || 'root',
+            privateKeyPath: cell(columns.key) || undefined,
+            group: cell(columns.group).split(/[\\/]/).map(part => part.trim()).filter(Boolean).join('/') || undefined,
+            tags: tags.length > 0 ? tags : undefined
+        });
+    });
+    return { servers, warnings };
+}
+
+// 按 RFC 4180 解析 CSV，支持引号内的逗号、换行和 "" 转义
+function parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            if (row.some(value => value.trim())) rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    row.push(cell);
+    if (row.some(value => value.trim())) rows.push(row);
+    return rows;
+}
+
+/**
+ * 还原 PuTTY 会话名中的 %XX 转义。PuTTY 按系统代码页转义非 ASCII 字节（中文 Windows 下为 GBK），
+ * 因此连续的转义字节先按 UTF-8 严格解码，不是合法 UTF-8 时按 GBK 解码
+ */
+function decodePuttySessionName(name: string): string {
+    return name.replace(/(?:%[0-9a-fA-F]{2})+/g, escaped => {
+        const bytes = Buffer.from(escaped.replace(/%/g, ''), 'hex');
+        try {
+            return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        } catch {
+            return new TextDecoder('gbk').decode(bytes);
+        }
+    });
+}
+
+function decodeXmlText(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&amp;/g, '&');
+}
+
+// ssh 配置的 Host 别名不能包含空白
+function toHostAlias(name: string): string {
+    return name.trim().replace(/\s+/g, '-') || 'server';
+}
+
+// 同名会话加上序号，避免写入 ssh 配置后互相覆盖
+function uniqueNames(servers: ImportedServer[]): ImportedServer[] {
+    const counts = new Map<string, number>();
+    return servers.map(server => {
+        const count = (counts.get(server.name) || 0) + 1;
+        counts.set(server.name, count);
+        return count > 1 ? { ...server, name: `${server.name}-${count}` } : server;
+    });
+}
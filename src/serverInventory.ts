@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import { ServerDetails } from './sshConfigHandler';
+
+/**
+ * 服务器清单中的一台服务器
+ */
+export interface InventoryServer {
+    id: string;
+    name: string;
+    host: string;
+    port: number;
+    username: string;
+    privateKeyPath?: string;
+    sshConfigHost?: string; // 引用 ~/.ssh/config 中的 Host 别名，连接时以 ssh 配置为准
+    group?: string;         // 分组路径，如 prod/eu
+    tags?: string[];
+    color?: string;         // 主题颜色 id，如 charts.red
+}
+
+interface InventoryData {
+    version: 1;
+    servers: InventoryServer[];
+    groups: string[]; // 显式创建的分组（包括暂时没有服务器的空分组）
+}
+
+const STORAGE_KEY = 'starsfall.inventory';
+
+/**
+ * 服务器清单：保存在 globalState 中（参与设置同步），支持嵌套分组、标签和颜色，
+ * 断开连接后服务器仍显示在文件树中
+ */
+export class ServerInventory {
+    private static instance: ServerInventory;
+    private storage?: vscode.Memento;
+    private data: InventoryData = { version: 1, servers: [], groups: [] };
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    public static getInstance(): ServerInventory {
+        if (!ServerInventory.instance) {
+            ServerInventory.instance = new ServerInventory();
+        }
+        return ServerInventory.instance;
+    }
+
+    /**
+     * 设置清单的存储位置并加载已保存的清单（扩展激活时调用）
+     */
+    public setStorage(storage: vscode.Memento & { setKeysForSync?(keys: readonly string[]): void }): void {
+        this.storage = storage;
+        storage.setKeysForSync?.([STORAGE_KEY]);
+        const saved = storage.get<InventoryData>(STORAGE_KEY);
+        this.data = {
+            version: 1,
+            servers: saved?.servers || [],
+            groups: saved?.groups || []
+        };
+        this._onDidChange.fire();
+    }
+
+    public getServers(): InventoryServer[] {
+        return this.data.servers;
+    }
+
+    public getServer(id: string): InventoryServer | undefined {
+        return this.data.servers.find(server => server.id === id);
+    }
+
+    /**
+     * 查找引用指定 ssh 配置别名的服务器
+     */
+    public findBySshConfigHost(alias: string): InventoryServer | undefined {
+        return this.data.servers.find(server => server.sshConfigHost === alias);
+    }
+
+    /**
+     * 全部分组路径（含服务器所在分组的各级父分组），按路径排序
+     */
+    public getGroups(): string[] {
+        return expandGroupPaths([...this.data.groups, ...this.data.servers.map(server => server.group)]);
+    }
+
+    /**
+     * 指定分组的直接子分组；parent 为空时返回顶层分组
+     */
+    public getChildGroups(parent?: string): string[] {
+        return childGroupPaths(this.getGroups(), parent);
+    }
+
+    /**
+     * 直接位于指定分组中的服务器；group 为空时返回未分组的服务器
+     */
+    public getServersInGroup(group?: string): InventoryServer[] {
+        const normalized = normalizeGroupPath(group);
+        return this.data.servers
+            .filter(server => normalizeGroupPath(server.group) === normalized)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    public async addServer(server: Omit<InventoryServer, 'id'>): Promise<InventoryServer> {
+        const added: InventoryServer = { ...server, id: createId(), group: normalizeGroupPath(server.group) || undefined };
+        this.data.servers.push(added);
+        await this.save();
+        return added;
+    }
+
+    public async updateServer(id: string, changes: Partial<Omit<InventoryServer, 'id'>>): Promise<void> {
+        const server = this.getServer(id);
+        if (!server) {
+            throw new Error(`Server ${id} not found in inventory`);
+        }
+        Object.assign(server, changes);
+        if ('group' in changes) {
+            server.group = normalizeGroupPath(changes.group) || undefined;
+        }
+        await this.save();
+    }
+
+    public async removeServer(id: string): Promise<void> {
+        this.data.servers = this.data.servers.filter(server => server.id !== id);
+        await this.save();
+    }
+
+    public async addGroup(group: string): Promise<void> {
+        const normalized = normalizeGroupPath(group);
+        if (!normalized || this.data.groups.includes(normalized)) return;
+        this.data.groups.push(normalized);
+        await this.save();
+    }
+
+    /**
+     * 重命名或移动分组，子分组与其中的服务器一并移动
+     */
+    public async renameGroup(oldGroup: string, newGroup: string): Promise<void> {
+        const from = normalizeGroupPath(oldGroup);
+        const to = normalizeGroupPath(newGroup);
+        if (!from || !to || from === to) return;
+
+        const move = (group?: string) => {
+            const normalized = normalizeGroupPath(group);
+            if (normalized === from) return to;
+            if (normalized.startsWith(`${from}/`)) return to + normalized.substring(from.length);
+            return group;
+        };
+        this.data.groups = Array.from(new Set(this.data.groups.map(group => move(group)!)));
+        this.data.servers.forEach(server => server.group = move(server.group));
+        await this.save();
+    }
+
+    /**
+     * 删除分组，其中的服务器和子分组移到上一级分组
+     */
+    public async removeGroup(group: string): Promise<void> {
+        const removed = normalizeGroupPath(group);
+        const parent = removed.split('/').slice(0, -1).join('/');
+        const move = (value?: string) => {
+            const normalized = normalizeGroupPath(value);
+            if (normalized === removed) return parent || undefined;
+            if (normalized.startsWith(`${removed}/`)) return (parent ? `${parent}/` : '') + normalized.substring(removed.length + 1);
+            return value;
+        };
+        this.data.groups = this.data.groups
+            .filter(value => normalizeGroupPath(value) !== removed)
+            .map(value => move(value)!)
+            .filter(Boolean);
+        this.data.servers.forEach(server => server.group = move(server.group));
+        await this.save();
+    }
+
+    private async save(): Promise<void> {
+        await this.storage?.update(STORAGE_KEY, this.data);
+        this._onDidChange.fire();
+    }
+}
+
+/**
+ * 规范化分组路径：去除多余的斜杠和空白，如 " prod / eu/ " → "prod/eu"
+ */
+export function normalizeGroupPath(group?: string): string {
+    return (group || '').split('/').map(segment => segment.trim()).filter(Boolean).join('/');
+}
+
+/**
+ * 展开为包含各级父分组的分组路径列表，去重并按路径排序
+ */
+export function expandGroupPaths(groups: Array<string | undefined>): string[] {
+    const expanded = new Set<string>();
+    for (const group of groups) {
+        const segments = normalizeGroupPath(group).split('/').filter(Boolean);
+        segments.forEach((_, index) => expanded.add(segments.slice(0, index + 1).join('/')));
+    }
+    return Array.from(expanded).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * 从分组路径列表中取出指定分组的直接子分组；parent 为空时返回顶层分组
+ */
+export function childGroupPaths(groups: string[], parent?: string): string[] {
+    const prefix = parent ? `${parent}/` : '';
+    return groups.filter(group => group.startsWith(prefix) && !group.substring(prefix.length).includes('/'));
+}
+
+/**
+ * 得到清单中服务器的连接参数：引用 ssh 配置的服务器以 ssh 配置为准（包括跳板机等选项），找不到时使用清单中保存的值
+ */
+export function resolveInventoryServer(server: InventoryServer, sshConfigServers: ServerDetails[]): ServerDetails {
+    const fromConfig = server.sshConfigHost ? sshConfigServers.find(details => details.name === server.sshConfigHost) : undefined;
+    if (fromConfig) {
+        return { ...fromConfig, name: server.name };
+    }
+    return {
+        name: server.name,
+        host: server.host,
+        port: server.port,
+        username: server.username,
+        privateKeyPath: server.privateKeyPath
+    };
+}
+
+function createId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
@@ -1,17 +1,53 @@
 import * as vscode from 'vscode';
-import { readSSHConfig, writeSSHConfig, ServerDetails } from './sshConfigHandler';
-import { promptForServerDetails, showServerList } from './uiHelper';
-import { TerminalProvider } from './terminalProvider';
+import { readSSHConfig, writeSSHConfig, updateSSHConfig, removeSSHConfig, ServerDetails } from './sshConfigHandler';
+import {
+  ExportScope,
+  pickExportFormat,
+  pickExportScope,
+  pickImportFormat,
+  pickImportTarget,
+  pickServerColor,
+  pickServersToImport,
+  pickSessionDuplicateMode,
+  promptForGroup,
+  promptForPortForward,
+  promptForServerDetails,
+  promptForTags,
+  ServerListEntry,
+  showServerList
+} from './uiHelper';
+import { TerminalProvider, TerminalSession } from './terminalProvider';
 import { FileExplorerManager } from './fileExplorerManager';
-import { Client } from 'ssh2';
-import * as fs from 'fs';
+import { ConnectionPool, toConnectionString } from './connectionPool';
+import { PortForwardManager } from './portForwardManager';
+import { RemoteSessionManager } from './remoteSessionManager';
+import { TreeNode } from './starsfallTreeDataProvider';
+import { InventoryServer, resolveInventoryServer, ServerInventory } from './serverInventory';
+import { WorkspaceServerManager } from './workspaceServerManager';
+import { decodeImportFile, detectImportFormat, parseImportFile } from './serverImport';
+import { EXPORT_FORMATS, ExportedServer, formatExport } from './serverExport';
+import { ConnectionDiagnosticsManager } from './connectionDiagnosticsManager';
+import { ServerStatusManager } from './serverStatusManager';
+import { parseOsRelease } from './serverStatus';
+import { expandGroupPaths, normalizeGroupPath } from './serverInventory';
 
 export class ServerManager {
   private terminals: Map<string, vscode.Terminal[]> = new Map();
   private serverDetailsMap: Map<string, ServerDetails> = new Map(); // 存储服务器详情
+  private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+  private portForwardManager: PortForwardManager = PortForwardManager.getInstance();
+  private remoteSessionManager: RemoteSessionManager = RemoteSessionManager.getInstance();
+  private inventory: ServerInventory = ServerInventory.getInstance();
+  private workspaceServers: WorkspaceServerManager = WorkspaceServerManager.getInstance();
+  private diagnostics: ConnectionDiagnosticsManager = ConnectionDiagnosticsManager.getInstance();
+  private serverStatus: ServerStatusManager = ServerStatusManager.getInstance();
 
   constructor(private fileExplorerManager: FileExplorerManager) {
-    // 使用参数属性语法，不需要额外的赋值语句
+    // 重新打开含远程文件夹的工作区时，按连接字符串查找服务器的完整配置
+    this.connectionPool.setServerResolver(async connectionString => {
+      await this.workspaceServers.whenLoaded();
+      return (await this.listKnownServers()).find(server => toConnectionString(server) === connectionString);
+    });
   }
 
   /**
@@ -24,15 +60,29 @@ export class ServerManager {
       vscode.window.showErrorMessage('No active terminal found');
       return undefined;
     }
+    return this.duplicateTerminal(activeTerminal);
+  }
+
+  /**
+   * 从文件树复制服务器最近打开的终端，没有终端时新开一个
+   */
+  public async duplicateServerTerminal(serverNode: TreeNode): Promise<vscode.Terminal | undefined> {
+    const connectionString = serverNode?.connectionString;
+    if (!connectionString) return undefined;
+    const terminals = this.terminals.get(connectionString);
+    if (terminals && terminals.length > 0) {
+      return this.duplicateTerminal(terminals[terminals.length - 1]);
+    }
+    return this.openServerTerminal(serverNode);
+  }
 
-    // 查找当前终端对应的服务器连接信息
+  private async duplicateTerminal(sourceTerminal: vscode.Terminal): Promise<vscode.Terminal | undefined> {
+    // 查找终端对应的服务器连接信息
     let serverDetails: ServerDetails | undefined;
-    let connectionString: string | undefined;
 
     // 遍历所有服务器的终端，找到匹配的终端
     for (const [connStr, terminals] of this.terminals.entries()) {
-      if (terminals.some(terminal => terminal.name === activeTerminal.name)) {
-        connectionString = connStr;
+      if (terminals.some(terminal => terminal.name === sourceTerminal.name)) {
         serverDetails = this.serverDetailsMap.get(connStr);
         break;
       }
@@ -43,44 +93,84 @@ export class ServerManager {
       return undefined;
     }
 
+    // 持久会话：选择附加到同一会话或在会话中新建窗口
+    const sourceProvider = (sourceTerminal.creationOptions as vscode.ExtensionTerminalOptions).pty;
+    const sourceSession = sourceProvider instanceof TerminalProvider ? sourceProvider.getSession() : undefined;
+    let session: TerminalSession | undefined;
+    if (sourceSession) {
+      const mode = await pickSessionDuplicateMode(sourceSession.id);
+      if (!mode) return undefined;
+      session = { ...sourceSession, mode };
+    }
+
     try {
       // 创建新终端
-      const connectionString = `${serverDetails.username}@${serverDetails.host}:${serverDetails.port}`;
       const systemType = await this.detectSystemType(serverDetails);
-      const newTerminal = vscode.window.createTerminal({
-        name: `SSH: ${serverDetails.name}`,
-        pty: new TerminalProvider(connectionString, serverDetails.privateKeyPath, serverDetails.name, systemType, this.fileExplorerManager)
-      });
+      return this.openTerminal(serverDetails, systemType, session);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to duplicate terminal: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
 
-      // 将新终端添加到对应服务器的终端数组中
-      if (connectionString) {
-        if (!this.terminals.has(connectionString)) {
-          this.terminals.set(connectionString, []);
-        }
-        this.terminals.get(connectionString)?.push(newTerminal);
-      }
+  /**
+   * 从文件树为服务器打开新终端；开启持久会话时在默认会话中新建窗口
+   */
+  public async openServerTerminal(serverNode: TreeNode): Promise<vscode.Terminal | undefined> {
+    const connectionString = serverNode?.connectionString;
+    if (!connectionString) return undefined;
 
-      newTerminal.show();
-      return newTerminal;
+    try {
+      const serverDetails = this.serverDetailsMap.get(connectionString) || this.connectionPool.getServerDetails(connectionString);
+      const systemType = await this.detectSystemType(serverDetails);
+      const sessionKind = this.remoteSessionManager.getSessionKind();
+      return this.openTerminal(serverDetails, systemType, sessionKind
+        ? { kind: sessionKind, id: this.remoteSessionManager.getDefaultSessionName(), mode: 'new-window' }
+        : undefined);
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to duplicate terminal: ${error instanceof Error ? error.message : String(error)}`);
+      vscode.window.showErrorMessage(`打开终端失败: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 打开进入指定目录的终端（普通 shell，不附加持久会话）
+   */
+  public async openTerminalHere(directoryNode: TreeNode): Promise<vscode.Terminal | undefined> {
+    const uri = directoryNode?.resourceUri;
+    if (!uri) return undefined;
+
+    try {
+      const serverDetails = this.serverDetailsMap.get(uri.authority) || this.connectionPool.getServerDetails(uri.authority);
+      const systemType = await this.detectSystemType(serverDetails);
+      return this.openTerminal(serverDetails, systemType, undefined, uri.path);
+    } catch (error) {
+      vscode.window.showErrorMessage(`打开终端失败: ${error instanceof Error ? error.message : String(error)}`);
       return undefined;
     }
   }
 
+  public async copyConnectionString(serverNode: TreeNode): Promise<void> {
+    const connectionString = serverNode?.connectionString;
+    if (!connectionString) return;
+    await vscode.env.clipboard.writeText(connectionString);
+    vscode.window.setStatusBarMessage(`已复制 ${connectionString}`, 3000);
+  }
+
   public async connectServer() {
     try {
-      // 读取 SSH 配置文件
-      const sshConfig = await readSSHConfig();
+      // 读取服务器清单和 SSH 配置文件
+      const servers = await this.listKnownServers();
 
       // 弹出服务器列表供用户选择或新增
-      const selectedServer = await showServerList(sshConfig);
+      const selectedServer = await showServerList(servers);
       if (!selectedServer) return;
 
-      // 处理用户输入
+      // 处理用户输入（关闭连接表单即取消）
       const serverDetails = selectedServer.isNew
         ? await promptForServerDetails()
         : selectedServer;
+      if (!serverDetails) return;
 
       // 更新 SSH 配置文件
       if (selectedServer.isNew) {
@@ -100,66 +190,502 @@ export class ServerManager {
       const sshConfig = await readSSHConfig();
       const selectedServer = await showServerList(sshConfig);
       if (!selectedServer || selectedServer.isNew) return;
-      const updatedDetails = await promptForServerDetails();
+      // 连接表单预先填入现有配置
+      const updatedDetails = await promptForServerDetails(selectedServer);
       if (!updatedDetails) return;
-      await writeSSHConfig(updatedDetails);
+      await updateSSHConfig(selectedServer, updatedDetails);
       vscode.window.showInformationMessage(`服务器 ${selectedServer.name} 已更新`);
     } catch (error) {
       vscode.window.showErrorMessage(`编辑服务器失败: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  //从用户的 .ssh/config 文件中删除服务器
+  public async deleteServer() {
+    try {
+      const sshConfig = await readSSHConfig();
+      const selectedServer = await showServerList(sshConfig);
+      if (!selectedServer || selectedServer.isNew) return;
+
+      const confirm = await vscode.window.showWarningMessage(
+        `确定要从 SSH 配置中删除服务器 ${selectedServer.name} 吗？原文件将备份为 config.bak`,
+        { modal: true },
+        '删除'
+      );
+      if (confirm !== '删除') return;
+
+      await removeSSHConfig(selectedServer.name);
+      vscode.window.showInformationMessage(`服务器 ${selectedServer.name} 已删除`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`删除服务器失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 清单中的服务器（按分组）、工作区定义的服务器以及尚未被引用的 ssh 配置主机
+   */
+  private async listKnownServers(): Promise<ServerListEntry[]> {
+    const sshConfig = await readSSHConfig();
+    const inventoryServers = this.inventory.getServers().map(server => ({
+      ...resolveInventoryServer(server, sshConfig),
+      group: server.group,
+      tags: server.tags
+    }));
+    const workspaceServers = this.workspaceServers.getServers().map(server => ({
+      ...this.workspaceServers.resolve(server, sshConfig),
+      group: server.group ? `工作区/${server.group}` : '工作区',
+      tags: server.tags
+    }));
+    const referenced = new Set(this.workspaceServers.getServers().map(server => server.sshConfigHost));
+    const unlisted = sshConfig.filter(details => !this.inventory.findBySshConfigHost(details.name) && !referenced.has(details.name));
+    return [...inventoryServers, ...workspaceServers, ...unlisted];
+  }
+
+  /**
+   * 点击文件树中未连接的服务器时连接
+   */
+  public async connectInventoryServer(serverNode: TreeNode) {
+    if (!serverNode?.serverDetails) return;
+    await this.connectAndOpenResources(serverNode.serverDetails);
+  }
+
+  /**
+   * 将服务器加入清单：可以是文件树中的服务器，或从 ssh 配置中选择、新建
+   */
+  public async addToInventory(serverNode?: TreeNode) {
+    try {
+      let details = serverNode?.serverDetails;
+      let sshConfigHost: string | undefined;
+      if (details) {
+        // 来自 ssh 配置分组的主机保持对 ssh 配置的引用
+        const sshConfig = await readSSHConfig();
+        sshConfigHost = sshConfig.some(server => server.name === details!.name) ? details.name : undefined;
+      } else {
+        const sshConfig = await readSSHConfig();
+        const selected = await showServerList(sshConfig.filter(server => !this.inventory.findBySshConfigHost(server.name)));
+        if (!selected) return;
+        details = selected.isNew ? await promptForServerDetails() : selected;
+        if (!details) return;
+        sshConfigHost = selected.isNew ? undefined : selected.name;
+      }
+
+      const group = await promptForGroup(this.inventory.getGroups());
+      if (group === undefined) return;
+      const tags = await promptForTags();
+      if (tags === undefined) return;
+
+      await this.inventory.addServer({
+        name: details.name,
+        host: details.host,
+        port: details.port,
+        username: details.username,
+        privateKeyPath: details.privateKeyPath,
+        sshConfigHost,
+        group,
+        tags
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(`加入服务器清单失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 修改清单中服务器的名称、分组、标签或颜色
+   */
+  public async editInventoryServer(serverNode: TreeNode) {
+    const server = serverNode?.inventoryServerId ? this.inventory.getServer(serverNode.inventoryServerId) : undefined;
+    if (!server) {
+      await this.addToInventory(serverNode);
+      return;
+    }
+
+    const actions = [
+      { label: '重命名', action: 'name' },
+      { label: '移动到分组', description: server.group, action: 'group' },
+      { label: '编辑标签', description: (server.tags || []).map(tag => `#${tag}`).join(' '), action: 'tags' },
+      { label: '设置颜色', description: server.color, action: 'color' }
+    ];
+    const selected = await vscode.window.showQuickPick(actions, { placeHolder: `编辑 ${server.name}` });
+    if (!selected) return;
+
+    let changes: Partial<InventoryServer> | undefined;
+    if (selected.action === 'name') {
+      const name = await vscode.window.showInputBox({ prompt: '输入服务器名称', value: server.name });
+      changes = name ? { name } : undefined;
+    } else if (selected.action === 'group') {
+      const group = await promptForGroup(this.inventory.getGroups(), server.group);
+      changes = group !== undefined ? { group } : undefined;
+    } else if (selected.action === 'tags') {
+      const tags = await promptForTags(server.tags);
+      changes = tags ? { tags } : undefined;
+    } else {
+      const color = await pickServerColor(server.color);
+      changes = color !== undefined ? { color: color || undefined } : undefined;
+    }
+    if (changes) {
+      await this.inventory.updateServer(server.id, changes);
+    }
+  }
+
+  public async removeFromInventory(serverNode: TreeNode) {
+    const server = serverNode?.inventoryServerId ? this.inventory.getServer(serverNode.inventoryServerId) : undefined;
+    if (!server) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+      `确定要从服务器清单中移除 ${server.name} 吗？SSH 配置不受影响`,
+      { modal: true },
+      '移除'
+    );
+    if (confirm !== '移除') return;
+    await this.inventory.removeServer(server.id);
+  }
+
+  /**
+   * 新建清单分组；从分组节点调用时创建其子分组
+   */
+  public async addInventoryGroup(groupNode?: TreeNode) {
+    const parent = groupNode?.contextValue === 'inventoryGroup' ? `${groupNode.path}/` : '';
+    const group = await vscode.window.showInputBox({
+      prompt: '输入分组路径，用 / 表示嵌套分组',
+      placeHolder: '例如: prod/eu',
+      value: parent,
+      valueSelection: [parent.length, parent.length]
+    });
+    if (!group) return;
+    await this.inventory.addGroup(group);
+  }
+
+  public async renameInventoryGroup(groupNode: TreeNode) {
+    if (groupNode?.contextValue !== 'inventoryGroup') return;
+    const group = await vscode.window.showInputBox({
+      prompt: '输入新的分组路径，修改上级路径可移动分组',
+      value: groupNode.path
+    });
+    if (!group) return;
+    await this.inventory.renameGroup(groupNode.path, group);
+  }
+
+  public async removeInventoryGroup(groupNode: TreeNode) {
+    if (groupNode?.contextValue !== 'inventoryGroup') return;
+    const confirm = await vscode.window.showWarningMessage(
+      `确定要删除分组 ${groupNode.path} 吗？其中的服务器和子分组将移到上一级`,
+      { modal: true },
+      '删除'
+    );
+    if (confirm !== '删除') return;
+    await this.inventory.removeGroup(groupNode.path);
+  }
+
+  /**
+   * 从 PuTTY、MobaXterm、FileZilla 或 Termius 的导出文件导入服务器，预览后写入 ssh 配置或服务器清单
+   */
+  public async importServers() {
+    try {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: '导入',
+        filters: {
+          '服务器导出文件': ['reg', 'mxtsessions', 'xml', 'csv'],
+          '所有文件': ['*']
+        }
+      });
+      if (!uris?.[0]) return;
+
+      const content = decodeImportFile(Buffer.from(await vscode.workspace.fs.readFile(uris[0])));
+      const format = detectImportFormat(uris[0].path, content) || await pickImportFormat();
+      if (!format) return;
+
+      const { servers, warnings } = parseImportFile(format, content);
+      if (servers.length === 0) {
+        vscode.window.showWarningMessage(`没有找到可导入的 SSH 服务器${warnings.length > 0 ? `：${warnings.join('；')}` : ''}`);
+        return;
+      }
+
+      const target = await pickImportTarget();
+      if (!target) return;
+      const existingNames = new Set(target === 'sshConfig'
+        ? (await readSSHConfig()).map(server => server.name)
+        : this.inventory.getServers().map(server => server.name));
+      const selected = await pickServersToImport(servers, existingNames);
+      if (!selected || selected.length === 0) return;
+
+      if (target === 'sshConfig') {
+        await writeSSHConfig(selected);
+      } else {
+        for (const server of selected) {
+          await this.inventory.addServer({
+            name: server.name,
+            host: server.host,
+            port: server.port,
+            username: server.username,
+            privateKeyPath: server.privateKeyPath,
+            group: server.group,
+            tags: server.tags
+          });
+        }
+      }
+
+      const skipped = warnings.length > 0 ? `，跳过 ${warnings.length} 个会话：${warnings.join('；')}` : '';
+      vscode.window.showInformationMessage(`已导入 ${selected.length} 台服务器${skipped}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`导入服务器失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 将一组服务器导出为 ssh 配置片段、Ansible inventory 或 CSV
+   * @param groupNode 从文件树的分组节点调用时直接导出该分组
+   */
+  public async exportServers(groupNode?: TreeNode) {
+    try {
+      const scopes = await this.listExportScopes();
+      const scope = groupNode
+        ? scopes.find(candidate => this.matchesExportScope(candidate, groupNode))
+        : await pickExportScope(scopes);
+      if (!scope) return;
+      if (scope.servers.length === 0) {
+        vscode.window.showWarningMessage(`${scope.label} 中没有服务器`);
+        return;
+      }
+
+      const format = await pickExportFormat();
+      if (!format) return;
+      const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, EXPORT_FORMATS[format].fileName) : undefined,
+        saveLabel: '导出'
+      });
+      if (!uri) return;
+
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(formatExport(format, scope.servers), 'utf8'));
+      const action = await vscode.window.showInformationMessage(`已导出 ${scope.servers.length} 台服务器到 ${uri.fsPath}`, '打开');
+      if (action === '打开') {
+        await vscode.window.showTextDocument(uri);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`导出服务器失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * 可导出的服务器范围：全部、清单及其各分组、工作区及其各分组、ssh 配置
+   */
+  private async listExportScopes(): Promise<ExportScope[]> {
+    const sshConfig = await readSSHConfig();
+    const inventoryServers: ExportedServer[] = this.inventory.getServers().map(server => ({
+      ...resolveInventoryServer(server, sshConfig),
+      group: server.group,
+      tags: server.tags
+    }));
+    const workspaceServers: ExportedServer[] = this.workspaceServers.getServers().map(server => ({
+      ...this.workspaceServers.resolve(server, sshConfig),
+      group: normalizeGroupPath(server.group) || undefined,
+      tags: server.tags
+    }));
+    const inGroup = (servers: ExportedServer[], group: string) =>
+      servers.filter(server => server.group === group || server.group?.startsWith(`${group}/`));
+
+    const scopes: ExportScope[] = [
+      { label: '全部服务器', section: '全部', servers: [...inventoryServers, ...workspaceServers, ...sshConfig] }
+    ];
+    if (inventoryServers.length > 0) {
+      scopes.push({ label: '服务器清单', section: '服务器清单', servers: inventoryServers });
+      expandGroupPaths(inventoryServers.map(server => server.group))
+        .forEach(group => scopes.push({ label: group, section: '服务器清单', servers: inGroup(inventoryServers, group) }));
+    }
+    if (workspaceServers.length > 0) {
+      scopes.push({ label: '工作区', section: '工作区', servers: workspaceServers });
+      expandGroupPaths(workspaceServers.map(server => server.group))
+        .forEach(group => scopes.push({ label: `工作区/${group}`, section: '工作区', servers: inGroup(workspaceServers, group) }));
+    }
+    scopes.push({ label: 'SSH 配置', section: 'SSH 配置', servers: sshConfig });
+    return scopes;
+  }
+
+  // 文件树分组节点是否对应该导出范围
+  private matchesExportScope(scope: ExportScope, groupNode: TreeNode): boolean {
+    switch (groupNode.contextValue) {
+      case 'inventoryGroup': return scope.section === '服务器清单' && scope.label === groupNode.path;
+      case 'workspaceGroup': return scope.section === '工作区' && scope.label === (groupNode.path ? `工作区/${groupNode.path}` : '工作区');
+      case 'sshConfigGroup': return scope.section === 'SSH 配置';
+      default: return false;
+    }
+  }
+
   public async connectAndOpenResources(serverDetails: ServerDetails) {
     const { name, host, port, username, privateKeyPath } = serverDetails;
     const connectionString = `${username}@${host}:${port}`;
 
     try {
-      // 存储服务器详情
+      // 存储服务器详情，并登记到连接池供终端、文件树和文件系统共享
       this.serverDetailsMap.set(connectionString, serverDetails);
+      this.connectionPool.register(serverDetails);
 
       // 1. 先检测系统类型
-      const systemType = await this.detectSystemType({
-        host, port, username, privateKeyPath
-      });
-
-      // 2. 创建终端
-      const terminal = vscode.window.createTerminal({
-        name: `SSH: ${name}`,
-        pty: new TerminalProvider(connectionString, privateKeyPath, name, systemType, this.fileExplorerManager)
-      });
+      const systemType = await this.detectSystemType(serverDetails);
 
-      // 将终端添加到对应服务器的终端数组中
-      if (!this.terminals.has(connectionString)) {
-        this.terminals.set(connectionString, []);
-      }
-      this.terminals.get(connectionString)?.push(terminal);
+      // 2. 创建终端（开启持久会话时附加到默认的 tmux / screen 会话）
+      const sessionKind = this.remoteSessionManager.getSessionKind();
+      this.openTerminal(serverDetails, systemType, sessionKind
+        ? { kind: sessionKind, id: this.remoteSessionManager.getDefaultSessionName(), mode: 'attach' }
+        : undefined);
 
-      terminal.show();
       // 3. 先连接文件系统，检查服务器是否已存在
       const treeView = this.fileExplorerManager.getTreeDataProvider().getServer(connectionString);
       if (!treeView) {
         await this.fileExplorerManager.openFileExplorer(connectionString, privateKeyPath);
+        // 4. 与 ssh 一样，连接时启动 ssh 配置中的端口转发
+        this.portForwardManager.loadFromConfig(connectionString, serverDetails);
       }
     } catch (error) {
-      vscode.window.showErrorMessage(`SSH连接失败: ${error instanceof Error ? error.message : String(error)}`);
+      // 不等待用户响应，避免阻塞调用方
+      vscode.window.showErrorMessage(`SSH连接失败: ${error instanceof Error ? error.message : String(error)}`, '诊断连接')
+        .then(action => {
+          if (action === '诊断连接') this.diagnostics.diagnose(serverDetails);
+        });
     }
   }
 
-  public async disconnectServer() {
-    // 将 terminals 的键转换为 QuickPickItem 数组
-    const serverOptions = Array.from(this.terminals.keys()).map(label => ({
-      label,
-      description: `SSH 终端: ${label}`
-    }));
+  /**
+   * 逐步诊断到服务器的连接：可以是文件树中的服务器，或从已知服务器中选择
+   */
+  public async diagnoseConnection(serverNode?: TreeNode) {
+    try {
+      let details = serverNode?.serverDetails;
+      if (!details) {
+        const selected = await showServerList(await this.listKnownServers());
+        if (!selected || selected.isNew) return;
+        details = selected;
+      }
+      await this.diagnostics.diagnose(details);
+    } catch (error) {
+      vscode.window.showErrorMessage(`诊断连接失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-    // 弹出已连接的选择框
-    const selectedServer = await vscode.window.showQuickPick(serverOptions, {
-      placeHolder: '选择要断开的服务器'
+  /**
+   * 创建连接到服务器的终端并显示
+   */
+  private openTerminal(serverDetails: ServerDetails, systemType: string, session?: TerminalSession, initialPath?: string): vscode.Terminal {
+    const connectionString = toConnectionString(serverDetails);
+    const terminal = vscode.window.createTerminal({
+      name: `SSH: ${serverDetails.name}`,
+      pty: new TerminalProvider(connectionString, serverDetails.privateKeyPath, serverDetails.name, systemType, this.fileExplorerManager, session, initialPath)
     });
-    if (!selectedServer) return;
 
-    // 获取用户选择的服务器 ID
-    const selectedServerId = selectedServer.label;
+    // 将终端添加到对应服务器的终端数组中
+    if (!this.terminals.has(connectionString)) {
+      this.terminals.set(connectionString, []);
+    }
+    this.terminals.get(connectionString)?.push(terminal);
+    this.serverStatus.setTerminalCount(connectionString, this.terminals.get(connectionString)!.length);
+
+    terminal.show();
+    return terminal;
+  }
+
+  /**
+   * 从文件树中附加到服务器上已有的 tmux / screen 会话
+   */
+  public async attachSession(sessionNode: TreeNode) {
+    const session = sessionNode?.remoteSession;
+    const connectionString = sessionNode?.connectionString;
+    if (!session || !connectionString) return;
+
+    try {
+      const serverDetails = this.serverDetailsMap.get(connectionString) || this.connectionPool.getServerDetails(connectionString);
+      const systemType = await this.detectSystemType(serverDetails);
+      this.openTerminal(serverDetails, systemType, { kind: session.kind, id: session.id, mode: 'attach' });
+    } catch (error) {
+      vscode.window.showErrorMessage(`附加会话失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  public async renameSession(sessionNode: TreeNode) {
+    const session = sessionNode?.remoteSession;
+    const connectionString = sessionNode?.connectionString;
+    if (!session || !connectionString) return;
+
+    const newName = await vscode.window.showInputBox({
+      title: `重命名会话 ${session.name}`,
+      value: session.name,
+      validateInput: value => value.trim() ? undefined : '会话名不能为空'
+    });
+    if (!newName || newName === session.name) return;
+
+    try {
+      await this.remoteSessionManager.renameSession(connectionString, session, newName);
+    } catch (error) {
+      vscode.window.showErrorMessage(`重命名会话失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.fileExplorerManager.getTreeDataProvider().refreshSessions(connectionString);
+  }
+
+  public async killSession(sessionNode: TreeNode) {
+    const session = sessionNode?.remoteSession;
+    const connectionString = sessionNode?.connectionString;
+    if (!session || !connectionString) return;
+
+    const confirm = await vscode.window.showWarningMessage(
+      `确定要结束会话 ${session.name} 吗？其中运行的程序都会被终止`,
+      { modal: true },
+      '结束'
+    );
+    if (confirm !== '结束') return;
+
+    try {
+      await this.remoteSessionManager.killSession(connectionString, session);
+    } catch (error) {
+      vscode.window.showErrorMessage(`结束会话失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.fileExplorerManager.getTreeDataProvider().refreshSessions(connectionString);
+  }
+
+  /**
+   * 为文件树中的服务器添加端口转发
+   */
+  public async addPortForward(serverNode?: TreeNode) {
+    const connectionString = serverNode?.connectionString || serverNode?.resourceUri?.authority || await this.pickConnectedServer('选择要添加端口转发的服务器');
+    if (!connectionString) return;
+
+    const spec = await promptForPortForward(connectionString);
+    if (!spec) return;
+
+    const forward = await this.portForwardManager.addForward(connectionString, spec);
+    if (forward.status === 'error') {
+      vscode.window.showErrorMessage(`端口转发启动失败: ${forward.error}`);
+    }
+  }
+
+  public async startPortForward(forwardNode: TreeNode) {
+    if (!forwardNode?.portForwardId) return;
+    await this.portForwardManager.startForward(forwardNode.portForwardId);
+    const forward = this.portForwardManager.getForward(forwardNode.portForwardId);
+    if (forward?.status === 'error') {
+      vscode.window.showErrorMessage(`端口转发启动失败: ${forward.error}`);
+    }
+  }
+
+  public stopPortForward(forwardNode: TreeNode) {
+    if (!forwardNode?.portForwardId) return;
+    this.portForwardManager.stopForward(forwardNode.portForwardId);
+  }
+
+  public removePortForward(forwardNode: TreeNode) {
+    if (!forwardNode?.portForwardId) return;
+    this.portForwardManager.removeForward(forwardNode.portForwardId);
+  }
+
+  private async pickConnectedServer(placeHolder: string): Promise<string | undefined> {
+    return vscode.window.showQuickPick(Array.from(this.serverDetailsMap.keys()), { placeHolder });
+  }
+
+  /**
+   * 断开服务器；从文件树调用时断开该节点对应的服务器，否则让用户选择
+   */
+  public async disconnectServer(serverNode?: TreeNode) {
+    const selectedServerId = serverNode?.connectionString || await this.pickServerToDisconnect();
+    if (!selectedServerId) return;
 
     // 断开服务器
     this.fileExplorerManager.disconnectServer(selectedServerId);
@@ -175,8 +701,27 @@ export class ServerManager {
       });
       // 清空该服务器的所有终端
       this.terminals.delete(selectedServerId);
+      this.serverStatus.setTerminalCount(selectedServerId, 0);
       this.serverDetailsMap.delete(selectedServerId);
     }
+
+    // 停止端口转发。终端和端口转发各自归还共享连接；远程工作区文件夹、文件监视和传输仍可能在使用，
+    // 因此不强制断开，没有使用者后由连接池空闲超时断开
+    this.portForwardManager.removeAll(selectedServerId);
+  }
+
+  private async pickServerToDisconnect(): Promise<string | undefined> {
+    // 将 terminals 的键转换为 QuickPickItem 数组
+    const serverOptions = Array.from(this.terminals.keys()).map(label => ({
+      label,
+      description: `SSH 终端: ${label}`
+    }));
+
+    // 弹出已连接的选择框
+    const selectedServer = await vscode.window.showQuickPick(serverOptions, {
+      placeHolder: '选择要断开的服务器'
+    });
+    return selectedServer?.label;
   }
 
   public disconnectAllTerminals(): void {
@@ -186,9 +731,12 @@ export class ServerManager {
         terminal.sendText('exit', true); // 发送退出命令
         terminal.dispose(); // 关闭终端
       });
+      this.serverStatus.setTerminalCount(connectionString, 0);
     });
     this.terminals.clear(); // 清空缓存
     this.serverDetailsMap.clear(); // 清空服务器详情
+    this.portForwardManager.removeAll(); // 停止所有端口转发
+    this.connectionPool.closeAll(); // 断开所有共享连接
   }
 
   /**
@@ -202,6 +750,7 @@ export class ServerManager {
       if (index !== -1) {
         // 从数组中移除关闭的终端
         terminals.splice(index, 1);
+        this.serverStatus.setTerminalCount(connectionString, terminals.length);
 
         // 如果服务器没有终端了，清理对应的条目
         if (terminals.length === 0) {
@@ -220,43 +769,37 @@ export class ServerManager {
         terminal.sendText('sudo shutdown -h now', true); // 发送关机命令
         terminal.dispose(); // 关闭终端
       });
+      this.serverStatus.setTerminalCount(connectionString, 0);
     });
     this.terminals.clear(); // 清空缓存 // 清空文件资源管理器中的服务器列表
   }
 
   // 独立的系统类型检测方法
-  private async detectSystemType(server: { host: string; port: number; username: string; privateKeyPath?: string }): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const conn = new Client();
-      conn.on('ready', () => {
-        conn.exec('cat /etc/os-release', (err, stream) => {
-          if (err) {
-            resolve('unknown');
-            return;
-          }
-
-          let output = '';
-          stream.on('data', (data: Buffer) => {
-            output += data.toString();
-          });
+  private async detectSystemType(server: { host: string; port: number; username: string }): Promise<string> {
+    return this.connectionPool.withClient(toConnectionString(server), conn => new Promise<string>((resolve) => {
+      conn.exec('cat /etc/os-release', (err, stream) => {
+        if (err) {
+          resolve('unknown');
+          return;
+        }
 
-          stream.on('close', () => {
-            conn.end();
-            if (output.includes('kali')) resolve('kali');
-            else if (output.includes('Ubuntu')) resolve('ubuntu');
-            else if (output.includes('CentOS')) resolve('centos');
-            else if (output.includes('Debian')) resolve('debian');
-            else if (output.includes('parrot')) resolve('parrot');
-            else if (output.includes('blackarch')) resolve('blackarch');
-            else resolve('unknown');
-          });
+        let output = '';
+        stream.on('data', (data: Buffer) => {
+          output += data.toString();
+        });
+
+        stream.on('close', () => {
+          // 完整的系统名称显示在文件树的提示中
+          this.serverStatus.setSystem(toConnectionString(server), parseOsRelease(output));
+          if (output.includes('kali')) resolve('kali');
+          else if (output.includes('Ubuntu')) resolve('ubuntu');
+          else if (output.includes('CentOS')) resolve('centos');
+          else if (output.includes('Debian')) resolve('debian');
+          else if (output.includes('parrot')) resolve('parrot');
+          else if (output.includes('blackarch')) resolve('blackarch');
+          else resolve('unknown');
         });
-      }).connect({
-        host: server.host,
-        port: server.port,
-        username: server.username,
-        privateKey: server.privateKeyPath ? fs.readFileSync(server.privateKeyPath) : undefined
       });
-    });
+    }));
   }
 }
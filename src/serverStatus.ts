@@ -0,0 +1,80 @@
+/**
+ * 服务器连接的实时状态
+ */
+export type ServerState = 'connecting' | 'connected' | 'reconnecting' | 'authFailed' | 'unreachable' | 'idle';
+
+/**
+ * 文件树中服务器节点显示的状态信息
+ */
+export interface ServerStatus {
+    state: ServerState;
+    connectedAt?: number; // 本次连接就绪的时间，用于计算在线时长
+    terminals: number;    // 打开的终端数量
+    system?: string;      // 检测到的操作系统，如 Ubuntu 22.04.3 LTS
+    error?: string;       // 最近一次连接失败的原因
+}
+
+/**
+ * 各状态的名称、图标（codicon）和颜色（主题颜色 id）
+ */
+export const SERVER_STATE_STYLES: Record<ServerState, { label: string; icon: string; color?: string }> = {
+    connecting: { label: '连接中', icon: 'loading~spin' },
+    connected: { label: '已连接', icon: 'vm-running', color: 'testing.iconPassed' },
+    reconnecting: { label: '重新连接中', icon: 'sync~spin', color: 'editorWarning.foreground' },
+    authFailed: { label: '认证失败', icon: 'lock', color: 'testing.iconFailed' },
+    unreachable: { label: '无法连接', icon: 'debug-disconnect', color: 'testing.iconFailed' },
+    idle: { label: '已断开，使用时自动重连', icon: 'vm-outline' }
+};
+
+/**
+ * 连接失败时区分认证失败和网络不可达
+ */
+export function classifyConnectionError(error: Error & { level?: string }): 'authFailed' | 'unreachable' {
+    return error.level === 'client-authentication' || /authentication methods failed/i.test(error.message)
+        ? 'authFailed'
+        : 'unreachable';
+}
+
+/**
+ * 格式化在线时长，精确到分钟
+ */
+export function formatUptime(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) return '不到 1 分钟';
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    if (days > 0) return hours > 0 ? `${days} 天 ${hours} 小时` : `${days} 天`;
+    if (hours > 0) return minutes % 60 > 0 ? `${hours} 小时 ${minutes % 60} 分钟` : `${hours} 小时`;
+    return `${minutes} 分钟`;
+}
+
+/**
+ * 从 /etc/os-release 中取出系统名称，优先使用 PRETTY_NAME
+ */
+export function parseOsRelease(content: string): string | undefined {
+    const values: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = /^([A-Z_]+)=(.*)$/.exec(line.trim());
+        if (match) values[match[1]] = match[2].replace(/^(["'])(.*)\1$/, '$2');
+    }
+    if (values.PRETTY_NAME) return values.PRETTY_NAME;
+    return values.NAME ? [values.NAME, values.VERSION].filter(Boolean).join(' ') : undefined;
+}
+
+/**
+ * 服务器节点悬停提示中的状态部分
+ * @param latencyMs 悬停时测得的往返延迟，未连接或测量失败时为 undefined
+ */
+export function formatStatusTooltip(status: ServerStatus, now: number, latencyMs?: number): string[] {
+    const lines = [`状态: ${SERVER_STATE_STYLES[status.state].label}`];
+    if (status.error && (status.state === 'authFailed' || status.state === 'unreachable')) {
+        lines.push(`错误: ${status.error}`);
+    }
+    if (status.state === 'connected') {
+        if (latencyMs !== undefined) lines.push(`延迟: ${latencyMs} ms`);
+        if (status.connectedAt !== undefined) lines.push(`在线时长: ${formatUptime(now - status.connectedAt)}`);
+    }
+    if (status.terminals > 0) lines.push(`终端: ${status.terminals} 个`);
+    if (status.system) lines.push(`系统: ${status.system}`);
+    return lines;
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { ConnectionEvent, ConnectionPool } from './connectionPool';
+import { classifyConnectionError, ServerStatus } from './serverStatus';
+
+/**
+ * 跟踪各服务器的连接状态、终端数量和操作系统，供文件树显示
+ */
+export class ServerStatusManager {
+    private static instance: ServerStatusManager;
+    private statuses: Map<string, ServerStatus> = new Map();
+    private interrupted: Set<string> = new Set(); // 就绪后意外断开、仍有终端等待重连的服务器
+    private _onDidChange: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+    readonly onDidChange: vscode.Event<string> = this._onDidChange.event;
+
+    private constructor() {
+        ConnectionPool.getInstance().onDidChangeConnection(event => this.handleConnectionEvent(event));
+    }
+
+    public static getInstance(): ServerStatusManager {
+        if (!ServerStatusManager.instance) {
+            ServerStatusManager.instance = new ServerStatusManager();
+        }
+        return ServerStatusManager.instance;
+    }
+
+    public getStatus(connectionString: string): ServerStatus | undefined {
+        return this.statuses.get(connectionString);
+    }
+
+    public setTerminalCount(connectionString: string, terminals: number): void {
+        if (!this.statuses.has(connectionString) && terminals === 0) return;
+        this.update(connectionString, { terminals });
+    }
+
+    public setSystem(connectionString: string, system: string | undefined): void {
+        this.update(connectionString, { system });
+    }
+
+    private handleConnectionEvent(event: ConnectionEvent): void {
+        const { connectionString } = event;
+        switch (event.type) {
+            case 'connecting':
+                this.update(connectionString, { state: this.interrupted.has(connectionString) ? 'reconnecting' : 'connecting' });
+                break;
+            case 'ready':
+                this.interrupted.delete(connectionString);
+                this.update(connectionString, { state: 'connected', connectedAt: Date.now(), error: undefined });
+                break;
+            case 'error':
+                this.update(connectionString, {
+                    state: classifyConnectionError(event.error || new Error('Connection failed')),
+                    connectedAt: undefined,
+                    error: event.error?.message
+                });
+                break;
+            case 'lost':
+                // 仍有终端持有连接时会自动重连，否则等到下次使用时再连接
+                if (event.inUse) this.interrupted.add(connectionString);
+                this.update(connectionString, {
+                    state: event.inUse ? 'reconnecting' : 'idle',
+                    connectedAt: undefined,
+                    error: event.error?.message
+                });
+                break;
+            case 'idle':
+                this.update(connectionString, { state: 'idle', connectedAt: undefined });
+                break;
+            case 'closed':
+                this.interrupted.delete(connectionString);
+                this.statuses.delete(connectionString);
+                this._onDidChange.fire(connectionString);
+                break;
+        }
+    }
+
+    private update(connectionString: string, changes: Partial<ServerStatus>): void {
+        const status = this.statuses.get(connectionString) || { state: 'connecting', terminals: 0 };
+        this.statuses.set(connectionString, { ...status, ...changes });
+        this._onDidChange.fire(connectionString);
+    }
+}
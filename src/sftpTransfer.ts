@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import { SFTPWrapper, Stats } from 'ssh2';
+
+// 每个 SFTP 读写请求的字节数（与 ssh2 的 fastGet/fastPut 相同）
+export const CHUNK_SIZE = 32 * 1024;
+// 同时等待响应的请求数：请求在连接上流水线传输，而不是每块等一次往返
+const MAX_PENDING_REQUESTS = 32;
+
+/**
+ * 传输过程中的进度回调和取消检查
+ */
+export interface TransferControl {
+    onProgress?: (transferred: number, total: number) => void;
+    isCancelled?: () => boolean;
+}
+
+/**
+ * 分块读取整个远程文件
+ */
+export async function readRemoteFile(sftp: SFTPWrapper, remotePath: string, control: TransferControl = {}): Promise<Buffer> {
+    return (await readRemoteTail(sftp, remotePath, Infinity, control)).content;
+}
+
+/**
+ * 分块读取远程文件的最后 maxBytes 字节
+ * @returns 读到的内容，truncated 表示文件前面还有未读取的部分
+ */
+export async function readRemoteTail(sftp: SFTPWrapper, remotePath: string, maxBytes: number, control: TransferControl = {}): Promise<{ content: Buffer; truncated: boolean }> {
+    const handle = await openRemote(sftp, remotePath, 'r');
+    try {
+        const { size } = await fstatRemote(sftp, handle);
+        const start = Math.max(0, size - maxBytes);
+        const content = Buffer.alloc(size - start);
+        const end = await runPipelined(start, size, control, (position, length) => readChunk(sftp, handle, content, position - start, length, position));
+        return { content: content.subarray(0, end - start), truncated: start > 0 };
+    } finally {
+        sftp.close(handle, () => undefined);
+    }
+}
+
+/**
+ * 分块写入远程文件（覆盖已有内容）
+ */
+export async function writeRemoteFile(sftp: SFTPWrapper, remotePath: string, content: Uint8Array, control: TransferControl = {}): Promise<void> {
+    const data = Buffer.from(content.buffer, content.byteOffset, content.byteLength);
+    const handle = await openRemote(sftp, remotePath, 'w');
+    try {
+        await runPipelined(0, data.length, control, (position, length) => new Promise<number>((resolve, reject) => {
+            sftp.write(handle, data, position, length, position, err => err ? reject(err) : resolve(length));
+        }));
+    } catch (err) {
+        sftp.close(handle, () => undefined);
+        throw err;
+    }
+    await closeRemote(sftp, handle);
+}
+
+/**
+ * 将远程文件下载到本地，边接收边写入，不在内存中保留整个文件；失败或取消时删除未写完的本地文件
+ */
+export async function downloadToLocal(sftp: SFTPWrapper, remotePath: string, localPath: string, control: TransferControl = {}): Promise<void> {
+    const handle = await openRemote(sftp, remotePath, 'r');
+    let local: fs.promises.FileHandle | undefined;
+    try {
+        const { size } = await fstatRemote(sftp, handle);
+        local = await fs.promises.open(localPath, 'w');
+        const output = local;
+        const end = await runPipelined(0, size, control, async (position, length) => {
+            const chunk = Buffer.alloc(length);
+            const bytesRead = await readChunk(sftp, handle, chunk, 0, length, position);
+            if (bytesRead > 0) await output.write(chunk, 0, bytesRead, position);
+            return bytesRead;
+        });
+        // 下载过程中文件变短时，去掉末尾未写入的部分
+        if (end < size) await output.truncate(end);
+        await output.close();
+    } catch (err) {
+        await local?.close().catch(() => undefined);
+        await fs.promises.unlink(localPath).catch(() => undefined);
+        throw err;
+    } finally {
+        sftp.close(handle, () => undefined);
+    }
+}
+
+/**
+ * 将本地文件分块上传到服务器；失败或取消时删除未写完的远程文件
+ */
+export async function uploadFromLocal(localPath: string, sftp: SFTPWrapper, remotePath: string, control: TransferControl = {}): Promise<void> {
+    const local = await fs.promises.open(localPath, 'r');
+    try {
+        const { size } = await local.stat();
+        const handle = await openRemote(sftp, remotePath, 'w');
+        try {
+            await runPipelined(0, size, control, async (position, length) => {
+                const chunk = Buffer.alloc(length);
+                const { bytesRead } = await local.read(chunk, 0, length, position);
+                if (bytesRead === 0) return 0;
+                await new Promise<void>((resolve, reject) => {
+                    sftp.write(handle, chunk, 0, bytesRead, position, err => err ? reject(err) : resolve());
+                });
+                return bytesRead;
+            });
+            await closeRemote(sftp, handle);
+        } catch (err) {
+            sftp.close(handle, () => undefined);
+            await new Promise<void>(resolve => sftp.unlink(remotePath, () => resolve()));
+            throw err;
+        }
+    } finally {
+        await local.close();
+    }
+}
+
+/**
+ * 将 [start, end) 分成若干块，同时发出多个请求。transfer 返回实际传输的字节数：
+ * 少于请求长度时补发剩余部分，为 0 时表示文件在传输过程中变短，之后的块不再请求
+ * @returns 实际传输到的位置
+ */
+function runPipelined(start: number, end: number, control: TransferControl, transfer: (position: number, length: number) => Promise<number>): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+        const ranges: Array<[number, number]> = [];
+        for (let position = start; position < end; position += CHUNK_SIZE) {
+            ranges.push([position, Math.min(CHUNK_SIZE, end - position)]);
+        }
+        let limit = end;
+        let pending = 0;
+        let transferred = 0;
+        let failed = false;
+
+        const next = () => {
+            if (failed) return;
+            if (control.isCancelled?.()) {
+                failed = true;
+                reject(new Error('传输已取消'));
+                return;
+            }
+            while (pending < MAX_PENDING_REQUESTS && ranges.length > 0) {
+                const [position, length] = ranges.shift()!;
+                if (position >= limit) continue;
+                pending++;
+                transfer(position, length).then(count => {
+                    pending--;
+                    if (count === 0) {
+                        limit = Math.min(limit, position);
+                    } else {
+                        transferred += count;
+                        control.onProgress?.(transferred, end - start);
+                        if (count < length) ranges.unshift([position + count, length - count]);
+                    }
+                    next();
+                }, err => {
+                    failed = true;
+                    reject(err);
+                });
+            }
+            if (pending === 0) resolve(limit);
+        };
+        next();
+    });
+}
+
+function readChunk(sftp: SFTPWrapper, handle: Buffer, buffer: Buffer, offset: number, length: number, position: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+        sftp.read(handle, buffer, offset, length, position, (err, bytesRead) => err ? reject(err) : resolve(bytesRead));
+    });
+}
+
+function openRemote(sftp: SFTPWrapper, remotePath: string, flags: 'r' | 'w'): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        sftp.open(remotePath, flags, (err, handle) => err ? reject(err) : resolve(handle));
+    });
+}
+
+function fstatRemote(sftp: SFTPWrapper, handle: Buffer): Promise<Stats> {
+    return new Promise((resolve, reject) => {
+        sftp.fstat(handle, (err, stats) => err ? reject(err) : resolve(stats));
+    });
+}
+
+function closeRemote(sftp: SFTPWrapper, handle: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+        sftp.close(handle, err => err ? reject(err) : resolve());
+    });
+}
@@ -1,6 +1,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { parseSSHConfigFile, expandTokens, ResolvedHostConfig, SshConfig } from './sshConfigParser';
+import { appendHostBlock, updateHostBlock, removeHostBlock, formatProxyJump, HostBlockChanges } from './sshConfigWriter';
+
+// ProxyJump 链的最大跳数，防止配置中出现循环引用
+const MAX_JUMP_DEPTH = 8;
 
 export interface ServerDetails {
     name: string;
@@ -9,62 +14,168 @@ export interface ServerDetails {
     username: string;
     password?: string;
     privateKeyPath?: string;
+    identityFiles?: string[];   // 按顺序尝试的全部私钥（已展开 ~ 和 % token）
+    options?: Record<string, string[]>; // ssh 配置中对该主机生效的全部指令（小写关键字）
+    jumpHosts?: ServerDetails[]; // 依次经过的跳板机（ProxyJump），第一个直接连接
+    proxyCommand?: string;       // ProxyCommand，已展开 %h/%p/%r 等 token
+    remotePath?: string;         // 连接后终端进入的目录（工作区服务器定义）
 }
 
+// 已提示过的主机配置错误，配置未修改时不重复提示
+let reportedErrors = new Set<string>();
+
 export async function readSSHConfig(): Promise<ServerDetails[]> {
     const sshConfigPath = getSSHConfigPath();
     if (!fs.existsSync(sshConfigPath)) return [];
 
-    const content = fs.readFileSync(sshConfigPath, 'utf-8');
-    const lines = content.split('\n');
+    const config = parseSSHConfigFile(sshConfigPath, { homeDir: getHomeDir() });
+    const { servers, errors } = resolveSSHConfigServers(config);
+    const newErrors = errors.filter(error => !reportedErrors.has(error));
+    reportedErrors = new Set(errors);
+    if (newErrors.length > 0) {
+        vscode.window.showWarningMessage(`SSH 配置中的主机有误，已跳过：${newErrors.join('；')}`);
+    }
+    return servers;
+}
+
+/**
+ * 解析配置中的全部主机；某个主机无法解析（如 ProxyJump 有误或存在循环）时只跳过该主机
+ */
+export function resolveSSHConfigServers(config: SshConfig): { servers: ServerDetails[]; errors: string[] } {
     const servers: ServerDetails[] = [];
-    let currentServer: Partial<ServerDetails> = {};
-
-    for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (trimmedLine.startsWith('Host ') && trimmedLine !== 'Host *') {
-            // 保存上一个服务器的信息
-            if (currentServer.name) {
-                servers.push(currentServer as ServerDetails);
-            }
-            // 开始解析新的服务器
-            currentServer = {
-                name: trimmedLine.substring(5).trim(),
-            };
-        } else if (currentServer.name) {
-            // 解析服务器属性
-            if (trimmedLine.startsWith('HostName ')) {
-                currentServer.host = trimmedLine.substring(9).trim();
-            } else if (trimmedLine.startsWith('Port ')) {
-                currentServer.port = parseInt(trimmedLine.substring(5).trim(), 10);
-            } else if (trimmedLine.startsWith('User ')) {
-                currentServer.username = trimmedLine.substring(5).trim();
-            } else if (trimmedLine.startsWith('IdentityFile ')) {
-                currentServer.privateKeyPath = trimmedLine.substring(13).trim();
-            }
+    const errors: string[] = [];
+    for (const alias of config.getHostAliases()) {
+        try {
+            servers.push(toServerDetails(config, config.resolve(alias)));
+        } catch (err) {
+            errors.push(`${alias}: ${err instanceof Error ? err.message : String(err)}`);
         }
     }
+    return { servers, errors };
+}
 
-    // 添加最后一个服务器
-    if (currentServer.name) {
-        servers.push(currentServer as ServerDetails);
+// 将 ssh -G 式的解析结果转换为 ServerDetails
+function toServerDetails(config: SshConfig, resolved: ResolvedHostConfig, depth: number = 0): ServerDetails {
+    // 显式配置的 IdentityFile 直接使用；否则与 OpenSSH 一样取第一个存在的默认私钥
+    const privateKeyPath = resolved.options.identityfile
+        ? resolved.identityFiles[0]
+        : resolved.identityFiles.find(file => fs.existsSync(file));
+
+    const details: ServerDetails = {
+        name: resolved.alias,
+        host: resolved.hostname,
+        port: resolved.port,
+        username: resolved.user,
+        privateKeyPath,
+        identityFiles: resolved.identityFiles,
+        options: resolved.options
+    };
+
+    const proxyJump = resolved.options.proxyjump?.[0];
+    const proxyCommand = resolved.options.proxycommand?.[0];
+    if (proxyJump && proxyJump.toLowerCase() !== 'none') {
+        if (depth >= MAX_JUMP_DEPTH) {
+            throw new Error(`ProxyJump 链过长或存在循环: ${resolved.alias}`);
+        }
+        details.jumpHosts = parseProxyJump(config, proxyJump, depth + 1);
+    } else if (proxyCommand && proxyCommand.toLowerCase() !== 'none') {
+        details.proxyCommand = expandTokens(proxyCommand, {
+            '%': '%',
+            h: resolved.hostname,
+            n: resolved.alias,
+            p: String(resolved.port),
+            r: resolved.user
+        });
     }
 
-    return servers;
+    return details;
 }
 
-export async function writeSSHConfig(serverDetails: ServerDetails): Promise<void> {
+/**
+ * 解析 ProxyJump 的值（[user@]host[:port] 或 ssh://user@host:port，逗号分隔），
+ * 每一跳与 ssh -J 一样按 ssh 配置解析，因此跳板机自身的 ProxyJump 也会展开
+ */
+function parseProxyJump(config: SshConfig, value: string, depth: number): ServerDetails[] {
+    const hops: ServerDetails[] = [];
+    for (const hop of value.split(',').map(h => h.trim()).filter(h => h)) {
+        const match = /^(?:ssh:\/\/)?(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/.exec(hop);
+        if (!match) {
+            throw new Error(`无法解析 ProxyJump: ${hop}`);
+        }
+        const [, user, host, port] = match;
+        const details = toServerDetails(config, config.resolve(host.replace(/^\[|\]$/g, '')), depth);
+        if (user) details.username = user;
+        if (port) details.port = parseInt(port, 10);
+        hops.push(details);
+    }
+    return hops;
+}
+
+/**
+ * 在 ssh 配置末尾追加 Host 块；传入多台服务器时一次写入（只备份一次）
+ */
+export async function writeSSHConfig(serverDetails: ServerDetails | ServerDetails[]): Promise<void> {
     const sshConfigPath = getSSHConfigPath();
-    let configLine = `\nHost ${serverDetails.name}\n  HostName ${serverDetails.host}\n  Port ${serverDetails.port}\n  User ${serverDetails.username}`;
+    let content = fs.existsSync(sshConfigPath) ? fs.readFileSync(sshConfigPath, 'utf-8') : '';
+    for (const details of Array.isArray(serverDetails) ? serverDetails : [serverDetails]) {
+        content = appendHostBlock(content, details);
+    }
+    writeConfigFile(sshConfigPath, content);
+}
+
+/**
+ * 就地修改服务器对应的 Host 块（支持重命名），只写入与原配置不同的字段
+ */
+export async function updateSSHConfig(original: ServerDetails, updated: ServerDetails): Promise<void> {
+    const configPath = findHostConfigFile(original.name);
+    const changes: HostBlockChanges = {};
+    if (updated.name !== original.name) changes.name = updated.name;
+    if (updated.host !== original.host) changes.hostName = updated.host;
+    if (updated.port !== original.port) changes.port = updated.port;
+    if (updated.username !== original.username) changes.user = updated.username;
+    if (updated.privateKeyPath !== original.privateKeyPath) changes.identityFile = updated.privateKeyPath || null;
+    const originalJump = formatProxyJump(original.jumpHosts);
+    const updatedJump = formatProxyJump(updated.jumpHosts);
+    if (updatedJump !== originalJump) changes.proxyJump = updatedJump || null;
 
-    if (serverDetails.privateKeyPath) {
-        configLine += `\n  IdentityFile ${serverDetails.privateKeyPath}`;
+    const content = fs.readFileSync(configPath, 'utf-8');
+    writeConfigFile(configPath, updateHostBlock(content, original.name, changes));
+}
+
+/**
+ * 从 ssh 配置中删除服务器对应的 Host 块
+ */
+export async function removeSSHConfig(name: string): Promise<void> {
+    const configPath = findHostConfigFile(name);
+    const content = fs.readFileSync(configPath, 'utf-8');
+    writeConfigFile(configPath, removeHostBlock(content, name));
+}
+
+// 查找定义该主机的配置文件（可能是通过 Include 引入的文件）
+function findHostConfigFile(name: string): string {
+    const sshConfigPath = getSSHConfigPath();
+    const config = parseSSHConfigFile(sshConfigPath, { homeDir: getHomeDir() });
+    const hostDirective = config.directives.find(d => d.keyword === 'host' && d.args.includes(name));
+    if (!hostDirective) {
+        throw new Error(`未在 SSH 配置中找到服务器 ${name}`);
     }
+    return hostDirective.file;
+}
 
-    fs.appendFileSync(sshConfigPath, configLine, 'utf-8');
+// 写入前先备份原文件，配置文件为团队共享的手写文件，任何修改都应可恢复
+function writeConfigFile(configPath: string, content: string): void {
+    if (fs.existsSync(configPath)) {
+        fs.copyFileSync(configPath, `${configPath}.bak`);
+    } else {
+        fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    }
+    fs.writeFileSync(configPath, content, 'utf-8');
 }
 
 function getSSHConfigPath(): string {
-    const homeDir = process.env.HOME || process.env.USERPROFILE;
-    return path.join(homeDir!, '.ssh', 'config');
+    return path.join(getHomeDir(), '.ssh', 'config');
+}
+
+function getHomeDir(): string {
+    return (process.env.HOME || process.env.USERPROFILE)!;
 }
\ No newline at end of file
@@ -0,0 +1,450 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+// 可出现多次、按出现顺序累积的指令（其余指令均为首次匹配生效）
+const MULTI_VALUE_KEYWORDS = new Set([
+    'identityfile',
+    'certificatefile',
+    'localforward',
+    'remoteforward',
+    'dynamicforward',
+    'sendenv'
+]);
+
+// 未配置 IdentityFile 时 OpenSSH 依次尝试的默认私钥
+const DEFAULT_IDENTITY_FILES = [
+    '~/.ssh/id_rsa',
+    '~/.ssh/id_ecdsa',
+    '~/.ssh/id_ecdsa_sk',
+    '~/.ssh/id_ed25519',
+    '~/.ssh/id_ed25519_sk',
+    '~/.ssh/id_xmss',
+    '~/.ssh/id_dsa'
+];
+
+// Include 最大嵌套深度，与 OpenSSH 保持一致
+const MAX_INCLUDE_DEPTH = 16;
+
+interface MatchCriterion {
+    name: string;
+    negate: boolean;
+    value?: string;
+}
+
+type SshConfigCondition =
+    | { type: 'host'; patterns: string[] }
+    | { type: 'match'; criteria: MatchCriterion[] };
+
+/**
+ * 展开 Include 之后的一条配置指令，conditions 为其所在的 Host/Match 块（含外层 Include 所在块），须全部满足才生效
+ */
+export interface SshConfigDirective {
+    keyword: string;
+    args: string[];
+    conditions: SshConfigCondition[];
+    file: string;
+    line: number;
+}
+
+export interface SshConfigParseOptions {
+    homeDir?: string;
+    localUser?: string;
+    localHostname?: string;
+}
+
+/**
+ * 按 ssh -G 的方式解析出的单个主机配置
+ */
+export interface ResolvedHostConfig {
+    alias: string;
+    hostname: string;
+    port: number;
+    user: string;
+    identityFiles: string[];
+    // 所有生效的指令，键为小写关键字，值为每次出现时的参数
+    options: Record<string, string[]>;
+}
+
+/**
+ * 解析后的 ssh 配置，可按主机别名解析出最终配置
+ */
+export class SshConfig {
+    constructor(
+        public readonly directives: SshConfigDirective[],
+        private readonly parseOptions: Required<SshConfigParseOptions>
+    ) { }
+
+    /**
+     * 列出配置中所有具体的主机别名（跳过含通配符或取反的模式）
+     */
+    public getHostAliases(): string[] {
+        const aliases: string[] = [];
+        const seen = new Set<string>();
+        for (const directive of this.directives) {
+            if (directive.keyword !== 'host') continue;
+            for (const pattern of directive.args) {
+                if (/[*?!]/.test(pattern) || seen.has(pattern)) continue;
+                seen.add(pattern);
+                aliases.push(pattern);
+            }
+        }
+        return aliases;
+    }
+
+    /**
+     * 解析指定主机别名的最终配置，规则与 OpenSSH 相同：
+     * 按文件顺序首次匹配生效，通配符块中的默认值被继承，IdentityFile 等多值指令累积
+     */
+    public resolve(alias: string): ResolvedHostConfig {
+        const options: Record<string, string[]> = {};
+        const needsFinalPass = this.directives.some(d =>
+            d.conditions.some(c => c.type === 'match' && c.criteria.some(m => m.name === 'final' || m.name === 'canonical'))
+        );
+
+        this.applyDirectives(alias, options, false);
+        if (needsFinalPass) {
+            this.applyDirectives(alias, options, true);
+        }
+
+        const { homeDir, localUser, localHostname } = this.parseOptions;
+        const hostname = options.hostname
+            ? expandTokens(options.hostname[0], { '%': '%', h: alias })
+            : alias;
+        const port = options.port ? parseInt(options.port[0], 10) : 22;
+        const user = options.user ? options.user[0] : localUser;
+
+        const tokens: Record<string, string> = {
+            '%': '%',
+            d: homeDir,
+            h: hostname,
+            i: typeof process.getuid === 'function' ? String(process.getuid()) : '',
+            L: localHostname.split('.')[0],
+            l: localHostname,
+            n: alias,
+            p: String(port),
+            r: user,
+            u: localUser
+        };
+        tokens.C = crypto.createHash('sha1')
+            .update(`${tokens.l}${tokens.h}${tokens.p}${tokens.r}`)
+            .digest('hex');
+
+        const identityFiles = (options.identityfile || DEFAULT_IDENTITY_FILES)
+            .filter(file => file.toLowerCase() !== 'none')
+            .map(file => expandTilde(expandTokens(file, tokens), homeDir));
+
+        return { alias, hostname, port, user, identityFiles, options };
+    }
+
+    private applyDirectives(alias: string, options: Record<string, string[]>, finalPass: boolean): void {
+        for (const directive of this.directives) {
+            // Host/Match 行本身只用于划分块
+            if (directive.keyword === 'host' || directive.keyword === 'match') continue;
+            if (!directive.conditions.every(condition => this.matchesCondition(condition, alias, options, finalPass))) {
+                continue;
+            }
+
+            const value = directive.args.join(' ');
+            if (MULTI_VALUE_KEYWORDS.has(directive.keyword)) {
+                const values = options[directive.keyword] || (options[directive.keyword] = []);
+                if (!values.includes(value)) values.push(value);
+            } else if (!options[directive.keyword]) {
+                options[directive.keyword] = [value];
+            }
+        }
+    }
+
+    private matchesCondition(
+        condition: SshConfigCondition,
+        alias: string,
+        options: Record<string, string[]>,
+        finalPass: boolean
+    ): boolean {
+        if (condition.type === 'host') {
+            return matchPatternList(alias, condition.patterns);
+        }
+
+        const currentHost = options.hostname ? expandTokens(options.hostname[0], { '%': '%', h: alias }) : alias;
+        const currentUser = options.user ? options.user[0] : this.parseOptions.localUser;
+
+        return condition.criteria.every(criterion => {
+            let matched: boolean;
+            switch (criterion.name) {
+                case 'all':
+                    matched = true;
+                    break;
+                case 'canonical':
+                case 'final':
+                    matched = finalPass;
+                    break;
+                case 'host':
+                    matched = matchPatternList(currentHost, splitPatternList(criterion.value));
+                    break;
+                case 'originalhost':
+                    matched = matchPatternList(alias, splitPatternList(criterion.value));
+                    break;
+                case 'user':
+                    matched = matchPatternList(currentUser, splitPatternList(criterion.value));
+                    break;
+                case 'localuser':
+                    matched = matchPatternList(this.parseOptions.localUser, splitPatternList(criterion.value));
+                    break;
+                default:
+                    // exec、localnetwork 等需要执行命令或探测网络的条件不支持，视为不匹配
+                    matched = false;
+                    break;
+            }
+            return criterion.negate ? !matched : matched;
+        });
+    }
+}
+
+/**
+ * 读取并解析 ssh 配置文件，展开其中的 Include
+ */
+export function parseSSHConfigFile(configPath: string, options: SshConfigParseOptions = {}): SshConfig {
+    const parseOptions = normalizeParseOptions(options);
+    const directives: SshConfigDirective[] = [];
+    if (fs.existsSync(configPath)) {
+        readConfigFile(configPath, [], parseOptions, directives, 0);
+    }
+    return new SshConfig(directives, parseOptions);
+}
+
+/**
+ * 解析 ssh 配置文本，configPath 用于确定 Include 相对路径的基准目录
+ */
+export function parseSSHConfig(content: string, configPath: string, options: SshConfigParseOptions = {}): SshConfig {
+    const parseOptions = normalizeParseOptions(options);
+    const directives: SshConfigDirective[] = [];
+    parseConfigContent(content, configPath, [], parseOptions, directives, 0);
+    return new SshConfig(directives, parseOptions);
+}
+
+/**
+ * 将一行配置拆分为关键字和参数，支持 "key value"、"key=value"、引号和行内注释
+ */
+export function tokenizeConfigLine(line: string): { keyword: string; args: string[] } | undefined {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return undefined;
+
+    const keywordMatch = /^([^\s=]+)\s*(?:=\s*|\s+|$)/.exec(trimmed);
+    if (!keywordMatch) return undefined;
+
+    const keyword = keywordMatch[1].toLowerCase();
+    const rest = trimmed.substring(keywordMatch[0].length);
+    const args: string[] = [];
+    let current = '';
+    let inToken = false;
+    let quote: string | undefined;
+
+    for (let i = 0; i < rest.length; i++) {
+        const char = rest[i];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+            inToken = true;
+        } else if (/\s/.test(char)) {
+            if (inToken) {
+                args.push(current);
+                current = '';
+                inToken = false;
+            }
+        } else if (char === '#' && !inToken) {
+            // 行内注释
+            break;
+        } else {
+            current += char;
+            inToken = true;
+        }
+    }
+    if (inToken) args.push(current);
+
+    return { keyword, args };
+}
+
+/**
+ * 判断主机名是否匹配单个模式（支持 * 和 ?，不区分大小写）
+ */
+export function matchPattern(value: string, pattern: string): boolean {
+    const regex = new RegExp('^' + pattern.split('').map(char => {
+        if (char === '*') return '.*';
+        if (char === '?') return '.';
+        return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }).join('') + '$', 'i');
+    return regex.test(value);
+}
+
+/**
+ * 判断是否匹配模式列表：任一正向模式匹配且没有取反模式匹配
+ */
+export function matchPatternList(value: string, patterns: string[]): boolean {
+    let matched = false;
+    for (const pattern of patterns) {
+        if (pattern.startsWith('!')) {
+            if (matchPattern(value, pattern.substring(1))) return false;
+        } else if (matchPattern(value, pattern)) {
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+/**
+ * 展开 % 开头的 token，未知 token 保持原样
+ */
+export function expandTokens(value: string, tokens: Record<string, string>): string {
+    return value.replace(/%(.)/g, (match, token: string) => tokens[token] !== undefined ? tokens[token] : match);
+}
+
+/**
+ * 展开路径开头的 ~
+ */
+export function expandTilde(value: string, homeDir: string): string {
+    if (value === '~') return homeDir;
+    if (value.startsWith('~/')) return path.join(homeDir, value.substring(2));
+    return value;
+}
+
+function normalizeParseOptions(options: SshConfigParseOptions): Required<SshConfigParseOptions> {
+    return {
+        homeDir: options.homeDir || os.homedir(),
+        localUser: options.localUser || os.userInfo().username,
+        localHostname: options.localHostname || os.hostname()
+    };
+}
+
+function splitPatternList(value?: string): string[] {
+    return (value || '').split(',').map(p => p.trim()).filter(p => p);
+}
+
+function readConfigFile(
+    configPath: string,
+    parentConditions: SshConfigCondition[],
+    parseOptions: Required<SshConfigParseOptions>,
+    directives: SshConfigDirective[],
+    depth: number
+): void {
+    let content: string;
+    try {
+        content = fs.readFileSync(configPath, 'utf-8');
+    } catch {
+        return;
+    }
+    parseConfigContent(content, configPath, parentConditions, parseOptions, directives, depth);
+}
+
+function parseConfigContent(
+    content: string,
+    configPath: string,
+    parentConditions: SshConfigCondition[],
+    parseOptions: Required<SshConfigParseOptions>,
+    directives: SshConfigDirective[],
+    depth: number
+): void {
+    let blockConditions: SshConfigCondition[] = [];
+    const lines = content.split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+        const tokens = tokenizeConfigLine(line);
+        if (!tokens) return;
+        const { keyword, args } = tokens;
+
+        if (keyword === 'host') {
+            blockConditions = [{ type: 'host', patterns: args }];
+        } else if (keyword === 'match') {
+            blockConditions = [{ type: 'match', criteria: parseMatchCriteria(args) }];
+        } else if (keyword === 'include') {
+            if (depth >= MAX_INCLUDE_DEPTH) return;
+            const conditions = [...parentConditions, ...blockConditions];
+            for (const arg of args) {
+                for (const includePath of expandIncludePath(arg, configPath, parseOptions.homeDir)) {
+                    readConfigFile(includePath, conditions, parseOptions, directives, depth + 1);
+                }
+            }
+            return;
+        }
+
+        directives.push({
+            keyword,
+            args,
+            conditions: [...parentConditions, ...blockConditions],
+            file: configPath,
+            line: index + 1
+        });
+    });
+}
+
+function parseMatchCriteria(args: string[]): MatchCriterion[] {
+    const criteria: MatchCriterion[] = [];
+    for (let i = 0; i < args.length; i++) {
+        let name = args[i].toLowerCase();
+        const negate = name.startsWith('!');
+        if (negate) name = name.substring(1);
+
+        if (name === 'all' || name === 'canonical' || name === 'final') {
+            criteria.push({ name, negate });
+        } else {
+            criteria.push({ name, negate, value: args[++i] });
+        }
+    }
+    return criteria;
+}
+
+/**
+ * 展开 Include 路径：相对路径相对于 ~/.ssh（用户配置）或配置文件所在目录，支持通配符
+ */
+function expandIncludePath(includePath: string, configPath: string, homeDir: string): string[] {
+    let fullPath = expandTilde(includePath, homeDir);
+    if (!path.isAbsolute(fullPath)) {
+        const userSshDir = path.join(homeDir, '.ssh');
+        const baseDir = path.resolve(path.dirname(configPath)).startsWith(path.resolve(userSshDir))
+            ? userSshDir
+            : path.dirname(configPath);
+        fullPath = path.join(baseDir, fullPath);
+    }
+    return expandGlob(fullPath);
+}
+
+function expandGlob(pattern: string): string[] {
+    if (!/[*?]/.test(pattern)) {
+        return fs.existsSync(pattern) ? [pattern] : [];
+    }
+
+    const parts = pattern.split(path.sep);
+    let candidates = [parts[0] || path.sep];
+    for (const part of parts.slice(1)) {
+        const next: string[] = [];
+        for (const dir of candidates) {
+            if (!/[*?]/.test(part)) {
+                next.push(path.join(dir, part));
+                continue;
+            }
+            let entries: string[];
+            try {
+                entries = fs.readdirSync(dir);
+            } catch {
+                continue;
+            }
+            entries
+                .filter(entry => !entry.startsWith('.') && matchPattern(entry, part))
+                .sort()
+                .forEach(entry => next.push(path.join(dir, entry)));
+        }
+        candidates = next;
+    }
+    return candidates.filter(candidate => {
+        try {
+            return fs.statSync(candidate).isFile();
+        } catch {
+            return false;
+        }
+    });
+}
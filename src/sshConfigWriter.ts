@@ -0,0 +1,240 @@
+import { tokenizeConfigLine } from './sshConfigParser';
+
+/**
+ * 对单个 Host 块的修改；未提供的字段保持不变，identityFile 为 null 表示删除该指令
+ */
+export interface HostBlockChanges {
+    name?: string;
+    hostName?: string;
+    port?: number;
+    user?: string;
+    identityFile?: string | null;
+    proxyJump?: string | null;
+}
+
+// 跳板机的最小描述，与 ServerDetails 兼容
+interface JumpHost {
+    name: string;
+    host: string;
+    port: number;
+    username: string;
+}
+
+interface HostBlock {
+    start: number; // Host 行的行号
+    end: number;   // 块结束行号（不含）
+}
+
+// 受管理指令的规范写法，新增指令时按此顺序与大小写写入
+const MANAGED_KEYWORDS: Array<[keyof HostBlockChanges, string]> = [
+    ['hostName', 'HostName'],
+    ['port', 'Port'],
+    ['user', 'User'],
+    ['identityFile', 'IdentityFile'],
+    ['proxyJump', 'ProxyJump']
+];
+
+/**
+ * 修改指定别名的 Host 块，仅改动涉及的行，其余注释、缩进和指令原样保留。
+ * 若该别名与其他别名共用一个 Host 行，则把它拆分为独立的块后再修改，避免影响其他主机。
+ */
+export function updateHostBlock(content: string, alias: string, changes: HostBlockChanges): string {
+    const { lines, eol } = splitLines(content);
+    const block = findHostBlock(lines, alias);
+    if (!block) {
+        throw new Error(`Host ${alias} not found in ssh config`);
+    }
+
+    const hostLine = lines[block.start];
+    const patterns = tokenizeConfigLine(hostLine)?.args || [];
+    const newName = changes.name || alias;
+
+    if (patterns.length === 1) {
+        const blockLines = lines.slice(block.start, block.end);
+        blockLines[0] = replaceHostPattern(hostLine, alias, newName);
+        lines.splice(block.start, block.end - block.start, ...applyChanges(blockLines, changes));
+    } else {
+        // 共用 Host 行：从原行中移除该别名，并在原块之后插入该别名的独立副本
+        const indent = /^\s*/.exec(hostLine)![0];
+        const copy = lines.slice(block.start, block.end);
+        copy[0] = `${indent}Host ${quoteValue(newName)}`;
+        const separated = applyChanges(copy, changes);
+        lines[block.start] = replaceHostPattern(hostLine, alias, null);
+        lines.splice(block.end, 0, '', ...separated);
+    }
+
+    return lines.join(eol);
+}
+
+/**
+ * 删除指定别名的 Host 块；若该别名与其他别名共用 Host 行，只从该行中移除此别名
+ */
+export function removeHostBlock(content: string, alias: string): string {
+    const { lines, eol } = splitLines(content);
+    const block = findHostBlock(lines, alias);
+    if (!block) {
+        throw new Error(`Host ${alias} not found in ssh config`);
+    }
+
+    const patterns = tokenizeConfigLine(lines[block.start])?.args || [];
+    if (patterns.length > 1) {
+        lines[block.start] = replaceHostPattern(lines[block.start], alias, null);
+        return lines.join(eol);
+    }
+
+    let start = block.start;
+    // 避免删除后留下连续的空行
+    const nextLine = lines[block.end];
+    if (start > 0 && lines[start - 1].trim() === '' && (nextLine === undefined || nextLine.trim() === '')) {
+        start--;
+    }
+    lines.splice(start, block.end - start);
+    return lines.join(eol);
+}
+
+/**
+ * 在配置末尾追加新的 Host 块，沿用文件原有的换行符
+ */
+export function appendHostBlock(
+    content: string,
+    details: { name: string; host: string; port: number; username: string; privateKeyPath?: string; jumpHosts?: JumpHost[] }
+): string {
+    const { lines, eol } = splitLines(content);
+    const block = [
+        `Host ${quoteValue(details.name)}`,
+        `  HostName ${details.host}`,
+        `  Port ${details.port}`,
+        `  User ${details.username}`
+    ];
+    if (details.privateKeyPath) {
+        block.push(`  IdentityFile ${quoteValue(details.privateKeyPath)}`);
+    }
+    const proxyJump = formatProxyJump(details.jumpHosts);
+    if (proxyJump) {
+        block.push(`  ProxyJump ${proxyJump}`);
+    }
+
+    // 去掉末尾空行后用一个空行分隔
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+        lines.pop();
+    }
+    const result = lines.length > 0 ? [...lines, '', ...block] : block;
+    return result.join(eol) + eol;
+}
+
+/**
+ * 将跳板机列表格式化为 ProxyJump 的值：ssh 配置中的别名直接引用，其余写成 user@host[:port]
+ */
+export function formatProxyJump(jumpHosts?: JumpHost[]): string {
+    return (jumpHosts || []).map(hop => {
+        if (hop.name && hop.name !== hop.host) return hop.name;
+        return `${hop.username}@${hop.host}${hop.port !== 22 ? `:${hop.port}` : ''}`;
+    }).join(',');
+}
+
+function splitLines(content: string): { lines: string[]; eol: string } {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    return { lines: content.split(/\r?\n/), eol };
+}
+
+/**
+ * 查找包含指定别名的 Host 块；块末尾的空行和注释归属于下一个块
+ */
+function findHostBlock(lines: string[], alias: string): HostBlock | undefined {
+    const start = lines.findIndex(line => {
+        const tokens = tokenizeConfigLine(line);
+        return tokens?.keyword === 'host' && tokens.args.includes(alias);
+    });
+    if (start === -1) return undefined;
+
+    let end = start + 1;
+    while (end < lines.length) {
+        const keyword = tokenizeConfigLine(lines[end])?.keyword;
+        if (keyword === 'host' || keyword === 'match') break;
+        end++;
+    }
+    while (end - 1 > start && isBlankOrComment(lines[end - 1])) {
+        end--;
+    }
+    return { start, end };
+}
+
+function applyChanges(blockLines: string[], changes: HostBlockChanges): string[] {
+    const result = [...blockLines];
+    const directiveIndexes = result
+        .map((line, index) => index)
+        .filter(index => index > 0 && !isBlankOrComment(result[index]));
+    const indent = directiveIndexes.length > 0 ? /^\s*/.exec(result[directiveIndexes[0]])![0] : '  ';
+    const additions: string[] = [];
+
+    for (const [field, keyword] of MANAGED_KEYWORDS) {
+        const value = changes[field];
+        if (value === undefined) continue;
+
+        const index = result.findIndex((line, i) => i > 0 && tokenizeConfigLine(line)?.keyword === keyword.toLowerCase());
+        if (value === null) {
+            if (index !== -1) result.splice(index, 1);
+        } else if (index !== -1) {
+            result[index] = replaceDirectiveValue(result[index], String(value));
+        } else {
+            additions.push(`${indent}${keyword} ${quoteValue(String(value))}`);
+        }
+    }
+
+    if (additions.length > 0) {
+        let insertAt = result.length;
+        while (insertAt > 1 && isBlankOrComment(result[insertAt - 1])) {
+            insertAt--;
+        }
+        result.splice(insertAt, 0, ...additions);
+    }
+    return result;
+}
+
+/**
+ * 替换指令的值，保留原有缩进、关键字大小写、分隔符和行内注释
+ */
+function replaceDirectiveValue(line: string, value: string): string {
+    const match = /^(\s*\S+?)(\s*=\s*|\s+)(.*)$/.exec(line);
+    if (!match) return line;
+    const [, prefix, separator, rest] = match;
+    const comment = /(\s+#.*)$/.exec(rest);
+    return `${prefix}${separator}${quoteValue(value)}${comment ? comment[1] : ''}`;
+}
+
+/**
+ * 替换或移除 Host 行中的某个别名，其余模式与空白保持不变
+ */
+function replaceHostPattern(line: string, alias: string, replacement: string | null): string {
+    const keywordMatch = /^(\s*\S+?)(\s*=\s*|\s+)/.exec(line);
+    if (!keywordMatch) return line;
+
+    const head = keywordMatch[0];
+    const rest = line.substring(head.length);
+    const tokenRegex = /"[^"]*"|'[^']*'|[^\s#]+/g;
+    let token: RegExpExecArray | null;
+    while ((token = tokenRegex.exec(rest)) !== null) {
+        const unquoted = token[0].replace(/^["']|["']$/g, '');
+        if (unquoted !== alias) continue;
+
+        const before = rest.substring(0, token.index);
+        const after = rest.substring(token.index + token[0].length);
+        if (replacement !== null) {
+            return head + before + quoteValue(replacement) + after;
+        }
+        // 移除别名及其一侧的空白
+        return before.length > 0
+            ? head + before.replace(/\s+$/, '') + after
+            : head + after.replace(/^\s+/, '');
+    }
+    return line;
+}
+
+function isBlankOrComment(line: string): boolean {
+    const trimmed = line.trim();
+    return trimmed === '' || trimmed.startsWith('#');
+}
+
+function quoteValue(value: string): string {
+    return /\s/.test(value) ? `"${value}"` : value;
+}
@@ -1,9 +1,25 @@
 import * as vscode from 'vscode';
-import { Client } from 'ssh2';
-import { readFileSync } from 'fs';
+import * as path from 'path';
+import { FileEntryWithStats, SFTPWrapper, Stats } from 'ssh2';
 import { StarsfallTreeDataProvider } from './starsfallTreeDataProvider';
-
-export class SshFileSystemProvider implements vscode.FileSystemProvider {
+import { ConnectionPool } from './connectionPool';
+import { classifyFileError, formatBytes, joinRemotePath } from './remoteFiles';
+import { RemoteChange, RemoteChangeType } from './remoteWatch';
+import { RemoteWatcher } from './remoteWatcher';
+import { TAIL_SCHEME } from './remoteTailProvider';
+import { withTransferProgress } from './remoteTransfer';
+import { readRemoteFile, TransferControl, writeRemoteFile } from './sftpTransfer';
+
+const CHANGE_TYPES: Record<RemoteChangeType, vscode.FileChangeType> = {
+    created: vscode.FileChangeType.Created,
+    changed: vscode.FileChangeType.Changed,
+    deleted: vscode.FileChangeType.Deleted
+};
+
+// readDirectory 得到的属性在这段时间内直接用于 stat（毫秒）
+const STAT_CACHE_TTL = 2000;
+
+export class SshFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
     private _emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
     private _bufferedEvents: vscode.FileChangeEvent[] = [];
     private _fireSoonHandle?: NodeJS.Timer;
@@ -11,136 +27,183 @@ export class SshFileSystemProvider implements vscode.FileSystemProvider {
 
     readonly onDidChangeFile = this._emitter.event;
 
-    private _watchers = new Map<string, NodeJS.Timer>();
+    private watchers = new Map<string, RemoteWatcher>();
     private treeDataProvider: StarsfallTreeDataProvider;
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+    // 资源管理器列出目录后会逐个 stat 子项，复用 readdir 返回的属性以免每项一次往返
+    private statCache = new Map<string, { stat: vscode.FileStat; expires: number }>();
+    // 已同意完整打开的大文件，文档关闭前重新读取（如文件在服务器上被修改）时不再询问
+    private largeFilesAllowed = new Set<string>();
+    private largeFilePrompts = new Map<string, Promise<boolean>>();
+    private documentCloseListener: vscode.Disposable;
 
     constructor(treeDataProvider: StarsfallTreeDataProvider) {
         this.treeDataProvider = treeDataProvider;
         this.logChannel = vscode.window.createOutputChannel('SSH FS');
+        this.documentCloseListener = vscode.workspace.onDidCloseTextDocument(document => this.largeFilesAllowed.delete(document.uri.toString()));
+    }
+
+    public dispose(): void {
+        this.documentCloseListener.dispose();
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers.clear();
+        if (this._fireSoonHandle) clearTimeout(this._fireSoonHandle);
+        this._fireSoonHandle = undefined;
+        this._emitter.dispose();
+        this.logChannel.dispose();
     }
 
+    /**
+     * 同一服务器上的所有监视共用一个 RemoteWatcher（inotifywait 或批量轮询）
+     */
     watch(uri: vscode.Uri, options: { recursive: boolean; excludes: string[] }): vscode.Disposable {
         const { connectionString, filePath } = this.parseUri(uri);
-        const watcherKey = `${connectionString}:${filePath}`;
-
-        // 如果已经存在监视器，先清除
-        if (this._watchers.has(watcherKey)) {
-            clearInterval(this._watchers.get(watcherKey));
-            this._watchers.delete(watcherKey);
+        let watcher = this.watchers.get(connectionString);
+        if (!watcher) {
+            watcher = new RemoteWatcher(connectionString, changes => this.handleRemoteChanges(uri, changes), this.logChannel);
+            this.watchers.set(connectionString, watcher);
         }
 
-        // 初始化文件状态
-        let lastStats: vscode.FileStat | null = null;
-
-        // 创建轮询定时器
-        const intervalId = setInterval(async () => {
-            try {
-                const currentStats = await this.stat(uri);
-
-                if (lastStats) {
-                    // 检查文件是否变化
-                    if (currentStats.mtime !== lastStats.mtime || currentStats.size !== lastStats.size) {
-                        this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
-                    }
-                }
-                lastStats = currentStats;
-            } catch (err) {
-                console.error(`Failed to poll file stats: ${err instanceof Error ? err.message : 'Unknown error'}`);
-            }
-        }, 5000); // 每5秒检查一次
-
-        this._watchers.set(watcherKey, intervalId);
-
+        const registration = watcher.add({ path: filePath, recursive: options.recursive, excludes: options.excludes });
+        const owner = watcher;
         return new vscode.Disposable(() => {
-            clearInterval(intervalId);
-            this._watchers.delete(watcherKey);
+            registration.dispose();
+            if (owner.isEmpty() && this.watchers.get(connectionString) === owner) {
+                owner.dispose();
+                this.watchers.delete(connectionString);
+            }
         });
     }
 
     async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
         const { connectionString, filePath } = this.parseUri(uri);
-        const conn = new Client();
-
-        return new Promise((resolve, reject) => {
-            conn.on('ready', () => {
-                conn.sftp((err, sftp) => {
-                    if (err) return reject(err);
-
-                    sftp.stat(filePath, (err, stats) => {
-                        conn.end();
-                        if (err) return reject(err);
-
-                        resolve({
-                            type: stats.isDirectory() ? vscode.FileType.Directory : vscode.FileType.File,
-                            ctime: stats.atime,
-                            mtime: stats.mtime,
-                            size: stats.size
-                        });
-                    });
-                });
-            }).connect(this.getSshConfig(connectionString));
-        });
+        const cached = this.statCache.get(uri.toString());
+        if (cached && cached.expires > Date.now()) return cached.stat;
+
+        return this.run(uri, () => this.connectionPool.withSftp(connectionString, async sftp => {
+            const stats = await this.sftpStat(sftp, 'lstat', filePath);
+            if (!stats.isSymbolicLink()) return this.toFileStat(stats);
+            // 符号链接：类型取目标的类型，目标不存在时按文件处理
+            const target = await this.sftpStat(sftp, 'stat', filePath).catch(() => undefined);
+            return this.toFileStat(target || stats, true);
+        }));
     }
 
     async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
         const { connectionString, filePath } = this.parseUri(uri);
-        const files = await this.listRemoteFiles(connectionString, filePath);
-        return files.map(file => [
-            file.filename,
-            file.longname.startsWith('d') ? vscode.FileType.Directory : vscode.FileType.File
-        ]);
+        return this.run(uri, () => this.connectionPool.withSftp(connectionString, async sftp => {
+            const files = await new Promise<FileEntryWithStats[]>((resolve, reject) => {
+                sftp.readdir(filePath, (err, list) => err ? reject(err) : resolve(list));
+            });
+            this.pruneStatCache();
+            const expires = Date.now() + STAT_CACHE_TTL;
+            return Promise.all(files.map(async (file): Promise<[string, vscode.FileType]> => {
+                const childPath = joinRemotePath(filePath, file.filename);
+                let stat: vscode.FileStat;
+                if (file.attrs.isSymbolicLink()) {
+                    const target = await this.sftpStat(sftp, 'stat', childPath).catch(() => undefined);
+                    stat = this.toFileStat(target || file.attrs, true);
+                } else {
+                    stat = this.toFileStat(file.attrs);
+                }
+                this.statCache.set(uri.with({ path: childPath }).toString(), { stat, expires });
+                return [file.filename, stat.type];
+            }));
+        }));
     }
 
     async readFile(uri: vscode.Uri): Promise<Uint8Array> {
         const { connectionString, filePath } = this.parseUri(uri);
-        const privateKeyPath = this.getPrivateKeyPath(connectionString);
-        const content = await this.readRemoteFile(connectionString, filePath, privateKeyPath);
-        return Buffer.from(content);
+        const { size } = await this.stat(uri);
+        if (!await this.confirmLargeFile(uri, size)) throw new vscode.CancellationError();
+        return withTransferProgress(`正在读取 ${path.posix.basename(filePath)}`, size, true, control =>
+            this.run(uri, () => this.readRemoteFile(connectionString, filePath, control)));
     }
 
+    /**
+     * 读取超过 starsfall.files.largeFileThreshold 的文件前询问：仍然打开、只打开末尾或下载。
+     * 资源管理器、快速打开和文件树打开文件都经过这里，同一文件同时被多次读取时只询问一次
+     * @returns 是否继续读取整个文件
+     */
+    private confirmLargeFile(uri: vscode.Uri, size: number): Promise<boolean> {
+        const key = uri.toString();
+        const thresholdMb = vscode.workspace.getConfiguration('starsfall').get<number>('files.largeFileThreshold', 50);
+        if (thresholdMb <= 0 || size <= thresholdMb * 1024 * 1024 || this.largeFilesAllowed.has(key)) {
+            return Promise.resolve(true);
+        }
+
+        let pending = this.largeFilePrompts.get(key);
+        if (!pending) {
+            pending = this.promptLargeFile(uri, size).finally(() => this.largeFilePrompts.delete(key));
+            this.largeFilePrompts.set(key, pending);
+        }
+        return pending;
+    }
+
+    private async promptLargeFile(uri: vscode.Uri, size: number): Promise<boolean> {
+        const choice = await vscode.window.showWarningMessage(
+            `${path.posix.basename(uri.path)} 大小为 ${formatBytes(size)}，完整打开可能需要较长时间。`,
+            { modal: true },
+            '仍然打开',
+            '只打开末尾',
+            '下载'
+        );
+        if (choice === '仍然打开') {
+            this.largeFilesAllowed.add(uri.toString());
+            return true;
+        }
+        // 本次读取以取消结束，末尾文档和下载在读取返回后另行打开
+        if (choice === '只打开末尾') {
+            vscode.window.showTextDocument(uri.with({ scheme: TAIL_SCHEME })).then(undefined, err => {
+                vscode.window.showErrorMessage(`打开文件失败: ${err instanceof Error ? err.message : String(err)}`);
+            });
+        } else if (choice === '下载') {
+            vscode.commands.executeCommand('starsfall.downloadRemoteFile', { resourceUri: uri });
+        }
+        return false;
+    }
+
+    /**
+     * 保存中途取消会在服务器上留下不完整的文件，因此大文件保存只显示进度，不可取消
+     */
     async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
         const { connectionString, filePath } = this.parseUri(uri);
-        await this.writeRemoteFile(connectionString, filePath, Buffer.from(content));
-        this._fireSoon({ type: vscode.FileChangeType.Changed, uri });
+        this.invalidateStats(uri);
+        const existing = await this.statIfExists(uri);
+        if (!existing && !options.create) throw vscode.FileSystemError.FileNotFound(uri);
+        if (existing && existing.type & vscode.FileType.Directory) throw vscode.FileSystemError.FileIsADirectory(uri);
+        if (existing && options.create && !options.overwrite) throw vscode.FileSystemError.FileExists(uri);
+
+        await withTransferProgress(`正在保存 ${path.posix.basename(filePath)}`, content.byteLength, false, control =>
+            this.run(uri, () => this.writeRemoteFile(connectionString, filePath, content, control)));
+        this.invalidateStats(uri);
+        this._fireSoon({ type: existing ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri });
     }
 
     async createDirectory(uri: vscode.Uri): Promise<void> {
         const { connectionString, filePath } = this.parseUri(uri);
-        const conn = new Client();
+        this.invalidateStats(uri);
 
-        return new Promise((resolve, reject) => {
-            conn.on('ready', () => {
-                conn.sftp((err, sftp) => {
-                    if (err) return reject(err);
-                    sftp.mkdir(filePath, err => {
-                        conn.end();
-                        err ? reject(err || new Error('Unknown error')) : resolve(undefined);
-                    });
-                });
-            }).connect(this.getSshConfig(connectionString));
-        });
+        return this.run(uri, () => this.connectionPool.withSftp(connectionString, sftp => new Promise((resolve, reject) => {
+            sftp.mkdir(filePath, err => {
+                err ? reject(err || new Error('Unknown error')) : resolve(undefined);
+            });
+        })));
     }
 
     async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
         const { connectionString, filePath } = this.parseUri(uri);
-        const conn = new Client();
-
-        return new Promise((resolve, reject) => {
-            conn.on('ready', () => {
-                conn.sftp((err, sftp) => {
-                    if (err) return reject(err);
+        this.invalidateStats(uri);
 
-                    const deleteFn = options.recursive ?
-                        (path: string, cb: (err?: Error) => void) => this.deleteRecursive(sftp, path, cb) :
-                        (path: string, cb: (err?: Error | null) => void) => sftp.unlink(path, cb);
+        return this.run(uri, () => this.connectionPool.withSftp(connectionString, sftp => new Promise((resolve, reject) => {
+            const deleteFn = options.recursive ?
+                (path: string, cb: (err?: Error) => void) => this.deleteRecursive(sftp, path, cb) :
+                (path: string, cb: (err?: Error | null) => void) => sftp.unlink(path, cb);
 
-                    deleteFn(filePath, err => {
-                        conn.end();
-                        err ? reject(err || new Error('Unknown error')) : resolve(undefined);
-                    });
-                });
-            }).connect(this.getSshConfig(connectionString));
-        });
+            deleteFn(filePath, err => {
+                err ? reject(err || new Error('Unknown error')) : resolve(undefined);
+            });
+        })));
     }
 
     async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
@@ -151,18 +214,20 @@ export class SshFileSystemProvider implements vscode.FileSystemProvider {
             throw new Error('Cannot rename across different SSH connections');
         }
 
-        const conn = new Client();
-        return new Promise((resolve, reject) => {
-            conn.on('ready', () => {
-                conn.sftp((err, sftp) => {
-                    if (err) return reject(err);
-                    sftp.rename(oldPath, newPath, err => {
-                        conn.end();
-                        err ? reject(err || new Error('Unknown error')) : resolve(undefined);
-                    });
-                });
-            }).connect(this.getSshConfig(oldConn));
-        });
+        this.invalidateStats(oldUri);
+        this.invalidateStats(newUri);
+        const existing = await this.statIfExists(newUri);
+        if (existing && !options.overwrite) throw vscode.FileSystemError.FileExists(newUri);
+
+        // SFTP 的 rename 不覆盖已有文件，覆盖时使用 OpenSSH 的 posix-rename 扩展
+        return this.run(oldUri, () => this.connectionPool.withSftp(oldConn, sftp => new Promise((resolve, reject) => {
+            const callback = (err?: Error | null) => err ? reject(err) : resolve(undefined);
+            if (existing) {
+                sftp.ext_openssh_rename(oldPath, newPath, callback);
+            } else {
+                sftp.rename(oldPath, newPath, callback);
+            }
+        })));
     }
 
     private deleteRecursive(sftp: any, path: string, callback: (err?: Error) => void): void {
@@ -195,10 +260,81 @@ export class SshFileSystemProvider implements vscode.FileSystemProvider {
         });
     }
 
+    /**
+     * 执行 SFTP 操作，将失败转换为 vscode.FileSystemError，
+     * 以便资源管理器、快速打开等区分文件不存在、无权限和服务器不可用
+     */
+    private async run<T>(uri: vscode.Uri, action: () => Promise<T>): Promise<T> {
+        try {
+            return await action();
+        } catch (err) {
+            if (err instanceof vscode.FileSystemError || !(err instanceof Error)) throw err;
+            switch (classifyFileError(err as Error & { code?: unknown; level?: string })) {
+                case 'notFound': throw vscode.FileSystemError.FileNotFound(uri);
+                case 'noPermissions': throw vscode.FileSystemError.NoPermissions(uri);
+                case 'unavailable': throw vscode.FileSystemError.Unavailable(`${uri.authority}: ${err.message}`);
+                default: throw err;
+            }
+        }
+    }
+
+    // 文件不存在时返回 undefined，其他错误照常抛出
+    private statIfExists(uri: vscode.Uri): Promise<vscode.FileStat | undefined> {
+        return this.stat(uri).catch(err => {
+            if (err instanceof vscode.FileSystemError && err.code === 'FileNotFound') return undefined;
+            throw err;
+        });
+    }
+
+    private sftpStat(sftp: SFTPWrapper, method: 'stat' | 'lstat', filePath: string): Promise<Stats> {
+        return new Promise((resolve, reject) => {
+            sftp[method](filePath, (err, stats) => err ? reject(err) : resolve(stats));
+        });
+    }
+
+    private toFileStat(stats: Stats, symbolicLink: boolean = false): vscode.FileStat {
+        const type = stats.isDirectory() ? vscode.FileType.Directory : vscode.FileType.File;
+        return {
+            type: symbolicLink ? type | vscode.FileType.SymbolicLink : type,
+            // SFTP 时间为秒，VS Code 使用毫秒；SFTP 不提供创建时间，以修改时间代替
+            ctime: stats.mtime * 1000,
+            mtime: stats.mtime * 1000,
+            size: stats.size
+        };
+    }
+
+    private pruneStatCache(): void {
+        const now = Date.now();
+        this.statCache.forEach((cached, key) => {
+            if (cached.expires <= now) this.statCache.delete(key);
+        });
+    }
+
+    // 修改文件或目录后清除它及其子项的缓存属性
+    private invalidateStats(uri: vscode.Uri): void {
+        const key = uri.toString();
+        for (const cached of Array.from(this.statCache.keys())) {
+            if (cached === key || cached.startsWith(`${key}/`)) this.statCache.delete(cached);
+        }
+    }
+
+    private handleRemoteChanges(uri: vscode.Uri, changes: RemoteChange[]): void {
+        for (const change of changes) {
+            const changedUri = uri.with({ path: change.path });
+            this.invalidateStats(changedUri);
+            this._fireSoon({ type: CHANGE_TYPES[change.type], uri: changedUri });
+        }
+    }
+
     private _fireSoon(event: vscode.FileChangeEvent): void {
+        // 合并同一批中重复的事件（如 inotify 的 MODIFY 和 CLOSE_WRITE）
+        const key = event.uri.toString();
+        if (this._bufferedEvents.some(buffered => buffered.type === event.type && buffered.uri.toString() === key)) return;
         this._bufferedEvents.push(event);
-        if (this._fireSoonHandle) clearTimeout(this._fireSoonHandle);
+        // 从第一个事件起计时，文件被持续写入时也能按时发出
+        if (this._fireSoonHandle) return;
         this._fireSoonHandle = setTimeout(() => {
+            this._fireSoonHandle = undefined;
             this._emitter.fire(this._bufferedEvents);
             this._bufferedEvents = [];
         }, 5);
@@ -211,115 +347,26 @@ export class SshFileSystemProvider implements vscode.FileSystemProvider {
         };
     }
 
-    private getSshConfig(connectionString: string): any {
-        const [username, hostPort] = connectionString.split('@');
-        const [host, port] = hostPort.split(':');
-        const privateKeyPath = this.getPrivateKeyPath(connectionString);
-        return {
-            host,
-            port: port ? parseInt(port) : 22,
-            username,
-            privateKey: privateKeyPath ? readFileSync(privateKeyPath) : undefined,
-            //passphrase: '你的密钥密码（如果有）',
-            readyTimeout: 200000,
-            //tryKeyboard: true
-        };
-    }
-
-    private getPrivateKeyPath(connectionString: string): string | undefined {
-        return this.treeDataProvider.getPrivateKeyPath(connectionString);
-    }
-
-    private async readRemoteFile(connectionString: string, filePath: string, privateKeyPath?: string): Promise<string> {
-        // const [username, hostPort] = connectionString.split('@');
-        // const [host, portStr] = hostPort.split(':');
-        // const port = portStr ? parseInt(portStr) : 22;
-        const conn = new Client();
-        return new Promise((resolve, reject) => {
-            // 统一处理连接关闭
-            const cleanup = () => {
-                if (conn) {
-                    conn.end();
-                    conn.removeAllListeners();
-                }
-            };
-            conn.on('ready', () => {
-                conn.sftp((err, sftp) => {
-                    if (err) {
-                        this.logChannel.appendLine(`[ERROR] SFTP 连接失败: ${err.message}`);
-                        cleanup();
-                        return reject(err);
-                    }
-
-                    sftp.readFile(filePath, (err, data) => {
-                        cleanup(); // 确保连接关闭
-                        if (err) {
-                            this.logChannel.appendLine(`[ERROR] 读取文件失败: ${filePath}, ${err.message}`);
-                            reject(err);
-                        } else {
-                            this.logChannel.appendLine(`[INFO] 读取文件成功: ${filePath}, 大小: ${data.length} bytes`);
-                            // 仅对文本文件调用 toString()
-                            resolve(
-                                this.isTextFile(data) ? data.toString() : data.toString('binary')
-                            );
-                        }
-                    });
-                });
-            }).on('error', (err) => {
-                this.logChannel.appendLine(`[ERROR] SSH 连接失败详情: ${JSON.stringify({
-                    host: this.getSshConfig(connectionString).host,
+    // 分块流水线读取，原样返回文件的字节，由 VS Code 按编码解码
+    private async readRemoteFile(connectionString: string, filePath: string, control: TransferControl): Promise<Uint8Array> {
+        try {
+            const data = await this.connectionPool.withSftp(connectionString, sftp => readRemoteFile(sftp, filePath, control));
+            this.logChannel.appendLine(`[INFO] 读取文件成功: ${filePath}, 大小: ${data.length} bytes`);
+            return data;
+        } catch (err) {
+            if (err instanceof Error) {
+                this.logChannel.appendLine(`[ERROR] 读取文件失败: ${JSON.stringify({
+                    connectionString,
+                    filePath,
                     error: err.message,
                     stack: err.stack // 打印调用栈
                 })}`);
-                cleanup();
-                reject(err);
-            }).connect(this.getSshConfig(connectionString));
-        });
-    }
-
-
-    // 辅助方法：检测是否为文本文件
-    private isTextFile(buffer: Buffer): boolean {
-        const binaryThreshold = 0.3;
-        let nonTextChars = 0;
-        for (let i = 0; i < Math.min(buffer.length, 4096); i++) {
-            if (buffer[i] === 0 || buffer[i] > 127) nonTextChars++;
+            }
+            throw err;
         }
-        return nonTextChars / Math.min(buffer.length, 4096) < binaryThreshold;
-    }
-    private async writeRemoteFile(connectionString: string, filePath: string, content: Buffer): Promise<void> {
-        const conn = new Client();
-        return new Promise((resolve, reject) => {
-            conn.on('ready', () => {
-                conn.sftp((err, sftp) => {
-                    if (err) return reject(err);
-                    sftp.writeFile(filePath, content, err => {
-                        conn.end();
-                        err ? reject(err || new Error('Unknown error')) : resolve(undefined);
-                    });
-                });
-            }).on('error', (err) => {
-                this.logChannel.appendLine(`[ERROR] SSH 连接失败: ${err.message}`);
-                reject(err);
-            }).connect(this.getSshConfig(connectionString));
-        });
     }
 
-    private async listRemoteFiles(connectionString: string, path: string): Promise<Array<{ filename: string; longname: string }>> {
-        const conn = new Client();
-        return new Promise((resolve, reject) => {
-            conn.on('ready', () => {
-                conn.sftp((err, sftp) => {
-                    if (err) return reject(err);
-                    sftp.readdir(path, (err, files) => {
-                        conn.end();
-                        err ? reject(err) : resolve(files);
-                    });
-                });
-            }).on('error', (err) => {
-                this.logChannel.appendLine(`[ERROR] SSH 连接失败: ${err.message}`);
-                reject(err);
-            }).connect(this.getSshConfig(connectionString));
-        });
+    private async writeRemoteFile(connectionString: string, filePath: string, content: Uint8Array, control: TransferControl): Promise<void> {
+        return this.connectionPool.withSftp(connectionString, sftp => writeRemoteFile(sftp, filePath, content, control));
     }
-}
\ No newline at end of file
+}
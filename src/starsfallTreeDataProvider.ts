@@ -1,14 +1,42 @@
 import * as vscode from 'vscode';
-import { Client } from 'ssh2';
-import { readFileSync } from 'fs';
+import { ConnectionPool, parseConnectionString, toConnectionString } from './connectionPool';
+import { PortForward, PortForwardManager } from './portForwardManager';
+import { formatForwardSpec } from './portForwardSpec';
+import { RemoteSessionManager } from './remoteSessionManager';
+import { RemoteSession } from './remoteSession';
+import { childGroupPaths, InventoryServer, normalizeGroupPath, resolveInventoryServer, ServerInventory } from './serverInventory';
+import { readSSHConfig, ServerDetails } from './sshConfigHandler';
+import { WorkspaceServer, WorkspaceServerManager } from './workspaceServerManager';
+import { formatStatusTooltip, SERVER_STATE_STYLES } from './serverStatus';
+import { ServerStatusManager } from './serverStatusManager';
+import { formatBytes, isSameOrDescendant, joinRemotePath, parseUriList, remoteParentPath } from './remoteFiles';
+import { isCancellation, resolveExistingTargets, runTransfers, Transfer } from './remoteTransfer';
+import { detectEncoding, DetectedEncoding, ENCODING_SAMPLE_SIZE } from './fileEncoding';
+
+// VS Code 为本视图中拖动的节点设置的 MIME 类型（视图 id 小写）
+const TREE_MIME_TYPE = 'application/vnd.code.tree.serverslist';
+
+// 服务器在文件树中的位置
+interface ServerLocation {
+    details: ServerDetails;
+    entry?: InventoryServer | WorkspaceServer; // 清单或工作区定义中的条目
+    parent: TreeNode | null;                   // 所在分组节点，顶层为 null
+}
 
 // 1. 创建TreeNode类，扩展vscode.TreeItem以支持路径和子节点管理
 export class TreeNode extends vscode.TreeItem {
+    public remoteSession?: RemoteSession; // 会话节点对应的 tmux / screen 会话
+    public serverDetails?: ServerDetails;  // 服务器节点的连接参数
+    public inventoryServerId?: string;     // 服务器节点对应的清单条目
+    public serverEntry?: InventoryServer | WorkspaceServer; // 服务器节点对应的清单或工作区定义条目
+
     constructor(
         public readonly label: string,
         public readonly path: string, // 节点的路径信息
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public children?: TreeNode[] // 子节点（改为可写）
+        public children?: TreeNode[], // 子节点（改为可写）
+        public connectionString?: string, // 服务器节点及其端口转发、会话节点所属的服务器
+        public portForwardId?: string     // 端口转发节点对应的转发 id
     ) {
         super(label, collapsibleState);
         this.path = path;
@@ -17,7 +45,9 @@ export class TreeNode extends vscode.TreeItem {
 }
 
 // 2. 创建StarsfallTreeDataProvider类，实现vscode.TreeDataProvider接口
-export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNode> {
+export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNode>, vscode.TreeDragAndDropController<TreeNode> {
+    readonly dragMimeTypes = ['text/uri-list'];
+    readonly dropMimeTypes = [TREE_MIME_TYPE, 'text/uri-list', 'files'];
     private servers: Map<string, string | undefined> = new Map();
     private logChannel: vscode.OutputChannel;
     private _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined> = new vscode.EventEmitter<TreeNode | undefined>();
@@ -26,11 +56,41 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
     // 用于存储已渲染的节点，以支持路径查找
     private renderedNodes: Map<string, TreeNode> = new Map();
     
-    // 根节点映射
+    // 服务器节点映射，键为连接字符串
     private rootNodes: Map<string, TreeNode> = new Map();
 
+    // 清单与 ssh 配置中的服务器，断开连接时也显示
+    private inventory: ServerInventory = ServerInventory.getInstance();
+    private workspaceServers: WorkspaceServerManager = WorkspaceServerManager.getInstance();
+    private sshConfigServers: ServerDetails[] = [];
+
+    // 各服务器的“端口转发”分组节点，转发状态变化时只刷新该分组
+    private portForwardGroups: Map<string, TreeNode> = new Map();
+    // 各服务器的持久会话分组节点
+    private sessionGroups: Map<string, TreeNode> = new Map();
+    // 最近渲染的服务器节点（含未连接的），连接状态变化时只刷新该节点
+    private serverNodes: Map<string, TreeNode> = new Map();
+
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+    private portForwardManager: PortForwardManager = PortForwardManager.getInstance();
+    private remoteSessionManager: RemoteSessionManager = RemoteSessionManager.getInstance();
+    private serverStatus: ServerStatusManager = ServerStatusManager.getInstance();
+
     constructor() {
         this.logChannel = vscode.window.createOutputChannel('Starsfall Servers Debug');
+        this.serverStatus.onDidChange(connectionString => {
+            const node = this.serverNodes.get(connectionString);
+            if (node) this._onDidChangeTreeData.fire(node);
+        });
+        this.portForwardManager.onDidChangeForwards(connectionString => this.refreshPortForwards(connectionString));
+        this.inventory.onDidChange(() => this._onDidChangeTreeData.fire(undefined));
+        this.workspaceServers.onDidChange(() => this._onDidChangeTreeData.fire(undefined));
+        // 开启或关闭持久会话时显示或隐藏会话分组
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('starsfall.terminal.persistentSession')) {
+                this._onDidChangeTreeData.fire(undefined);
+            }
+        });
     }
 
     getTreeItem(element: TreeNode): vscode.TreeItem {
@@ -42,6 +102,9 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
             };
             this.logChannel.appendLine(`[DEBUG] 设置文件节点命令: ${element.label}`);
         }
+        if (element.serverDetails) {
+            this.applyServerStatus(element);
+        }
         
         // 存储已渲染的节点，使用路径作为键
         if (element.resourceUri) {
@@ -52,9 +115,45 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
         return element;
     }
 
+    /**
+     * 悬停时生成服务器节点的提示，已连接时测量一次往返延迟
+     */
+    async resolveTreeItem(item: vscode.TreeItem, element: TreeNode): Promise<vscode.TreeItem> {
+        if (!element.serverDetails || !element.connectionString) return item;
+        const connectionString = element.connectionString;
+        const entry = element.serverEntry;
+        const status = this.serverStatus.getStatus(connectionString);
+        const connected = this.servers.has(connectionString);
+        const latency = status?.state === 'connected' ? await this.connectionPool.measureLatency(connectionString) : undefined;
+        const tags = (entry?.tags || []).map(tag => `#${tag}`);
+        item.tooltip = [
+            element.serverDetails.name,
+            connectionString,
+            entry && 'folder' in entry ? `定义于: ${entry.folder}/.starsfall/servers.json` : undefined,
+            entry?.group ? `分组: ${entry.group}` : undefined,
+            tags.length > 0 ? `标签: ${tags.join(' ')}` : undefined,
+            ...(status ? formatStatusTooltip(status, Date.now(), latency) : [connected ? '已连接' : '未连接']),
+            connected ? undefined : '点击连接'
+        ].filter(Boolean).join('\n');
+        return item;
+    }
+
     getParent(element: TreeNode): vscode.ProviderResult<TreeNode> {
         if (!element) return null;
-        if (element.contextValue === 'server') return null;
+        if (element.contextValue === 'server' || element.contextValue === 'disconnectedServer') {
+            return this.locateServer(element.connectionString!)?.parent || null;
+        }
+        if (element.contextValue === 'inventoryGroup') {
+            const parent = element.path.split('/').slice(0, -1).join('/');
+            return parent ? this.createGroupNode(parent) : null;
+        }
+        if (element.contextValue === 'workspaceGroup') {
+            return element.path ? this.createWorkspaceGroupNode(element.path.split('/').slice(0, -1).join('/')) : null;
+        }
+        if (element.contextValue === 'sshConfigGroup') return null;
+        if (element.contextValue === 'portForwards' || element.contextValue === 'sessions') return this.getServer(element.connectionString!);
+        if (element.portForwardId) return this.portForwardGroups.get(element.connectionString!);
+        if (element.remoteSession) return this.sessionGroups.get(element.connectionString!);
 
         if (element.resourceUri) {
             const uri = element.resourceUri;
@@ -81,22 +180,39 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
 
     async getChildren(element?: TreeNode): Promise<TreeNode[]> {
         if (!element) {
-            // 根节点：显示所有服务器
-            return Array.from(this.servers.entries()).map(([connectionString, privateKeyPath]) => {
-                const serverItem = new TreeNode(connectionString, '/', vscode.TreeItemCollapsibleState.Collapsed);
-                serverItem.iconPath = new vscode.ThemeIcon('remote');
-                serverItem.contextValue = 'server';
-                serverItem.resourceUri = vscode.Uri.parse(`ssh://${connectionString}`);
-                
-                // 保存根节点
-                this.rootNodes.set(connectionString, serverItem);
-                this.renderedNodes.set(`ssh://${connectionString}`, serverItem);
-                
-                return serverItem;
-            });
+            // 根节点：清单的顶层分组和服务器、工作区定义的服务器、未加入清单的 ssh 配置主机，以及临时连接的服务器
+            this.sshConfigServers = await readSSHConfig().catch(() => []);
+            const nodes = [
+                ...this.inventory.getChildGroups().map(group => this.createGroupNode(group)),
+                ...this.inventory.getServersInGroup().map(server => this.createServerNode(resolveInventoryServer(server, this.sshConfigServers), server))
+            ];
+            if (this.workspaceServers.getServers().length > 0) {
+                nodes.push(this.createWorkspaceGroupNode(''));
+            }
+            if (this.getUnlistedSshConfigServers().length > 0) {
+                nodes.push(this.createSshConfigGroupNode());
+            }
+            Array.from(this.servers.keys())
+                .filter(connectionString => !this.locateServer(connectionString))
+                .forEach(connectionString => nodes.push(this.createServerNode(this.detailsFromConnectionString(connectionString))));
+            return nodes;
+        } else if (element.contextValue === 'inventoryGroup') {
+            return [
+                ...this.inventory.getChildGroups(element.path).map(group => this.createGroupNode(group)),
+                ...this.inventory.getServersInGroup(element.path).map(server => this.createServerNode(resolveInventoryServer(server, this.sshConfigServers), server))
+            ];
+        } else if (element.contextValue === 'workspaceGroup') {
+            return [
+                ...childGroupPaths(this.workspaceServers.getGroups(), element.path || undefined).map(group => this.createWorkspaceGroupNode(group)),
+                ...this.workspaceServers.getServers()
+                    .filter(server => normalizeGroupPath(server.group) === element.path)
+                    .map(server => this.createServerNode(this.workspaceServers.resolve(server, this.sshConfigServers), server))
+            ];
+        } else if (element.contextValue === 'sshConfigGroup') {
+            return this.getUnlistedSshConfigServers().map(details => this.createServerNode(details));
         } else if (element.contextValue === 'server') {
             // 服务器节点：加载第一层目录
-            const connectionString = element.label;
+            const connectionString = element.connectionString!;
             const privateKeyPath = this.servers.get(connectionString);
             const files = await this.listRemoteFiles(connectionString, privateKeyPath, '/');
             
@@ -118,7 +234,7 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
                 );
                 item.contextValue = isDirectory ? 'directory' : 'file';
                 item.iconPath = isDirectory ? new vscode.ThemeIcon('folder') : new vscode.ThemeIcon('file');
-                item.resourceUri = vscode.Uri.parse(`ssh://${element.label}/${file.filename}`);
+                item.resourceUri = vscode.Uri.parse(`ssh://${connectionString}/${file.filename}`);
                 
                 // 设置父节点关系
                 element.children?.push(item);
@@ -126,7 +242,16 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
                 return item;
             });
             
-            return children;
+            // 有端口转发或开启持久会话时在目录前显示分组节点
+            const groups = [this.createPortForwardGroup(connectionString), this.createSessionGroup(connectionString)]
+                .filter((group): group is TreeNode => group !== undefined);
+            return [...groups, ...children];
+        } else if (element.contextValue === 'portForwards') {
+            return this.portForwardManager.getForwards(element.connectionString!)
+                .map(forward => this.createPortForwardNode(forward));
+        } else if (element.contextValue === 'sessions') {
+            const sessions = await this.remoteSessionManager.listSessions(element.connectionString!);
+            return sessions.map(session => this.createSessionNode(element.connectionString!, session));
         } else if (element.contextValue === 'directory') {
             // 目录节点：动态加载子目录
             const resourceUri = element.resourceUri;
@@ -216,16 +341,156 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
     }
 
     public getServer(connectionString: string): TreeNode | undefined {
-        if (this.servers.has(connectionString)) {
-            const serverItem = new TreeNode(connectionString, '/', vscode.TreeItemCollapsibleState.Collapsed);
-            serverItem.iconPath = new vscode.ThemeIcon('remote');
-            serverItem.contextValue = 'server';
-            serverItem.resourceUri = vscode.Uri.parse(`ssh://${connectionString}`);
-            return serverItem;
+        if (!this.servers.has(connectionString)) return undefined;
+        const rendered = this.rootNodes.get(connectionString);
+        if (rendered) return rendered;
+        const location = this.locateServer(connectionString);
+        return this.createServerNode(location?.details || this.detailsFromConnectionString(connectionString), location?.entry);
+    }
+
+    /**
+     * 创建服务器节点：已连接时可展开浏览文件，未连接时点击即连接
+     */
+    private createServerNode(details: ServerDetails, entry?: InventoryServer | WorkspaceServer): TreeNode {
+        const connectionString = toConnectionString(details);
+        const connected = this.servers.has(connectionString);
+        const item = new TreeNode(
+            details.name,
+            '/',
+            connected ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            [],
+            connectionString
+        );
+        const inventoryServer = entry && 'id' in entry ? entry : undefined;
+        const workspaceServer = entry && 'folder' in entry ? entry : undefined;
+        if (inventoryServer) {
+            item.id = `server:${inventoryServer.id}`;
+        } else if (workspaceServer) {
+            item.id = `workspace-server:${workspaceServer.folder}/${workspaceServer.name}`;
+        } else {
+            item.id = `server:${connectionString}`;
         }
-        return undefined;
+        item.contextValue = connected ? 'server' : 'disconnectedServer';
+        item.serverDetails = details;
+        item.inventoryServerId = inventoryServer?.id;
+        item.serverEntry = entry;
+        this.applyServerStatus(item);
+        this.serverNodes.set(connectionString, item);
+
+        if (connected) {
+            item.resourceUri = vscode.Uri.parse(`ssh://${connectionString}`);
+            // 保存服务器节点
+            this.rootNodes.set(connectionString, item);
+            this.renderedNodes.set(`ssh://${connectionString}`, item);
+        } else {
+            item.command = {
+                command: 'starsfall.connectInventoryServer',
+                title: 'Connect',
+                arguments: [item]
+            };
+        }
+        return item;
     }
-    
+
+    /**
+     * 按实时连接状态设置服务器节点的图标和描述；提示在悬停时由 resolveTreeItem 生成
+     */
+    private applyServerStatus(item: TreeNode): void {
+        const connectionString = item.connectionString!;
+        const status = this.serverStatus.getStatus(connectionString);
+        const entryColor = item.serverEntry?.color;
+        if (status) {
+            const style = SERVER_STATE_STYLES[status.state];
+            // 已连接时优先使用清单中设置的颜色，便于区分生产等环境
+            const color = status.state === 'connected' && entryColor ? entryColor : style.color;
+            item.iconPath = new vscode.ThemeIcon(style.icon, color ? new vscode.ThemeColor(color) : undefined);
+        } else {
+            const connected = this.servers.has(connectionString);
+            item.iconPath = new vscode.ThemeIcon(connected ? 'remote' : 'vm-outline', entryColor ? new vscode.ThemeColor(entryColor) : undefined);
+        }
+
+        // 连接中或失败时在描述中显示状态
+        const tags = (item.serverEntry?.tags || []).map(tag => `#${tag}`);
+        const stateLabel = status && status.state !== 'connected' && status.state !== 'idle' ? SERVER_STATE_STYLES[status.state].label : undefined;
+        item.description = [
+            item.serverDetails!.name !== connectionString ? connectionString : undefined,
+            ...tags,
+            stateLabel ? `· ${stateLabel}` : undefined
+        ].filter(Boolean).join(' ');
+        item.tooltip = undefined;
+    }
+
+    private createGroupNode(group: string): TreeNode {
+        const item = new TreeNode(group.split('/').pop()!, group, vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = `group:${group}`;
+        item.contextValue = 'inventoryGroup';
+        item.iconPath = new vscode.ThemeIcon('folder-library');
+        const count = this.inventory.getServers().filter(server => server.group === group || server.group?.startsWith(`${group}/`)).length;
+        item.description = `${count} 台`;
+        return item;
+    }
+
+    /**
+     * 工作区定义文件中的分组；group 为空字符串时为“工作区”顶层节点
+     */
+    private createWorkspaceGroupNode(group: string): TreeNode {
+        const item = new TreeNode(group ? group.split('/').pop()! : '工作区', group, vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = `workspace-group:${group}`;
+        item.contextValue = 'workspaceGroup';
+        item.iconPath = new vscode.ThemeIcon(group ? 'folder-library' : 'repo');
+        const count = this.workspaceServers.getServers().filter(server => {
+            const serverGroup = normalizeGroupPath(server.group);
+            return !group || serverGroup === group || serverGroup.startsWith(`${group}/`);
+        }).length;
+        item.description = `${count} 台`;
+        if (!group) {
+            item.tooltip = '工作区 .starsfall/servers.json 中定义的服务器';
+        }
+        return item;
+    }
+
+    private createSshConfigGroupNode(): TreeNode {
+        const item = new TreeNode('SSH 配置', '/', vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = 'sshConfig';
+        item.contextValue = 'sshConfigGroup';
+        item.iconPath = new vscode.ThemeIcon('file-code');
+        item.description = `${this.getUnlistedSshConfigServers().length} 台`;
+        item.tooltip = '~/.ssh/config 中尚未加入清单的主机';
+        return item;
+    }
+
+    // ssh 配置中尚未被清单或工作区定义引用的主机
+    private getUnlistedSshConfigServers(): ServerDetails[] {
+        const referenced = new Set(this.workspaceServers.getServers().map(server => server.sshConfigHost));
+        return this.sshConfigServers.filter(details => !this.inventory.findBySshConfigHost(details.name) && !referenced.has(details.name));
+    }
+
+    /**
+     * 按连接字符串查找服务器所在的清单分组、工作区分组或 ssh 配置分组
+     */
+    private locateServer(connectionString: string): ServerLocation | undefined {
+        for (const server of this.inventory.getServers()) {
+            const details = resolveInventoryServer(server, this.sshConfigServers);
+            if (toConnectionString(details) === connectionString) {
+                return { details, entry: server, parent: server.group ? this.createGroupNode(server.group) : null };
+            }
+        }
+        for (const server of this.workspaceServers.getServers()) {
+            const details = this.workspaceServers.resolve(server, this.sshConfigServers);
+            if (toConnectionString(details) === connectionString) {
+                return { details, entry: server, parent: this.createWorkspaceGroupNode(normalizeGroupPath(server.group)) };
+            }
+        }
+        const fromConfig = this.getUnlistedSshConfigServers().find(details => toConnectionString(details) === connectionString);
+        return fromConfig ? { details: fromConfig, parent: this.createSshConfigGroupNode() } : undefined;
+    }
+
+    // 临时连接的服务器使用连接时登记的名称，未登记时为主机名
+    private detailsFromConnectionString(connectionString: string): ServerDetails {
+        const details = this.connectionPool.getServerDetails(connectionString);
+        return { ...details, privateKeyPath: details.privateKeyPath || this.servers.get(connectionString) };
+    }
+
     public addServer(connectionString: string, privateKeyPath?: string): void {
         this.servers.set(connectionString, privateKeyPath);
         this._onDidChangeTreeData.fire(undefined);
@@ -237,6 +502,8 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
         
         // 清理相关节点缓存
         this.rootNodes.delete(connectionString);
+        this.portForwardGroups.delete(connectionString);
+        this.sessionGroups.delete(connectionString);
         // 清理所有该服务器的渲染节点
         Array.from(this.renderedNodes.keys()).forEach(key => {
             if (key.startsWith(`ssh://${connectionString}`)) {
@@ -251,10 +518,125 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
     public clearAllServers(): void {
         this.servers.clear();
         this.rootNodes.clear();
+        this.portForwardGroups.clear();
+        this.sessionGroups.clear();
         this.renderedNodes.clear();
         this._onDidChangeTreeData.fire(undefined);
     }
 
+    private createPortForwardGroup(connectionString: string): TreeNode | undefined {
+        const forwards = this.portForwardManager.getForwards(connectionString);
+        if (forwards.length === 0) {
+            this.portForwardGroups.delete(connectionString);
+            return undefined;
+        }
+
+        const group = new TreeNode('端口转发', '/', vscode.TreeItemCollapsibleState.Expanded, [], connectionString);
+        group.id = `portForwards:${connectionString}`;
+        group.contextValue = 'portForwards';
+        group.iconPath = new vscode.ThemeIcon('plug');
+        group.description = this.describePortForwards(connectionString);
+        this.portForwardGroups.set(connectionString, group);
+        return group;
+    }
+
+    private createPortForwardNode(forward: PortForward): TreeNode {
+        const item = new TreeNode(
+            formatForwardSpec(forward.spec),
+            '/',
+            vscode.TreeItemCollapsibleState.None,
+            [],
+            forward.connectionString,
+            forward.id
+        );
+        item.id = `portForward:${forward.id}`;
+        const running = forward.status === 'active' || forward.status === 'starting';
+        item.contextValue = running ? 'portForward.running' : 'portForward.stopped';
+
+        const statusText = { stopped: '已停止', starting: '启动中', active: '运行中', error: '错误' }[forward.status];
+        const traffic = `↑${formatBytes(forward.bytesSent)} ↓${formatBytes(forward.bytesReceived)}`;
+        item.description = forward.status === 'active'
+            ? `${statusText} · ${traffic} · ${forward.activeConnections} 个连接`
+            : statusText;
+        item.iconPath = {
+            stopped: new vscode.ThemeIcon('debug-stop'),
+            starting: new vscode.ThemeIcon('loading~spin'),
+            active: new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed')),
+            error: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))
+        }[forward.status];
+
+        const tooltip = [
+            `${formatForwardSpec(forward.spec)}（${forward.source === 'config' ? 'ssh 配置' : '手动添加'}）`,
+            `状态: ${statusText}${forward.error ? `，${forward.error}` : ''}`
+        ];
+        if (forward.boundPort !== undefined) tooltip.push(`监听端口: ${forward.boundPort}`);
+        tooltip.push(`流量: ${traffic}`, `连接: 当前 ${forward.activeConnections}，累计 ${forward.totalConnections}`);
+        item.tooltip = tooltip.join('\n');
+        return item;
+    }
+
+    private describePortForwards(connectionString: string): string {
+        const forwards = this.portForwardManager.getForwards(connectionString);
+        return `${forwards.filter(forward => forward.status === 'active').length}/${forwards.length} 运行中`;
+    }
+
+    // 转发变化时刷新分组；分组出现或消失时刷新整个服务器节点
+    private refreshPortForwards(connectionString: string): void {
+        if (!this.servers.has(connectionString)) return;
+        const group = this.portForwardGroups.get(connectionString);
+        const hasForwards = this.portForwardManager.getForwards(connectionString).length > 0;
+        if (group && hasForwards) {
+            group.description = this.describePortForwards(connectionString);
+            this._onDidChangeTreeData.fire(group);
+        } else if (group || hasForwards) {
+            this._onDidChangeTreeData.fire(this.rootNodes.get(connectionString));
+        }
+    }
+
+    private createSessionGroup(connectionString: string): TreeNode | undefined {
+        const kind = this.remoteSessionManager.getSessionKind();
+        if (!kind) {
+            this.sessionGroups.delete(connectionString);
+            return undefined;
+        }
+
+        const group = new TreeNode(`${kind} 会话`, '/', vscode.TreeItemCollapsibleState.Collapsed, [], connectionString);
+        group.id = `sessions:${connectionString}`;
+        group.contextValue = 'sessions';
+        group.iconPath = new vscode.ThemeIcon('layers');
+        this.sessionGroups.set(connectionString, group);
+        return group;
+    }
+
+    private createSessionNode(connectionString: string, session: RemoteSession): TreeNode {
+        const item = new TreeNode(session.name, '/', vscode.TreeItemCollapsibleState.None, [], connectionString);
+        item.id = `session:${connectionString}:${session.kind}:${session.id}`;
+        item.contextValue = 'session';
+        item.remoteSession = session;
+        item.iconPath = new vscode.ThemeIcon(session.attached ? 'terminal' : 'debug-pause');
+        item.description = [
+            session.windows !== undefined ? `${session.windows} 个窗口` : undefined,
+            session.attached ? '已附加' : '未附加'
+        ].filter(Boolean).join(' · ');
+        item.tooltip = `${session.kind} 会话 ${session.id}\n点击附加到该会话`;
+        item.command = {
+            command: 'starsfall.attachSession',
+            title: 'Attach Session',
+            arguments: [item]
+        };
+        return item;
+    }
+
+    /**
+     * 重新列出服务器上的持久会话
+     */
+    public refreshSessions(connectionString: string): void {
+        const group = this.sessionGroups.get(connectionString);
+        if (group) {
+            this._onDidChangeTreeData.fire(group);
+        }
+    }
+
     public getSshConfig(connectionString: string): any {
         const [username, hostPort] = connectionString.split('@');
         const [host, port] = hostPort.split(':');
@@ -297,6 +679,11 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
             '.so', '.dylib', // 动态库
             '.pyc', '.pyo', '.pyd' // Python
         ];
+        const previewExtensions = [
+            '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp', '.ico', // 图片
+            '.pdf',
+            '.mp3', '.wav', '.ogg', '.mp4', '.webm' // 音视频
+        ];
 
         const lowerCasePath = filePath.toLowerCase();
 
@@ -306,18 +693,26 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
             return;
         }
 
-        // 检查文件是否为二进制类型
-        const isBinary = await this.isBinaryFile(connectionString, privateKeyPath, filePath);
-        if (isBinary) {
-            vscode.window.showWarningMessage('无法在编辑器中打开二进制文件，但支持下载。');
-            return;
-        }
-
+        const uri = vscode.Uri.parse(`ssh://${connectionString}${filePath}`);
         try {
-            const uri = vscode.Uri.parse(`ssh://${connectionString}${filePath}`);
-            const doc = await vscode.workspace.openTextDocument(uri);
+            // 图片、PDF 和音视频交给 VS Code 内置（或扩展提供）的查看器，按原始字节读取
+            if (previewExtensions.some(ext => lowerCasePath.endsWith(ext))) {
+                await vscode.commands.executeCommand('vscode.open', uri);
+                return;
+            }
+
+            // 只读取文件开头判断编码和是否为二进制
+            const detected = await this.detectRemoteEncoding(connectionString, filePath);
+            if (detected.binary) {
+                vscode.window.showWarningMessage('无法在编辑器中打开二进制文件，但支持下载。');
+                return;
+            }
+
+            const doc = await vscode.workspace.openTextDocument(uri, { encoding: detected.encoding });
             await vscode.window.showTextDocument(doc);
         } catch (err) {
+            // 取消读取或大文件改为只打开末尾、下载
+            if (isCancellation(err)) return;
             if (err instanceof Error && err.message.includes('Permission denied')) {
                 if (!privateKeyPath) {
                     vscode.window.showErrorMessage('打开文件失败: 需要私钥进行身份验证，但未提供私钥路径。请检查服务器配置。');
@@ -330,58 +725,21 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
         }
     }
 
-    private async isBinaryFile(connectionString: string, privateKeyPath?: string, filePath?: string): Promise<boolean> {
-        // 实现 SFTP 读取文件内容并检测是否为二进制
-        const content = await this.readRemoteFile(connectionString, privateKeyPath, filePath);
-        if (!content) return false;
-
-        // 检测二进制文件的常见特征
-        const binaryThreshold = 0.3; // 30% 的非文本字符
-        let nonTextChars = 0;
-        for (let i = 0; i < Math.min(content.length, 4096); i++) {
-            if (content.charCodeAt(i) === 0 || content.charCodeAt(i) > 127) {
-                nonTextChars++;
-            }
-        }
-        return nonTextChars / Math.min(content.length, 4096) > binaryThreshold;
-    }
-
-    private async readRemoteFile(connectionString: string, privateKeyPath?: string, filePath?: string): Promise<string> {
-        // 解析 connectionString
-        const parts = connectionString.split(':');
-        const [username, host] = parts[0].split('@');
-        const port = parts.length >= 2 ? parseInt(parts[1]) : 22;
-
-        const conn = new Client();
-
-        return new Promise((resolve, reject) => {
-            conn.on('ready', () => {
-                conn.sftp((err, sftp) => {
-                    if (err) {
-                        this.logChannel.appendLine(`[ERROR] SFTP 连接失败: ${err.message}`);
-                        reject(err);
-                        return;
-                    }
-                    sftp.readFile(filePath || '.', (err, data) => {
-                        if (err) {
-                            this.logChannel.appendLine(`[ERROR] 读取文件失败: ${filePath}, ${err.message}`);
-                            reject(err);
-                            return;
-                        }                        
-                        resolve(data.toString());
-                    });
+    private async detectRemoteEncoding(connectionString: string, filePath: string): Promise<DetectedEncoding> {
+        const sample = await this.connectionPool.withSftp(connectionString, sftp => new Promise<Buffer>((resolve, reject) => {
+            sftp.open(filePath, 'r', (err, handle) => {
+                if (err) {
+                    this.logChannel.appendLine(`[ERROR] 读取文件失败: ${filePath}, ${err.message}`);
+                    reject(err);
+                    return;
+                }
+                sftp.read(handle, Buffer.alloc(ENCODING_SAMPLE_SIZE), 0, ENCODING_SAMPLE_SIZE, 0, (readErr, bytesRead, buffer) => {
+                    sftp.close(handle, () => undefined);
+                    readErr ? reject(readErr) : resolve(buffer.subarray(0, bytesRead));
                 });
-            }).on('error', (err) => {
-                this.logChannel.appendLine(`[ERROR] SSH 连接失败: ${err.message}`);
-                reject(err);
-            }).connect({
-                host,
-                port,
-                username,
-                privateKey: privateKeyPath ? readFileSync(privateKeyPath) : undefined,
-                readyTimeout: 20000
             });
-        });
+        }));
+        return detectEncoding(sample, sample.length === ENCODING_SAMPLE_SIZE);
     }
 
     private getLanguageForFile(filePath: string): string {
@@ -407,63 +765,150 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
         parentPath?: string
     ): Promise<Array<{ filename: string; longname: string }>> {
         // 解析 connectionString
-        const parts = connectionString.split(':');
-        if (parts.length < 1) {
-            throw new Error(`Invalid connection string: ${connectionString}. Expected format: username@host[:port][/path]`);
-        }
-
-        const [username, host] = parts[0].split('@');
-        if (!username || !host) {
-            throw new Error(`Invalid connection string: ${connectionString}. Missing username or host.`);
-        }
-
-        // 默认端口为 22
-        const port = parts.length >= 2 ? parseInt(parts[1]) : 22;
+        const { username, host, port } = parseConnectionString(connectionString);
 
         this.logChannel.appendLine(`[DEBUG] 开始连接服务器: ${connectionString}`);
         this.logChannel.appendLine(`[DEBUG] 解析结果: username=${username}, host=${host}, port=${port}, path=${parentPath || '.'}`);
 
-        // 实现 SSH 连接并列出文件
-        const conn = new Client();
-
-        return new Promise((resolve, reject) => {
-            conn.on('ready', () => {
-                this.logChannel.appendLine(`[DEBUG] SSH 连接成功: ${host}:${port}`);
-                const fullRemotePath = parentPath || '.';
-                conn.sftp((err, sftp) => {
+        // 通过共享连接列出文件
+        const fullRemotePath = parentPath || '.';
+        try {
+            return await this.connectionPool.withSftp(connectionString, sftp => new Promise((resolve, reject) => {
+                sftp.readdir(fullRemotePath, (err, files) => {
                     if (err) {
-                        this.logChannel.appendLine(`[ERROR] SFTP 连接失败: ${err.message}`);
+                        this.logChannel.appendLine(`[ERROR] 读取目录失败: ${fullRemotePath}, ${err.message}`);
+                        if (err.message.includes('Permission denied')) {
+                            this.logChannel.appendLine(`[WARN] 权限不足，请确保 SSH 用户有访问 ${fullRemotePath} 的权限`);
+                        }
                         reject(err);
                         return;
                     }
 
-                    sftp.readdir(fullRemotePath, (err, files) => {
-                        if (err) {
-                            this.logChannel.appendLine(`[ERROR] 读取目录失败: ${fullRemotePath}, ${err.message}`);
-                            if (err.message.includes('Permission denied')) {
-                                this.logChannel.appendLine(`[WARN] 权限不足，请确保 SSH 用户有访问 ${fullRemotePath} 的权限`);
-                            }
-                            reject(err);
-                            return;
-                        }
-
-                        this.logChannel.appendLine(`[DEBUG] 解析后的文件列表: ${JSON.stringify(files)}`);
-                        resolve(files);
-                    });
+                    this.logChannel.appendLine(`[DEBUG] 解析后的文件列表: ${JSON.stringify(files)}`);
+                    resolve(files);
                 });
-            }).on('error', (err) => {
-                this.logChannel.appendLine(`[ERROR] SSH 连接失败: ${err.message}`);
-                reject(err);
-            }).connect({
-                host,
-                port,
-                username,
-                privateKey: privateKeyPath ? readFileSync(privateKeyPath) : undefined,
-                readyTimeout: 20000
-            });
-        });
+            }));
+        } catch (err) {
+            this.logChannel.appendLine(`[ERROR] SSH 连接失败: ${err instanceof Error ? err.message : String(err)}`);
+            throw err;
+        }
     }
     
+    /**
+     * 拖动远程文件和目录时提供 ssh URI，拖到资源管理器即由 VS Code 经 ssh 文件系统复制到本地
+     */
+    public handleDrag(source: readonly TreeNode[], dataTransfer: vscode.DataTransfer): void {
+        const uris = source
+            .filter(node => node.resourceUri && (node.contextValue === 'file' || node.contextValue === 'directory'))
+            .map(node => node.resourceUri!.toString());
+        if (uris.length > 0) {
+            dataTransfer.set('text/uri-list', new vscode.DataTransferItem(uris.join('\r\n')));
+        }
+    }
+
+    /**
+     * 放到服务器或目录节点上：本视图中的节点在同一服务器内移动或复制、跨服务器复制，
+     * 来自资源管理器或系统文件管理器的文件上传到该目录
+     */
+    public async handleDrop(target: TreeNode | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const directory = this.getDropDirectory(target);
+        if (!directory) return;
+
+        const treeItem = dataTransfer.get(TREE_MIME_TYPE);
+        if (treeItem) {
+            const nodes = (treeItem.value as TreeNode[]).filter(node => node.resourceUri && (node.contextValue === 'file' || node.contextValue === 'directory'));
+            await this.dropRemoteNodes(nodes.map(node => node.resourceUri!), directory);
+            return;
+        }
+
+        const sources: vscode.Uri[] = [];
+        const uriList = dataTransfer.get('text/uri-list');
+        if (uriList) {
+            parseUriList(await uriList.asString()).forEach(value => sources.push(vscode.Uri.parse(value)));
+        } else {
+            dataTransfer.forEach(item => {
+                const file = item.asFile();
+                if (file?.uri) sources.push(file.uri);
+            });
+        }
+        if (sources.length === 0) return;
+
+        const transfers = await resolveExistingTargets(sources.map(source => ({
+            source,
+            target: directory.with({ path: joinRemotePath(directory.path, this.baseName(source)) })
+        })));
+        if (!transfers) return;
+        try {
+            await runTransfers('正在上传', transfers);
+        } catch (error) {
+            vscode.window.showErrorMessage(`上传失败: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            this.refreshDirectory(directory.authority, directory.path);
+        }
+    }
+
+    private async dropRemoteNodes(sources: vscode.Uri[], directory: vscode.Uri): Promise<void> {
+        // 跳过放回原目录，以及把目录放进它自身或子目录的情况
+        const candidates: Transfer[] = sources
+            .filter(source => !(source.authority === directory.authority && isSameOrDescendant(source.path, directory.path)))
+            .map(source => ({ source, target: directory.with({ path: joinRemotePath(directory.path, this.baseName(source)) }) }))
+            .filter(transfer => transfer.source.toString() !== transfer.target.toString());
+        if (candidates.length === 0) return;
+
+        // 同一服务器内可移动（SFTP rename）或复制，跨服务器只能复制
+        let move = false;
+        if (candidates.every(transfer => transfer.source.authority === directory.authority)) {
+            const choice = await vscode.window.showInformationMessage(
+                `将 ${candidates.length === 1 ? candidates[0].source.path : `${candidates.length} 个项目`} 移动或复制到 ${directory.path || '/'}？`,
+                { modal: true },
+                '移动',
+                '复制'
+            );
+            if (!choice) return;
+            move = choice === '移动';
+        }
+
+        const transfers = await resolveExistingTargets(candidates);
+        if (!transfers) return;
+        try {
+            await runTransfers(move ? '正在移动' : '正在复制', transfers, move);
+        } catch (error) {
+            vscode.window.showErrorMessage(`${move ? '移动' : '复制'}失败: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            this.refreshDirectory(directory.authority, directory.path);
+            if (move) {
+                transfers.forEach(transfer => this.refreshDirectory(transfer.source.authority, remoteParentPath(transfer.source.path)));
+            }
+        }
+    }
+
+    // 放置目标对应的远程目录：服务器节点为根目录，文件节点为其所在目录
+    private getDropDirectory(target: TreeNode | undefined): vscode.Uri | undefined {
+        if (!target) return undefined;
+        if (target.contextValue === 'server') {
+            return vscode.Uri.parse(`ssh://${target.connectionString}/`);
+        }
+        if (target.contextValue === 'directory') return target.resourceUri;
+        if (target.contextValue === 'file' && target.resourceUri) {
+            return target.resourceUri.with({ path: remoteParentPath(target.resourceUri.path) });
+        }
+        return undefined;
+    }
+
+    private baseName(uri: vscode.Uri): string {
+        return uri.path.split('/').filter(part => part).pop() || uri.authority;
+    }
+
+    /**
+     * 刷新远程目录对应的节点，根目录刷新服务器节点
+     */
+    public refreshDirectory(connectionString: string, directoryPath: string): void {
+        const node = !directoryPath || directoryPath === '/'
+            ? this.getServer(connectionString)
+            : this.findNodeByPath(connectionString, directoryPath);
+        this.refreshItem(node);
+    }
+
     // 刷新指定节点
     public refreshItem(item?: TreeNode): void {
         // 清除该节点及其子节点的缓存
@@ -490,4 +935,4 @@ export class StarsfallTreeDataProvider implements vscode.TreeDataProvider<TreeNo
         // 清空子节点列表
         node.children = [];
     }
-}
\ No newline at end of file
+}
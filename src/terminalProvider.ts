@@ -1,8 +1,20 @@
 import * as vscode from 'vscode';
-import { Client } from 'ssh2';
+import { Client, ClientChannel, ExecOptions, ShellOptions } from 'ssh2';
 import * as fs from 'fs';
 import * as path from 'path';
 import { FileExplorerManager } from './fileExplorerManager';
+import { ConnectionPool } from './connectionPool';
+import { AuthManager } from './authManager';
+import { buildAttachCommand, SessionAttachMode, SessionKind } from './remoteSession';
+
+/**
+ * 终端附加的 tmux / screen 会话
+ */
+export interface TerminalSession {
+    kind: SessionKind;
+    id: string;
+    mode: SessionAttachMode;
+}
 
 export class TerminalProvider implements vscode.Pseudoterminal {
     private writeEmitter = new vscode.EventEmitter<string>();
@@ -32,17 +44,29 @@ export class TerminalProvider implements vscode.Pseudoterminal {
     private currentWorkingDirectory: string = '~';
     private lastWorkingDirectory: string = '~';
     private fileExplorerManager: FileExplorerManager;
+    private connectionPool: ConnectionPool = ConnectionPool.getInstance();
+
+    // 断线重连状态
+    private nameEmitter = new vscode.EventEmitter<string>();
+    private disposed = false;           // 终端已关闭，不再重连
+    private connectionLost = false;     // 连接意外断开，正在或等待重新连接
+    private reconnectAttempts = 0;
+    private reconnectTimer?: NodeJS.Timeout;
+    private reconnectGaveUp = false;    // 已放弃自动重连，等待用户按回车键
 
     // 实现 Pseudoterminal 接口
     onDidWrite: vscode.Event<string> = this.writeEmitter.event;
     onDidClose: vscode.Event<void> = this.closeEmitter.event;
+    onDidChangeName: vscode.Event<string> = this.nameEmitter.event;
 
     constructor(
         private connectionString: string,
         private privateKeyPath?: string,
         hostname?: string,
         systemType?: string, // 新增参数
-        fileExplorerManager?: FileExplorerManager
+        fileExplorerManager?: FileExplorerManager,
+        private session?: TerminalSession, // 开启持久会话时附加的 tmux / screen 会话
+        private initialPath?: string       // 连接后进入的目录，优先于工作区定义的默认目录
     ) {
         this.hostname = hostname || this.getHost(); // 如果未提供，则从 connectionString 中提取
         this.systemType = systemType || ''; // 如果未提供，则默认为空字符串
@@ -59,13 +83,21 @@ export class TerminalProvider implements vscode.Pseudoterminal {
     }
 
     close(): void {
+        this.stopReconnecting();
         this.sshStream?.end();  // 关闭数据流
-        this.sshClient?.end();  // 终止 SSH 连接
-        this.sshClient?.destroy(); // 强制销毁连接
+        // 归还共享连接，由连接池决定何时真正断开
+        if (this.sshClient) {
+            this.connectionPool.release(this.connectionString, this.sshClient);
+            this.sshClient = null;
+        }
         this.closeEmitter.fire(); // 确保触发关闭事件
     }
 
     dispose(): void {
+        this.stopReconnecting();
+        if (this.sshClient) {
+            this.connectionPool.release(this.connectionString, this.sshClient);
+        }
         this.sshClient = null;
         this.sshStream = null;
     }
@@ -548,6 +580,17 @@ export class TerminalProvider implements vscode.Pseudoterminal {
     async handleInput(data: string): Promise<void> {
         console.log(`Received input: ${data}`);
 
+        // 连接断开期间不转发输入；自动重连放弃后按回车键重新开始
+        if (this.connectionLost) {
+            if (data === '\r' && this.reconnectGaveUp) {
+                this.reconnectGaveUp = false;
+                this.reconnectAttempts = 0;
+                this.nameEmitter.fire(`SSH: ${this.hostname} (重新连接中…)`);
+                this.scheduleReconnect();
+            }
+            return;
+        }
+
         const code = data.charCodeAt(0);
         console.log(`Received input (code): ${code}`);
 
@@ -1119,50 +1162,177 @@ export class TerminalProvider implements vscode.Pseudoterminal {
         }
     }
 
-    private connectSsh() {
-        const [username, hostPort] = this.connectionString.split('@');
-        const [host, portStr] = hostPort.split(':');
-        const port = portStr ? parseInt(portStr) : 22;
-
-        this.sshClient = new Client();
-        this.sshClient
-            .on('ready', async () => {
-                this.writeEmitter.fire(`\r\nConnection established.\r\n`);
-                this.sshClient?.shell({
-                    term: 'xterm-256color',
-                    rows: this.terminalHeight || 24,    // 提供默认值
-                    cols: this.terminalWidth || 80       // 提供默认值
-                }, async (err, stream) => {
-                    if (err) {
-                        this.writeEmitter.fire(`Error: ${err.message}\r\n`);
-                        return;
-                    }
-                    this.sshStream = stream;
-                    stream.on('data', (data: Buffer) => {
-                        const dataStr = data.toString();
-
-                        // 进入/退出备用屏缓冲（编辑器/分页器常用）
-                        if (dataStr.includes('\x1b[?1049h')) this.isEditorMode = true;
-                        if (dataStr.includes('\x1b[?1049l')) this.isEditorMode = false;
-
-                        this.writeEmitter.fire(dataStr);
-                    }).on('close', () => {
-                        // 会话关闭时复位，避免残留状态影响下一次会话
-                        this.resetTerminalState();
-                        this.writeEmitter.fire('\r\nConnection closed\r\n');
-                        this.close();
-                    });
-                });
-            })
-            .on('error', (err: Error) => {
-                this.writeEmitter.fire(`\r\nSSH Error: ${err.message}\r\n`);
-            })
-            .connect({
-                host,
-                port,
-                username,
-                privateKey: this.privateKeyPath ? fs.readFileSync(this.privateKeyPath) : undefined
+    /**
+     * 建立交互式 shell
+     * @param isReconnect 是否为断线后的自动重连（失败时继续按退避间隔重试）
+     */
+    private async connectSsh(isReconnect: boolean = false) {
+        try {
+            this.sshClient = await this.connectionPool.acquire(this.connectionString);
+        } catch (err) {
+            if (isReconnect) {
+                this.scheduleReconnect(err);
+            } else {
+                this.writeEmitter.fire(`\r\nSSH Error: ${err instanceof Error ? err.message : String(err)}\r\n`);
+            }
+            return;
+        }
+
+        // 等待连接期间终端已关闭
+        if (this.disposed) {
+            this.connectionPool.release(this.connectionString, this.sshClient);
+            this.sshClient = null;
+            return;
+        }
+
+        if (!isReconnect) {
+            this.writeEmitter.fire(`\r\nConnection established.\r\n`);
+        }
+        this.openShell(this.sshClient, async (err, stream) => {
+            if (err) {
+                if (isReconnect) {
+                    this.scheduleReconnect(err);
+                } else {
+                    this.writeEmitter.fire(`Error: ${err.message}\r\n`);
+                }
+                return;
+            }
+            this.sshStream = stream;
+            // 收到退出状态说明是 shell 正常退出，而不是连接中断
+            let exited = false;
+            stream.on('exit', () => {
+                exited = true;
             });
+            stream.on('data', (data: Buffer) => {
+                const dataStr = data.toString();
+
+                // 进入/退出备用屏缓冲（编辑器/分页器常用）
+                if (dataStr.includes('\x1b[?1049h')) this.isEditorMode = true;
+                if (dataStr.includes('\x1b[?1049l')) this.isEditorMode = false;
+
+                this.writeEmitter.fire(dataStr);
+            }).on('close', () => {
+                // 会话关闭时复位，避免残留状态影响下一次会话
+                this.resetTerminalState();
+                if (this.sshStream === stream) {
+                    this.sshStream = null;
+                }
+                if (!exited && !this.disposed && this.isAutoReconnectEnabled()) {
+                    this.handleConnectionLost();
+                    return;
+                }
+                this.writeEmitter.fire('\r\nConnection closed\r\n');
+                this.close();
+            });
+
+            if (isReconnect) {
+                this.handleReconnected(stream);
+            } else {
+                // 指定了目录或工作区定义了默认目录时，连接后进入该目录（持久会话保留自己的工作目录）
+                const remotePath = this.initialPath || this.connectionPool.getServerDetails(this.connectionString).remotePath;
+                if (remotePath && !this.session) {
+                    stream.write(`cd ${quoteShellPath(remotePath)}\n`);
+                }
+            }
+        });
+    }
+
+    /**
+     * 连接意外断开：保留终端标签页，显示“重新连接中”并开始按退避间隔重连
+     */
+    private handleConnectionLost(): void {
+        if (this.sshClient) {
+            this.connectionPool.release(this.connectionString, this.sshClient);
+            this.sshClient = null;
+        }
+        this.connectionLost = true;
+        this.reconnectAttempts = 0;
+        this.nameEmitter.fire(`SSH: ${this.hostname} (重新连接中…)`);
+        this.writeEmitter.fire('\r\n\x1b[33m[连接已断开，正在重新连接…]\x1b[0m\r\n');
+        this.scheduleReconnect();
+    }
+
+    private scheduleReconnect(lastError?: unknown): void {
+        if (this.disposed) return;
+
+        const message = lastError instanceof Error ? lastError.message : (lastError ? String(lastError) : '');
+        const maxAttempts = vscode.workspace.getConfiguration('starsfall').get<number>('connection.reconnectMaxAttempts', 10);
+        // 认证或主机密钥校验失败时重试没有意义
+        const fatal = /authentication|Host denied/i.test(message);
+        if (fatal || (maxAttempts > 0 && this.reconnectAttempts >= maxAttempts)) {
+            this.reconnectGaveUp = true;
+            this.nameEmitter.fire(`SSH: ${this.hostname} (已断开)`);
+            this.writeEmitter.fire(`\r\n\x1b[31m[重新连接失败${message ? `: ${message}` : ''}，按回车键重试]\x1b[0m\r\n`);
+            return;
+        }
+
+        this.reconnectAttempts++;
+        const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts - 1), 30000);
+        if (message) {
+            this.writeEmitter.fire(`\x1b[33m[重新连接失败: ${message}]\x1b[0m\r\n`);
+        }
+        this.writeEmitter.fire(`\x1b[33m[${delay / 1000} 秒后进行第 ${this.reconnectAttempts} 次重新连接…]\x1b[0m\r\n`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            this.connectSsh(true);
+        }, delay);
+    }
+
+    /**
+     * 重连成功：恢复终端名称，并回到断开前的工作目录
+     */
+    private handleReconnected(stream: ClientChannel): void {
+        this.connectionLost = false;
+        this.reconnectAttempts = 0;
+        this.nameEmitter.fire(`SSH: ${this.hostname}`);
+        this.writeEmitter.fire('\x1b[32m[已重新连接]\x1b[0m\r\n');
+
+        // 持久会话保留了自己的工作目录，无需切换
+        if (!this.session && this.currentWorkingDirectory !== '~') {
+            stream.write(`cd ${quoteShellPath(this.currentWorkingDirectory)}\n`);
+        }
+    }
+
+    /**
+     * 打开交互式 shell；开启持久会话时改为在 pty 中执行 tmux / screen 附加命令
+     */
+    private openShell(client: Client, callback: (err: Error | undefined, stream: ClientChannel) => void): void {
+        const pty = {
+            term: 'xterm-256color',
+            rows: this.terminalHeight || 24,    // 提供默认值
+            cols: this.terminalWidth || 80       // 提供默认值
+        };
+        // 按 ForwardAgent 配置为交互式 shell 开启 agent 转发，便于在服务器上使用本地密钥
+        const serverDetails = this.connectionPool.getServerDetails(this.connectionString);
+        const agentForward = AuthManager.getInstance().shouldForwardAgent(serverDetails);
+
+        if (this.session) {
+            const command = buildAttachCommand(this.session.kind, this.session.id, this.session.mode);
+            client.exec(command, { pty, agentForward } as ExecOptions, callback);
+            // 重连时只需重新附加，不再新建窗口
+            this.session = { ...this.session, mode: 'attach' };
+            return;
+        }
+        client.shell(pty, { agentForward } as ShellOptions, callback);
+    }
+
+    /**
+     * 终端附加的持久会话，未开启时返回 undefined
+     */
+    public getSession(): TerminalSession | undefined {
+        return this.session;
+    }
+
+    private stopReconnecting(): void {
+        this.disposed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+    }
+
+    private isAutoReconnectEnabled(): boolean {
+        return vscode.workspace.getConfiguration('starsfall').get<boolean>('connection.autoReconnect', true);
     }
 
     public async handleFileUpload(args: string[] = []) {
@@ -1204,92 +1374,73 @@ export class TerminalProvider implements vscode.Pseudoterminal {
 
             this.writeEmitter.fire(`Starting upload to ${remotePath} (${this.formatFileSize(fileSize)})\r\n`);
 
-            const conn = new Client();
-            await new Promise((resolve, reject) => {
-                conn.on('ready', () => {
-                    conn.sftp((err, sftp) => {
-                        if (err) {
-                            this.writeEmitter.fire(`SFTP Error: ${err.message}\r\n`);
+            await this.connectionPool.withSftp(this.connectionString, sftp => new Promise((resolve, reject) => {
+                const readStream = fs.createReadStream(localFilePath);
+                const writeStream = sftp.createWriteStream(remotePath);
+
+                // 监听数据传输进度
+                readStream.on('data', (chunk: Buffer) => {
+                    transferredBytes += chunk.length;
+                    const percentage = Math.floor((transferredBytes / fileSize) * 100);
+                    
+                    // 每1%更新一次进度条，避免过于频繁的更新
+                    if (percentage !== lastPercentage) {
+                        lastPercentage = percentage;
+                        this.writeEmitter.fire(`\r${this.createProgressBar(percentage)} ${percentage}% (${this.formatFileSize(transferredBytes)}/${this.formatFileSize(fileSize)})`);
+                    }
+                });
+
+                // 添加完成标志，确保只执行一次完成逻辑
+                let isCompleted = false;
+
+                readStream.pipe(writeStream)
+                    .on('finish', async () => {
+                        if (!isCompleted) {
+                            isCompleted = true;
+                            this.writeEmitter.fire(`\r\nFile uploaded: ${remotePath}\r\n`);
+                            // 刷新文件资源管理器，显示新上传的文件
+                            setTimeout(() => {
+                                this.refreshFileExplorer([remotePath]);
+                            }, 500);
+                            let prompt = this.getPrompt();
+                            this.writeEmitter.fire(prompt);
+                            resolve(true);
+                        }
+                    })
+                    .on('end', async () => {
+                        if (!isCompleted) {
+                            isCompleted = true;
+                            this.writeEmitter.fire(`\r\nFile uploaded: ${remotePath}\r\n`);
+                            // 刷新文件资源管理器，显示新上传的文件
+                            setTimeout(() => {
+                                this.refreshFileExplorer([remotePath]);
+                            }, 500);
+                            let prompt = this.getPrompt();
+                            this.writeEmitter.fire(prompt);
+                            resolve(true);
+                        }
+                    })
+                    .on('close', async () => {
+                        if (!isCompleted) {
+                            isCompleted = true;
+                            this.writeEmitter.fire(`\r\nFile uploaded: ${remotePath}\r\n`);
+                            // 刷新文件资源管理器，显示新上传的文件
+                            setTimeout(() => {
+                                this.refreshFileExplorer([remotePath]);
+                            }, 500);
+                            let prompt = this.getPrompt();
+                            this.writeEmitter.fire(prompt);
+                            resolve(true);
+                        }
+                    })
+                    .on('error', (err: Error) => {
+                        if (!isCompleted) {
+                            isCompleted = true;
+                            this.writeEmitter.fire(`\r\nUpload failed: ${err.message}\r\n`);
                             reject(err);
-                            return;
                         }
-
-                        const readStream = fs.createReadStream(localFilePath);
-                        const writeStream = sftp.createWriteStream(remotePath);
-
-                        // 监听数据传输进度
-                        readStream.on('data', (chunk: Buffer) => {
-                            transferredBytes += chunk.length;
-                            const percentage = Math.floor((transferredBytes / fileSize) * 100);
-                            
-                            // 每1%更新一次进度条，避免过于频繁的更新
-                            if (percentage !== lastPercentage) {
-                                lastPercentage = percentage;
-                                this.writeEmitter.fire(`\r${this.createProgressBar(percentage)} ${percentage}% (${this.formatFileSize(transferredBytes)}/${this.formatFileSize(fileSize)})`);
-                            }
-                        });
-
-                        // 添加完成标志，确保只执行一次完成逻辑
-                        let isCompleted = false;
-
-                        readStream.pipe(writeStream)
-                            .on('finish', async () => {
-                                if (!isCompleted) {
-                                    isCompleted = true;
-                                    this.writeEmitter.fire(`\r\nFile uploaded: ${remotePath}\r\n`);
-                                    // 刷新文件资源管理器，显示新上传的文件
-                                    setTimeout(() => {
-                                        this.refreshFileExplorer([remotePath]);
-                                    }, 500);
-                                    let prompt = this.getPrompt();
-                                    this.writeEmitter.fire(prompt);
-                                    resolve(true);
-                                }
-                            })
-                            .on('end', async () => {
-                                if (!isCompleted) {
-                                    isCompleted = true;
-                                    this.writeEmitter.fire(`\r\nFile uploaded: ${remotePath}\r\n`);
-                                    // 刷新文件资源管理器，显示新上传的文件
-                                    setTimeout(() => {
-                                        this.refreshFileExplorer([remotePath]);
-                                    }, 500);
-                                    let prompt = this.getPrompt();
-                                    this.writeEmitter.fire(prompt);
-                                    resolve(true);
-                                }
-                            })
-                            .on('close', async () => {
-                                if (!isCompleted) {
-                                    isCompleted = true;
-                                    this.writeEmitter.fire(`\r\nFile uploaded: ${remotePath}\r\n`);
-                                    // 刷新文件资源管理器，显示新上传的文件
-                                    setTimeout(() => {
-                                        this.refreshFileExplorer([remotePath]);
-                                    }, 500);
-                                    let prompt = this.getPrompt();
-                                    this.writeEmitter.fire(prompt);
-                                    resolve(true);
-                                }
-                            })
-                            .on('error', (err: Error) => {
-                                if (!isCompleted) {
-                                    isCompleted = true;
-                                    this.writeEmitter.fire(`\r\nUpload failed: ${err.message}\r\n`);
-                                    reject(err);
-                                }
-                            });
                     });
-                }).on('error', (err) => {
-                    this.writeEmitter.fire(`SSH Error: ${err.message}\r\n`);
-                    reject(err);
-                }).connect({
-                    host: this.getHost(),
-                    port: this.getPort(),
-                    username: this.getUsername(),
-                    privateKey: this.privateKeyPath ? fs.readFileSync(this.privateKeyPath) : undefined
-                });
-            });
+            }));
         } catch (error) {
             this.writeEmitter.fire(`Upload failed: ${error instanceof Error ? error.message : String(error)}\r\n`);
         }
@@ -1354,92 +1505,73 @@ export class TerminalProvider implements vscode.Pseudoterminal {
                 localPath = saveUri.fsPath;
             }
 
-            const conn = new Client();
-            await new Promise((resolve, reject) => {
-                conn.on('ready', () => {
-                    conn.sftp((err, sftp) => {
-                        if (err) {
-                            this.writeEmitter.fire(`SFTP Error: ${err.message}\r\n`);
-                            reject(err);
-                            return;
+            await this.connectionPool.withSftp(this.connectionString, sftp => new Promise((resolve, reject) => {
+                // 获取远程文件大小用于显示进度条
+                sftp.stat(remotePath, (statErr, stats) => {
+                    if (statErr) {
+                        this.writeEmitter.fire(`Failed to get file size: ${statErr.message}\r\n`);
+                        reject(statErr);
+                        return;
+                    }
+
+                    const fileSize = stats.size;
+                    let transferredBytes = 0;
+                    let lastPercentage = -1;
+
+                    this.writeEmitter.fire(`Starting download from ${remotePath} (${this.formatFileSize(fileSize)})\r\n`);
+
+                    const readStream = sftp.createReadStream(remotePath);
+                    const writeStream = fs.createWriteStream(localPath);
+                    // 添加完成标志，确保只执行一次完成逻辑
+                    let isCompleted = false;
+
+                    // 监听数据传输进度
+                    readStream.on('data', (chunk: Buffer) => {
+                        transferredBytes += chunk.length;
+                        const percentage = Math.floor((transferredBytes / fileSize) * 100);
+                        
+                        // 每1%更新一次进度条，避免过于频繁的更新
+                        if (percentage !== lastPercentage) {
+                            lastPercentage = percentage;
+                            this.writeEmitter.fire(`\r${this.createProgressBar(percentage)} ${percentage}% (${this.formatFileSize(transferredBytes)}/${this.formatFileSize(fileSize)})`);
                         }
+                    });
 
-                        // 获取远程文件大小用于显示进度条
-                        sftp.stat(remotePath, (statErr, stats) => {
-                            if (statErr) {
-                                this.writeEmitter.fire(`Failed to get file size: ${statErr.message}\r\n`);
-                                reject(statErr);
-                                return;
+                    readStream.pipe(writeStream)
+                        .on('finish', async () => {
+                            if (!isCompleted) {
+                                isCompleted = true;
+                                this.writeEmitter.fire(`\r\nFile downloaded: ${localPath}\r\n`);
+                                let prompt = this.getPrompt();
+                                this.writeEmitter.fire(prompt);
+                                resolve(true);
                             }
-
-                            const fileSize = stats.size;
-                            let transferredBytes = 0;
-                            let lastPercentage = -1;
-
-                            this.writeEmitter.fire(`Starting download from ${remotePath} (${this.formatFileSize(fileSize)})\r\n`);
-
-                            const readStream = sftp.createReadStream(remotePath);
-                            const writeStream = fs.createWriteStream(localPath);
-                            // 添加完成标志，确保只执行一次完成逻辑
-                            let isCompleted = false;
-
-                            // 监听数据传输进度
-                            readStream.on('data', (chunk: Buffer) => {
-                                transferredBytes += chunk.length;
-                                const percentage = Math.floor((transferredBytes / fileSize) * 100);
-                                
-                                // 每1%更新一次进度条，避免过于频繁的更新
-                                if (percentage !== lastPercentage) {
-                                    lastPercentage = percentage;
-                                    this.writeEmitter.fire(`\r${this.createProgressBar(percentage)} ${percentage}% (${this.formatFileSize(transferredBytes)}/${this.formatFileSize(fileSize)})`);
-                                }
-                            });
-
-                            readStream.pipe(writeStream)
-                                .on('finish', async () => {
-                                    if (!isCompleted) {
-                                        isCompleted = true;
-                                        this.writeEmitter.fire(`\r\nFile downloaded: ${localPath}\r\n`);
-                                        let prompt = this.getPrompt();
-                                        this.writeEmitter.fire(prompt);
-                                        resolve(true);
-                                    }
-                                })
-                                .on('end', async () => {
-                                    if (!isCompleted) {
-                                        isCompleted = true;
-                                        this.writeEmitter.fire(`\r\nFile downloaded: ${remotePath}\r\n`);
-                                        let prompt = this.getPrompt();
-                                        this.writeEmitter.fire(prompt);
-                                        resolve(true);
-                                    }
-                                })
-                                .on('close', async () => {
-                                    if (!isCompleted) {
-                                        isCompleted = true;
-                                        this.writeEmitter.fire(`\r\nFile downloaded: ${remotePath}\r\n`);
-                                        let prompt = this.getPrompt();
-                                        this.writeEmitter.fire(prompt);
-                                        resolve(true);
-                                    }
-                                })
-                                .on('error', (err) => {
-                                    this.writeEmitter.fire('\r                                                                                \r');
-                                    this.writeEmitter.fire(`Download failed: ${err.message}\r\n`);
-                                    reject(err);
-                                });
+                        })
+                        .on('end', async () => {
+                            if (!isCompleted) {
+                                isCompleted = true;
+                                this.writeEmitter.fire(`\r\nFile downloaded: ${remotePath}\r\n`);
+                                let prompt = this.getPrompt();
+                                this.writeEmitter.fire(prompt);
+                                resolve(true);
+                            }
+                        })
+                        .on('close', async () => {
+                            if (!isCompleted) {
+                                isCompleted = true;
+                                this.writeEmitter.fire(`\r\nFile downloaded: ${remotePath}\r\n`);
+                                let prompt = this.getPrompt();
+                                this.writeEmitter.fire(prompt);
+                                resolve(true);
+                            }
+                        })
+                        .on('error', (err) => {
+                            this.writeEmitter.fire('\r                                                                                \r');
+                            this.writeEmitter.fire(`Download failed: ${err.message}\r\n`);
+                            reject(err);
                         });
-                    });
-                }).on('error', (err) => {
-                    this.writeEmitter.fire(`SSH Error: ${err.message}\r\n`);
-                    reject(err);
-                }).connect({
-                    host: this.getHost(),
-                    port: this.getPort(),
-                    username: this.getUsername(),
-                    privateKey: this.privateKeyPath ? fs.readFileSync(this.privateKeyPath) : undefined
                 });
-            });
+            }));
         } catch (error) {
             this.writeEmitter.fire(`Download failed: ${error instanceof Error ? error.message : String(error)}\r\n`);
         }
@@ -1636,28 +1768,20 @@ export class TerminalProvider implements vscode.Pseudoterminal {
                 targetDir = await this.getHomeDirectory();
             }
 
-            // 通过 SFTP 读取远程目录
-            const files: string[] = await new Promise((resolve, reject) => {
-                this.sshClient?.sftp((err, sftp) => {
+            // 通过共享的 SFTP 会话读取远程目录
+            const files: string[] = await this.connectionPool.withSftp(this.connectionString, sftp => new Promise((resolve, reject) => {
+                sftp.readdir(targetDir, (err, list) => {
                     if (err) {
-                        console.error('SFTP error:', err);
+                        console.error('Failed to read remote directory:', err);
                         reject(err);
                         return;
                     }
 
-                    sftp.readdir(targetDir, (err, list) => {
-                        if (err) {
-                            console.error('Failed to read remote directory:', err);
-                            reject(err);
-                            return;
-                        }
-
-                        const filenames = list.map(item => item.filename);
-                        console.log('Remote files:', filenames);
-                        resolve(filenames);
-                    });
+                    const filenames = list.map(item => item.filename);
+                    console.log('Remote files:', filenames);
+                    resolve(filenames);
                 });
-            });
+            }));
 
             // 过滤出匹配最后一个单词的文件和文件夹
             const suggestions = files.filter(file => file.startsWith(lastWord));
@@ -2132,3 +2256,11 @@ export class TerminalProvider implements vscode.Pseudoterminal {
     }
 
 }
+
+// 为 cd 命令引用路径，保留开头的 ~ 以便由远程 shell 展开
+function quoteShellPath(dir: string): string {
+    const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+    if (dir === '~') return '~';
+    if (dir.startsWith('~/')) return `~/${quote(dir.substring(2))}`;
+    return quote(dir);
+}
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import {
+  createHandshakeTrace,
+  explainFailure,
+  formatDiagnosticStep,
+  recordDebugLine,
+  summarizeDiagnostics
+} from '../../connectionDiagnostics';
+
+suite('Connection diagnostics', () => {
+  const context = { host: 'web.example.com', port: 2222 };
+  const error = (message: string, fields: { code?: string; level?: string } = {}) => Object.assign(new Error(message), fields);
+
+  test('explains network failures by error code', () => {
+    assert.match(explainFailure('dns', error('getaddrinfo ENOTFOUND web.example.com', { code: 'ENOTFOUND' }), context), /无法解析主机名 web\.example\.com/);
+    assert.match(explainFailure('tcp', error('connect ECONNREFUSED', { code: 'ECONNREFUSED' }), context), /web\.example\.com:2222 拒绝连接/);
+    assert.match(explainFailure('tcp', error('connect ETIMEDOUT', { code: 'ETIMEDOUT' }), context), /防火墙/);
+    assert.match(explainFailure('banner', error('read ECONNRESET', { code: 'ECONNRESET' }), context), /hosts\.deny/);
+  });
+
+  test('lists both sides of a failed algorithm negotiation', () => {
+    const trace = createHandshakeTrace();
+    recordDebugLine(trace, "Remote ident: 'SSH-2.0-OpenSSH_5.3\\r\\n'");
+    recordDebugLine(trace, 'Handshake: (local) KEX method: curve25519-sha256,ecdh-sha2-nistp256');
+    recordDebugLine(trace, 'Handshake: (remote) KEX method: diffie-hellman-group1-sha1');
+    assert.strictEqual(trace.remoteIdent, 'SSH-2.0-OpenSSH_5.3');
+
+    const cause = explainFailure('kex', error('Handshake failed: no matching key exchange algorithm', { level: 'handshake' }), { ...context, trace });
+    const lines = cause.split('\n');
+    assert.strictEqual(lines[0], '客户端与服务器没有共同支持的密钥交换算法');
+    assert.strictEqual(lines[1], '服务器提供：diffie-hellman-group1-sha1');
+    assert.strictEqual(lines[2], '客户端支持：curve25519-sha256, ecdh-sha2-nistp256');
+  });
+
+  test('explains authentication and subsystem failures', () => {
+    const authFailed = error('All configured authentication methods failed', { level: 'client-authentication' });
+    assert.match(explainFailure('auth', authFailed, context), /拒绝了所有认证方式/);
+    assert.match(explainFailure('auth', authFailed, { ...context, authMethod: 'publickey' }), /authorized_keys/);
+    assert.match(explainFailure('kex', error('Host denied (verification failed)'), context), /known_hosts/);
+    assert.match(explainFailure('sftp', error('Unable to start subsystem: sftp'), context), /Subsystem sftp/);
+  });
+
+  test('formats steps and summarizes the first failure', () => {
+    const steps = [
+      { stage: 'dns' as const, title: 'DNS 解析', status: 'ok' as const, durationMs: 3, detail: '10.0.0.1' },
+      { stage: 'tcp' as const, title: 'TCP 连接', status: 'failed' as const, durationMs: 10001, cause: '第一行\n第二行' }
+    ];
+    assert.deepStrictEqual(formatDiagnosticStep(steps[0]), ['✔ DNS 解析 (3 ms): 10.0.0.1']);
+    assert.deepStrictEqual(formatDiagnosticStep(steps[1]), ['✘ TCP 连接 (10001 ms)', '    原因：第一行', '    第二行']);
+    assert.strictEqual(summarizeDiagnostics(steps), '诊断结束：在“TCP 连接”步骤失败');
+    assert.strictEqual(summarizeDiagnostics(steps.slice(0, 1)), '诊断完成：全部步骤通过，共 3 ms');
+  });
+});
@@ -11,8 +11,10 @@ suite('Activation', () => {
     const expected = [
       'starsfall.connectServer',
       'starsfall.editServer',
+      'starsfall.deleteServer',
       'starsfall.removeServer',
-      'starsfall.disconnectAll'
+      'starsfall.disconnectAll',
+      'starsfall.addPortForward'
     ];
     for (const cmd of expected) assert.ok(commands.includes(cmd), `missing command: ${cmd}`);
   });
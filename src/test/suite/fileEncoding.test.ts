@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { detectEncoding } from '../../fileEncoding';
+
+suite('File encoding', () => {
+  // 你好，世界 in GBK
+  const gbk = Buffer.from([0xc4, 0xe3, 0xba, 0xc3, 0xa3, 0xac, 0xca, 0xc0, 0xbd, 0xe7]);
+
+  test('recognizes byte order marks', () => {
+    assert.deepStrictEqual(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]), false), { binary: false, encoding: 'utf8bom' });
+    assert.deepStrictEqual(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0x00]), false), { binary: false, encoding: 'utf16le' });
+    assert.deepStrictEqual(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x61]), false), { binary: false, encoding: 'utf16be' });
+  });
+
+  test('leaves ASCII to the default encoding and detects UTF-8', () => {
+    assert.deepStrictEqual(detectEncoding(Buffer.from('plain text\n'), false), { binary: false });
+    assert.deepStrictEqual(detectEncoding(Buffer.from('配置文件 config\n'), false), { binary: false, encoding: 'utf8' });
+    // 样本在多字节字符中间截断
+    assert.deepStrictEqual(detectEncoding(Buffer.from('日志').subarray(0, 4), true), { binary: false, encoding: 'utf8' });
+  });
+
+  test('detects GBK and GB18030', () => {
+    assert.deepStrictEqual(detectEncoding(Buffer.concat([Buffer.from('# '), gbk, Buffer.from('\n')]), false), { binary: false, encoding: 'gbk' });
+    // 四字节字符 0x81 0x30 0x81 0x30
+    assert.deepStrictEqual(detectEncoding(Buffer.concat([gbk, Buffer.from([0x81, 0x30, 0x81, 0x30])]), false), { binary: false, encoding: 'gb18030' });
+    // Latin-1 的 é 后接 ASCII 字母在结构上也是合法的 GBK，但不在 GB2312 区
+    assert.deepStrictEqual(detectEncoding(Buffer.from('caf\xe9 au lait, cr\xe8me br\xfbl\xe9e', 'latin1'), false), { binary: false });
+  });
+
+  test('detects binary content', () => {
+    assert.deepStrictEqual(detectEncoding(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]), false), { binary: true });
+    assert.deepStrictEqual(detectEncoding(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x03, 0x04, 0x05]), false), { binary: true });
+  });
+});
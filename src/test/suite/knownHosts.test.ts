@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { checkHostKey, formatKnownHostName, formatKnownHostsLine, getFingerprint, getKeyType, hashKnownHostName, parseKnownHosts } from '../../knownHosts';
+
+// 构造 ssh 公钥数据：string 类型名 + string 密钥内容
+function makeKey(type: string, body: string): Buffer {
+  const parts = [type, body].map(value => {
+    const data = Buffer.from(value);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, data]);
+  });
+  return Buffer.concat(parts);
+}
+
+const key = makeKey('ssh-ed25519', 'current-key');
+const oldKey = makeKey('ssh-ed25519', 'old-key');
+const rsaKey = makeKey('ssh-rsa', 'rsa-key');
+
+suite('known_hosts', () => {
+  test('parses markers and skips comments', () => {
+    const entries = parseKnownHosts('# comment\n\nweb,10.0.0.1 ssh-ed25519 AAAA\n@revoked * ssh-rsa BBBB\n', '/tmp/known_hosts');
+    assert.strictEqual(entries.length, 2);
+    assert.deepStrictEqual(entries[0], { marker: undefined, hosts: 'web,10.0.0.1', keyType: 'ssh-ed25519', key: 'AAAA', file: '/tmp/known_hosts', line: 3 });
+    assert.strictEqual(entries[1].marker, 'revoked');
+  });
+
+  test('trusts keys under plain, wildcard and hashed host names', () => {
+    assert.strictEqual(formatKnownHostName('web', 22), 'web');
+    assert.strictEqual(formatKnownHostName('web', 2222), '[web]:2222');
+
+    const lines = [
+      formatKnownHostsLine('[web]:2222', key),
+      `*.prod,!db.prod ${getKeyType(key)} ${key.toString('base64')}`,
+      formatKnownHostsLine('hashed.example', key, true)
+    ].join('\n');
+    const entries = parseKnownHosts(lines, 'known_hosts');
+
+    assert.strictEqual(checkHostKey(entries, '[web]:2222', key).status, 'trusted');
+    assert.strictEqual(checkHostKey(entries, 'api.prod', key).status, 'trusted');
+    assert.strictEqual(checkHostKey(entries, 'db.prod', key).status, 'unknown');
+    assert.strictEqual(checkHostKey(entries, 'hashed.example', key).status, 'trusted');
+    assert.ok(entries[2].hosts.startsWith('|1|'));
+  });
+
+  test('reproduces OpenSSH hashed host names', () => {
+    // ssh-keygen -H 的输出
+    const vectors = [
+      ['example.com', '|1|sZ/R/dR8dd/8nrDiD/Edqzp5w5M=|JkGxi+8wtpYSNczbQI6JF9x6cLk='],
+      ['[web.example.com]:2222', '|1|vMPOiO+LaR/+yAvP2/m2e8CqCqQ=|qV2p7Boqc0fip1em+sYHQzOHRi8=']
+    ];
+    for (const [hostName, hashed] of vectors) {
+      const salt = Buffer.from(hashed.split('|')[2], 'base64');
+      assert.strictEqual(hashKnownHostName(hostName, salt), hashed);
+      assert.strictEqual(checkHostKey(parseKnownHosts(`${hashed} ${getKeyType(key)} ${key.toString('base64')}`, 'known_hosts'), hostName, key).status, 'trusted');
+    }
+  });
+
+  test('reports changed and revoked keys', () => {
+    const entries = parseKnownHosts([
+      formatKnownHostsLine('web', oldKey),
+      formatKnownHostsLine('web', rsaKey),
+      `@revoked * ${getKeyType(rsaKey)} ${rsaKey.toString('base64')}`
+    ].join('\n'), 'known_hosts');
+
+    const changed = checkHostKey(entries, 'web', key);
+    assert.strictEqual(changed.status, 'changed');
+    assert.strictEqual(changed.status === 'changed' && changed.entry.line, 1);
+    assert.strictEqual(checkHostKey(entries, 'web', rsaKey).status, 'revoked');
+    assert.ok(getFingerprint(key).startsWith('SHA256:'));
+  });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { forwardSpecsFromOptions, formatForwardSpec, parseForwardSpec } from '../../portForwardSpec';
+
+suite('Port forward specs', () => {
+  test('parses ssh config and command line forms', () => {
+    assert.deepStrictEqual(parseForwardSpec('local', '8080 db.internal:5432'), {
+      type: 'local', bindAddress: 'localhost', bindPort: 8080, targetHost: 'db.internal', targetPort: 5432
+    });
+    assert.deepStrictEqual(parseForwardSpec('local', '0.0.0.0:8080:db.internal:5432'), {
+      type: 'local', bindAddress: '0.0.0.0', bindPort: 8080, targetHost: 'db.internal', targetPort: 5432
+    });
+    assert.deepStrictEqual(parseForwardSpec('remote', '[::1]:9000 [::1]/3000'), {
+      type: 'remote', bindAddress: '::1', bindPort: 9000, targetHost: '::1', targetPort: 3000
+    });
+    assert.deepStrictEqual(parseForwardSpec('dynamic', '*:1080'), { type: 'dynamic', bindAddress: '*', bindPort: 1080 });
+  });
+
+  test('allows remote dynamic forwards but rejects incomplete specs', () => {
+    assert.deepStrictEqual(parseForwardSpec('remote', '1080'), { type: 'remote', bindAddress: 'localhost', bindPort: 1080 });
+    assert.throws(() => parseForwardSpec('local', '8080'));
+    assert.throws(() => parseForwardSpec('dynamic', '1080 host:22'));
+    assert.throws(() => parseForwardSpec('local', '70000 db:5432'));
+    assert.throws(() => parseForwardSpec('local', '8080 /var/run/db.sock'));
+  });
+
+  test('reads forwards from resolved ssh config options', () => {
+    const { specs, errors } = forwardSpecsFromOptions({
+      localforward: ['5432 localhost:5432', 'bogus'],
+      remoteforward: ['9000 localhost:3000'],
+      dynamicforward: ['1080']
+    });
+    assert.deepStrictEqual(specs.map(formatForwardSpec), ['-L 5432:localhost:5432', '-R 9000:localhost:3000', '-D 1080']);
+    assert.strictEqual(errors.length, 1);
+  });
+
+  test('formats IPv6 addresses in brackets', () => {
+    assert.strictEqual(formatForwardSpec(parseForwardSpec('local', '[::1]:8080 [fe80::1]:80')), '-L [::1]:8080:[fe80::1]:80');
+  });
+});
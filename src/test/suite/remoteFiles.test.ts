@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import {
+  archiveFileName,
+  buildArchiveCommand,
+  classifyFileError,
+  isSameOrDescendant,
+  joinRemotePath,
+  parseUriList,
+  remoteParentPath,
+  validateRemoteFileName
+} from '../../remoteFiles';
+
+suite('Remote files', () => {
+  test('validates new file names', () => {
+    assert.strictEqual(validateRemoteFileName('app.log'), undefined);
+    assert.strictEqual(validateRemoteFileName('  '), '请输入名称');
+    assert.strictEqual(validateRemoteFileName('a/b'), '名称不能包含 /');
+    assert.strictEqual(validateRemoteFileName('..'), '无效的名称');
+  });
+
+  test('joins and splits remote paths', () => {
+    assert.strictEqual(joinRemotePath('/var/log', ' app.log '), '/var/log/app.log');
+    assert.strictEqual(joinRemotePath('', 'etc'), '/etc');
+    assert.strictEqual(remoteParentPath('/var/log/app.log'), '/var/log');
+    assert.strictEqual(remoteParentPath('/etc'), '/');
+  });
+
+  test('archives a directory relative to its parent', () => {
+    assert.strictEqual(buildArchiveCommand('/var/www/my site/'), "tar -czf - -C '/var/www' 'my site'");
+    assert.strictEqual(buildArchiveCommand('/'), 'tar -czf - -C / .');
+    assert.strictEqual(archiveFileName('/var/www/html'), 'html.tar.gz');
+    assert.strictEqual(archiveFileName('/'), 'root.tar.gz');
+  });
+
+  test('detects drops into the dragged directory itself', () => {
+    assert.strictEqual(isSameOrDescendant('/var/www', '/var/www'), true);
+    assert.strictEqual(isSameOrDescendant('/var/www', '/var/www/html/'), true);
+    assert.strictEqual(isSameOrDescendant('/var/www', '/var/www2'), false);
+    assert.strictEqual(isSameOrDescendant('/', '/etc'), true);
+  });
+
+  test('parses uri lists', () => {
+    assert.deepStrictEqual(parseUriList('# comment\r\nfile:///tmp/a.txt\r\n\r\nfile:///tmp/b%20c.txt\n'), ['file:///tmp/a.txt', 'file:///tmp/b%20c.txt']);
+  });
+
+  test('classifies SFTP and connection errors', () => {
+    const error = (message: string, fields: { code?: unknown; level?: string } = {}) => Object.assign(new Error(message), fields);
+    assert.strictEqual(classifyFileError(error('No such file', { code: 2 })), 'notFound');
+    assert.strictEqual(classifyFileError(error('Permission denied', { code: 3 })), 'noPermissions');
+    assert.strictEqual(classifyFileError(error('All configured authentication methods failed', { level: 'client-authentication' })), 'unavailable');
+    assert.strictEqual(classifyFileError(error('connect ECONNREFUSED', { code: 'ECONNREFUSED' })), 'unavailable');
+    assert.strictEqual(classifyFileError(error('Connection closed: u@h:22')), 'unavailable');
+    assert.strictEqual(classifyFileError(error('Failure', { code: 4 })), undefined);
+  });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import {
+  buildMatchRegExp,
+  createGlobFilter,
+  createPreview,
+  findMatchRanges,
+  fuzzyMatchesPath,
+  globToRegExp,
+  parseSearchLine
+} from '../../remoteSearch';
+
+suite('Remote search', () => {
+  test('converts VS Code globs to regular expressions', () => {
+    assert.ok(globToRegExp('**/*.log').test('var/app/error.log'));
+    assert.ok(globToRegExp('**/*.log').test('error.log'));
+    assert.ok(!globToRegExp('*.log').test('app/error.log'));
+    assert.ok(globToRegExp('src/**/*.{ts,js}').test('src/a/b/index.js'));
+    assert.ok(globToRegExp('file[0-9].txt').test('file7.txt'));
+    assert.ok(!globToRegExp('file?.txt').test('file10.txt'));
+  });
+
+  test('filters paths by includes and excludes, including parent directories', () => {
+    const accept = createGlobFilter(['**/*.log'], ['**/node_modules', 'archive']);
+    assert.strictEqual(accept('logs/app.log'), true);
+    assert.strictEqual(accept('logs/app.txt'), false);
+    assert.strictEqual(accept('node_modules/pkg/debug.log'), false);
+    assert.strictEqual(accept('logs/archive/old.log'), false);
+    assert.strictEqual(createGlobFilter([], [])('anything'), true);
+  });
+
+  test('matches quick open patterns fuzzily', () => {
+    assert.strictEqual(fuzzyMatchesPath('srvmgr', 'src/serverManager.ts'), true);
+    assert.strictEqual(fuzzyMatchesPath('src/ext', 'src/extension.ts'), true);
+    assert.strictEqual(fuzzyMatchesPath('xyz', 'src/extension.ts'), false);
+  });
+
+  test('parses rg and grep output with NUL separated file names', () => {
+    assert.deepStrictEqual(parseSearchLine('./logs/a:b.log\u000012:error: disk full\r'), { path: 'logs/a:b.log', lineNumber: 12, text: 'error: disk full' });
+    assert.deepStrictEqual(parseSearchLine('app.log\u00003:ok'), { path: 'app.log', lineNumber: 3, text: 'ok' });
+    assert.strictEqual(parseSearchLine('no separator'), undefined);
+  });
+
+  test('locates matches and trims long previews around the first match', () => {
+    const regex = buildMatchRegExp({ pattern: 'a.b', isRegExp: false, isCaseSensitive: false });
+    assert.deepStrictEqual(findMatchRanges('A.B and a.b, not axb', regex), [{ start: 0, end: 3 }, { start: 8, end: 11 }]);
+    assert.deepStrictEqual(findMatchRanges('anything', undefined), [{ start: 0, end: 8 }]);
+    assert.deepStrictEqual(findMatchRanges('cat category', buildMatchRegExp({ pattern: 'cat', isWordMatch: true, isCaseSensitive: true })), [{ start: 0, end: 3 }]);
+
+    const line = `${'x'.repeat(100)}needle${'y'.repeat(100)}`;
+    const preview = createPreview(line, [{ start: 100, end: 106 }], 50);
+    assert.strictEqual(preview.text.length, 50);
+    assert.deepStrictEqual(preview.matches, [{ start: 20, end: 26 }]);
+  });
+});
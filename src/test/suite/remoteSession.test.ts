@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { buildAttachCommand, buildKillCommand, parseScreenSessions, parseTmuxSessions, sanitizeSessionName } from '../../remoteSession';
+
+suite('Remote sessions', () => {
+  test('parses tmux list-sessions output', () => {
+    assert.deepStrictEqual(parseTmuxSessions('starsfall\t3\t1\nbuild\t1\t0\n'), [
+      { kind: 'tmux', id: 'starsfall', name: 'starsfall', windows: 3, attached: true },
+      { kind: 'tmux', id: 'build', name: 'build', windows: 1, attached: false }
+    ]);
+    assert.deepStrictEqual(parseTmuxSessions(''), []);
+  });
+
+  test('parses screen -ls output', () => {
+    const output = [
+      'There are screens on:',
+      '\t12345.build\t(05/01/2025 10:00:00 AM)\t(Detached)',
+      '\t678.pts-0.web\t(Attached)',
+      '2 Sockets in /run/screen/S-deploy.'
+    ].join('\n');
+    assert.deepStrictEqual(parseScreenSessions(output), [
+      { kind: 'screen', id: '12345.build', name: 'build', attached: false },
+      { kind: 'screen', id: '678.pts-0.web', name: 'pts-0.web', attached: true }
+    ]);
+  });
+
+  test('builds attach commands that fall back to a login shell', () => {
+    const attach = buildAttachCommand('tmux', 'starsfall', 'attach');
+    assert.ok(attach.startsWith("sh -c 'if command -v tmux"));
+    assert.ok(attach.includes('exec tmux new-session -A -s starsfall;'));
+    assert.ok(buildAttachCommand('tmux', 'starsfall', 'new-window').includes('new-session -A -s starsfall \\; new-window'));
+    assert.ok(buildAttachCommand('screen', 'build', 'new-window').includes('screen -S build -X screen'));
+  });
+
+  test('quotes session ids and sanitizes new names', () => {
+    assert.strictEqual(buildKillCommand({ kind: 'tmux', id: "my build", name: "my build", attached: false }), "tmux kill-session -t 'my build'");
+    assert.strictEqual(sanitizeSessionName('web:prod.1'), 'web-prod-1');
+    assert.strictEqual(sanitizeSessionName('...'), 'starsfall');
+  });
+});
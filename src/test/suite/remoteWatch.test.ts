@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { buildInotifyCommand, diffSnapshots, EntrySnapshot, isWatchedBy, parseInotifyLine } from '../../remoteWatch';
+
+suite('Remote watch', () => {
+  test('maps inotifywait events to changes', () => {
+    assert.deepStrictEqual(parseInotifyLine('CREATE /srv/app/new.txt'), { type: 'created', path: '/srv/app/new.txt' });
+    assert.deepStrictEqual(parseInotifyLine('CREATE,ISDIR /srv/app/dir name'), { type: 'created', path: '/srv/app/dir name' });
+    assert.deepStrictEqual(parseInotifyLine('MOVED_FROM /srv/app/old.txt'), { type: 'deleted', path: '/srv/app/old.txt' });
+    assert.deepStrictEqual(parseInotifyLine('DELETE_SELF /srv/app/'), { type: 'deleted', path: '/srv/app' });
+    assert.deepStrictEqual(parseInotifyLine('CLOSE_WRITE,CLOSE /srv/app/a.txt'), { type: 'changed', path: '/srv/app/a.txt' });
+    assert.strictEqual(parseInotifyLine('IGNORED /srv/app/'), undefined);
+  });
+
+  test('matches changes against recursive, flat and excluded watches', () => {
+    const recursive = { path: '/srv/app', recursive: true, excludes: ['**/node_modules'] };
+    const flat = { path: '/srv/app', recursive: false, excludes: [] };
+    assert.ok(isWatchedBy(recursive, '/srv/app'));
+    assert.ok(isWatchedBy(recursive, '/srv/app/src/index.ts'));
+    assert.ok(!isWatchedBy(recursive, '/srv/app/node_modules/x/index.js'));
+    assert.ok(!isWatchedBy(recursive, '/srv/application/a.txt'));
+    assert.ok(isWatchedBy(flat, '/srv/app/a.txt'));
+    assert.ok(!isWatchedBy(flat, '/srv/app/src/index.ts'));
+    assert.ok(isWatchedBy({ path: '/', recursive: false, excludes: [] }, '/etc'));
+  });
+
+  test('groups paths by recursion and passes shared excludes to inotifywait', () => {
+    const command = buildInotifyCommand([
+      { path: '/srv/app', recursive: true, excludes: ['**/node_modules', '**/.git'] },
+      { path: '/srv/other', recursive: true, excludes: ['**/node_modules'] },
+      { path: '/etc/hosts', recursive: false, excludes: [] }
+    ]);
+    assert.match(command, /inotifywait -m -q -r .*--exclude .*\(node_modules\)/);
+    assert.match(command, /for p in \S*\/srv\/app\S* \S*\/srv\/other\S*; do/);
+    assert.match(command, /for p in \S*\/etc\/hosts\S*; do.*inotifywait -m -q -e/);
+    assert.match(command, /cat >\/dev\/null; kill \$pids 2>\/dev\/null'$/);
+  });
+
+  test('diffs polled snapshots', () => {
+    const file = (mtime: number, size: number): EntrySnapshot => ({ isDirectory: false, mtime, size });
+    const dir = (mtime: number): EntrySnapshot => ({ isDirectory: true, mtime, size: 4096 });
+    const previous = new Map([['/a', dir(1)], ['/a/kept', file(1, 10)], ['/a/edited', file(1, 10)], ['/a/gone', file(1, 10)]]);
+    const current = new Map([['/a', dir(2)], ['/a/kept', file(1, 10)], ['/a/edited', file(2, 12)], ['/a/new', dir(2)]]);
+
+    assert.deepStrictEqual(diffSnapshots(undefined, current), []);
+    assert.deepStrictEqual(diffSnapshots(previous, current), [
+      { type: 'deleted', path: '/a/gone' },
+      { type: 'changed', path: '/a/edited' },
+      { type: 'created', path: '/a/new' }
+    ]);
+  });
+});
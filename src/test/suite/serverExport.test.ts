@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { formatAnsibleIni, formatAnsibleYaml, formatCsv, formatSshConfigFragment, ExportedServer } from '../../serverExport';
+import { parseTermiusCsv } from '../../serverImport';
+
+suite('Server export', () => {
+  const servers: ExportedServer[] = [
+    { name: 'web1', host: '10.0.0.1', port: 22, username: 'deploy', group: 'prod/eu', tags: ['nginx'] },
+    { name: 'web2', host: '10.0.0.2', port: 22, username: 'deploy', group: 'prod/eu' },
+    {
+      name: 'db', host: '10.0.1.5', port: 2222, username: 'postgres', privateKeyPath: '~/.ssh/db key', group: 'prod',
+      jumpHosts: [{ name: 'bastion', host: 'bastion.example.com', port: 22, username: 'jump' }]
+    },
+    { name: 'dev', host: 'dev', port: 22, username: 'me' }
+  ];
+
+  test('formats an ssh config fragment', () => {
+    const fragment = formatSshConfigFragment(servers.slice(2, 3));
+    assert.strictEqual(fragment, [
+      '# Exported by Starsfall',
+      '',
+      'Host db',
+      '  HostName 10.0.1.5',
+      '  Port 2222',
+      '  User postgres',
+      '  IdentityFile "~/.ssh/db key"',
+      '  ProxyJump bastion',
+      ''
+    ].join('\n'));
+  });
+
+  test('formats an Ansible INI inventory with nested groups and group vars', () => {
+    assert.strictEqual(formatAnsibleIni(servers), [
+      '[prod]',
+      "db ansible_host=10.0.1.5 ansible_port=2222 ansible_user=postgres ansible_ssh_private_key_file='~/.ssh/db key' ansible_ssh_common_args='-o ProxyJump=bastion'",
+      '',
+      '[prod:children]',
+      'prod__eu',
+      '',
+      '[prod__eu]',
+      'web1 ansible_host=10.0.0.1',
+      'web2 ansible_host=10.0.0.2',
+      '',
+      '[prod__eu:vars]',
+      'ansible_user=deploy',
+      '',
+      '[ungrouped]',
+      'dev ansible_user=me',
+      ''
+    ].join('\n'));
+  });
+
+  test('formats an Ansible YAML inventory', () => {
+    assert.strictEqual(formatAnsibleYaml(servers), [
+      'all:',
+      '  hosts:',
+      '    dev:',
+      '      ansible_user: me',
+      '  children:',
+      '    prod:',
+      '      hosts:',
+      '        db:',
+      '          ansible_host: 10.0.1.5',
+      '          ansible_port: 2222',
+      '          ansible_user: postgres',
+      "          ansible_ssh_private_key_file: '~/.ssh/db key'",
+      "          ansible_ssh_common_args: '-o ProxyJump=bastion'",
+      '      children:',
+      '        prod__eu:',
+      '          hosts:',
+      '            web1:',
+      '              ansible_host: 10.0.0.1',
+      '            web2:',
+      '              ansible_host: 10.0.0.2',
+      '          vars:',
+      '            ansible_user: deploy',
+      ''
+    ].join('\n'));
+  });
+
+  test('formats CSV that the importer reads back', () => {
+    const csv = formatCsv(servers);
+    assert.ok(csv.startsWith('Name,Host,Port,Username,Private Key,ProxyJump,Group,Tags\r\n'));
+    const { servers: imported } = parseTermiusCsv(csv);
+    assert.deepStrictEqual(imported.map(server => [server.name, server.host, server.port, server.group, server.privateKeyPath]), [
+      ['web1', '10.0.0.1', 22, 'prod/eu', undefined],
+      ['web2', '10.0.0.2', 22, 'prod/eu', undefined],
+      ['db', '10.0.1.5', 2222, 'prod', '~/.ssh/db key'],
+      ['dev', 'dev', 22, undefined, undefined]
+    ]);
+    assert.deepStrictEqual(imported[0].tags, ['nginx']);
+  });
+});
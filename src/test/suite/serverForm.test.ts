@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { fromFormValues, toFormValues, validateServerForm } from '../../serverForm';
+
+suite('Server form', () => {
+  const bastion = { name: 'bastion', host: 'bastion.example.com', port: 22, username: 'jump' };
+  const options = { existingNames: ['bastion', 'web'] };
+
+  test('pre-fills values from an existing server', () => {
+    const values = toFormValues({ name: 'web', host: '10.0.0.1', port: 2222, username: 'deploy', privateKeyPath: '/keys/web', jumpHosts: [bastion] });
+    assert.deepStrictEqual(values, {
+      name: 'web',
+      host: '10.0.0.1',
+      port: '2222',
+      username: 'deploy',
+      authMethod: 'key',
+      privateKeyPath: '/keys/web',
+      password: '',
+      jumpHost: 'bastion'
+    });
+    assert.strictEqual(toFormValues().authMethod, 'key');
+    assert.strictEqual(toFormValues({ name: 'db', host: 'db', port: 22, username: 'root' }).authMethod, 'agent');
+  });
+
+  test('validates fields as they are typed', () => {
+    const values = { ...toFormValues(), name: 'my server', host: 'bad host', port: '70000', username: '', privateKeyPath: '', jumpHost: 'a b' };
+    assert.deepStrictEqual(Object.keys(validateServerForm(values, options)).sort(), ['host', 'jumpHost', 'name', 'port', 'privateKeyPath', 'username']);
+
+    const valid = { ...toFormValues(), name: 'db', host: 'fd00::1', port: '22', username: 'root', authMethod: 'agent' as const, jumpHost: 'bastion, admin@10.0.0.9:2200' };
+    assert.deepStrictEqual(validateServerForm(valid, options), {});
+  });
+
+  test('allows keeping the name when editing but rejects duplicates', () => {
+    const values = { ...toFormValues(), name: 'web', host: 'web.example.com', authMethod: 'agent' as const };
+    assert.ok(validateServerForm(values, options).name);
+    assert.strictEqual(validateServerForm(values, { ...options, originalName: 'web' }).name, undefined);
+  });
+
+  test('checks that the private key exists', () => {
+    const values = { ...toFormValues(), name: 'db', host: 'db', privateKeyPath: '/missing' };
+    assert.strictEqual(validateServerForm(values, { ...options, fileExists: () => false }).privateKeyPath, '私钥文件不存在');
+  });
+
+  test('converts values to server details', () => {
+    const details = fromFormValues({
+      name: ' db ', host: '[fd00::1]', port: '2200', username: 'root',
+      authMethod: 'password', privateKeyPath: '/ignored', password: 'secret', jumpHost: 'bastion,admin@10.0.0.9'
+    }, [bastion]);
+    assert.deepStrictEqual(details, {
+      name: 'db',
+      host: 'fd00::1',
+      port: 2200,
+      username: 'root',
+      password: 'secret',
+      jumpHosts: [bastion, { name: 'admin@10.0.0.9', host: '10.0.0.9', port: 22, username: 'admin' }]
+    });
+  });
+});
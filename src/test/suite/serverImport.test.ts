@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import { decodeImportFile, detectImportFormat, parseImportFile } from '../../serverImport';
+
+suite('Server import', () => {
+  test('parses PuTTY registry exports', () => {
+    const reg = [
+      'Windows Registry Editor Version 5.00',
+      '',
+      '[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\Default%20Settings]',
+      '"Protocol"="ssh"',
+      '',
+      '[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\web%20prod]',
+      '"HostName"="deploy@web.example.com"',
+      '"PortNumber"=dword:00000916',
+      '"Protocol"="ssh"',
+      '"PublicKeyFile"="C:\\\\Users\\\\me\\\\web.ppk"',
+      '',
+      '[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\router]',
+      '"HostName"="192.168.1.1"',
+      '"Protocol"="telnet"',
+      ''
+    ].join('\r\n');
+    // regedit 导出的文件为带 BOM 的 UTF-16LE
+    const content = decodeImportFile(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(reg, 'utf16le')]));
+    assert.strictEqual(detectImportFormat('sessions.reg', content), 'putty');
+
+    const { servers, warnings } = parseImportFile('putty', content);
+    assert.deepStrictEqual(servers, [
+      { name: 'web-prod', host: 'web.example.com', port: 2326, username: 'deploy', privateKeyPath: 'C:\\Users\\me\\web.ppk' }
+    ]);
+    assert.deepStrictEqual(warnings, ['router: 不支持 telnet 协议']);
+  });
+
+  test('decodes PuTTY session names escaped in UTF-8 or GBK', () => {
+    const content = [
+      'Windows Registry Editor Version 5.00',
+      '',
+      // 你好 prod，中文 Windows 下 PuTTY 按 GBK 转义
+      '[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\%C4%E3%BA%C3%20prod]',
+      '"HostName"="10.0.0.1"',
+      '',
+      '[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\%E6%B5%8B%E8%AF%95]',
+      '"HostName"="10.0.0.2"',
+      '',
+      // 不完整的转义保持原样
+      '[HKEY_CURRENT_USER\\Software\\SimonTatham\\PuTTY\\Sessions\\db%2]',
+      '"HostName"="10.0.0.3"',
+      ''
+    ].join('\r\n');
+    assert.deepStrictEqual(parseImportFile('putty', content).servers.map(server => server.name), ['你好-prod', '测试', 'db%2']);
+  });
+
+  test('parses MobaXterm bookmarks with folders', () => {
+    const content = [
+      '[Bookmarks]',
+      'SubRep=',
+      'ImgNum=42',
+      'jump=#109#0%jump.example.com%22%admin%%-1%-1%%%%%0%0%0%%%-1%0%0%0%%1080%%0%0%1#MobaFont%10%0%0%-1%15#0# #-1',
+      '',
+      '[Bookmarks_1]',
+      'SubRep=Prod\\EU',
+      'ImgNum=41',
+      'db eu=#109#0%10.0.0.2%2222%postgres%%-1%-1%%%%%0%0%0%_ProfileDir_\\.ssh\\id_rsa%%-1%0%0%0%%1080%%0%0%1#MobaFont#0# #-1',
+      'desktop=#91#4%10.0.0.9%3389%%-1%0#MobaFont#0# #-1'
+    ].join('\r\n');
+    assert.strictEqual(detectImportFormat('MobaXterm Sessions.mxtsessions', content), 'mobaxterm');
+
+    const { servers, warnings } = parseImportFile('mobaxterm', content);
+    assert.deepStrictEqual(servers, [
+      { name: 'jump', host: 'jump.example.com', port: 22, username: 'admin', privateKeyPath: undefined, group: undefined },
+      { name: 'db-eu', host: '10.0.0.2', port: 2222, username: 'postgres', privateKeyPath: '_ProfileDir_\\.ssh\\id_rsa', group: 'Prod/EU' }
+    ]);
+    assert.deepStrictEqual(warnings, ['desktop: 不是 SSH 会话']);
+  });
+
+  test('parses FileZilla site manager folders and ignores passwords', () => {
+    const content = `<?xml version="1.0" encoding="UTF-8" standalone="yes" ?>
+<FileZilla3 version="3.66.1" platform="windows">
+  <Servers>
+    <Folder expanded="1">Customers
+      <Folder expanded="0">A &amp; B
+        <Server>
+          <Host>sftp.customer.example</Host>
+          <Port>22</Port>
+          <Protocol>1</Protocol>
+          <User>upload</User>
+          <Pass encoding="base64">c2VjcmV0</Pass>
+          <Keyfile>/home/me/.ssh/customer</Keyfile>
+          <Name>customer sftp</Name>
+        </Server>
+      </Folder>
+    </Folder>
+    <Server>
+      <Host>ftp.example.com</Host>
+      <Port>21</Port>
+      <Protocol>0</Protocol>
+      <Name>legacy ftp</Name>
+    </Server>
+  </Servers>
+</FileZilla3>`;
+    assert.strictEqual(detectImportFormat('sitemanager.xml', content), 'filezilla');
+
+    const { servers, warnings } = parseImportFile('filezilla', content);
+    assert.deepStrictEqual(servers, [{
+      name: 'customer-sftp',
+      host: 'sftp.customer.example',
+      port: 22,
+      username: 'upload',
+      privateKeyPath: '/home/me/.ssh/customer',
+      group: 'Customers/A & B'
+    }]);
+    assert.ok(!('password' in servers[0]));
+    assert.deepStrictEqual(warnings, ['legacy ftp: 不是 SFTP 站点']);
+  });
+
+  test('parses Termius CSV exports and de-duplicates names', () => {
+    const content = [
+      'Groups,Label,Tags,Hostname/IP,Protocol,Port,Username,Password',
+      'prod/eu,web,"nginx,frontend",web.example.com,ssh,22,deploy,hunter2',
+      'prod/eu,web,,web2.example.com,ssh,2200,deploy,',
+      ',"no host",,,ssh,22,root,'
+    ].join('\n');
+    assert.strictEqual(detectImportFormat('termius.csv', content), 'termius');
+
+    const { servers, warnings } = parseImportFile('termius', content);
+    assert.deepStrictEqual(servers.map(server => [server.name, server.host, server.port, server.group, server.tags]), [
+      ['web', 'web.example.com', 22, 'prod/eu', ['nginx', 'frontend']],
+      ['web-2', 'web2.example.com', 2200, 'prod/eu', undefined]
+    ]);
+    assert.deepStrictEqual(warnings, ['no host: 未设置主机名']);
+  });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { normalizeGroupPath, resolveInventoryServer, ServerInventory } from '../../serverInventory';
+
+// 内存中的 Memento，避免测试写入真实的 globalState
+class MemoryMemento implements vscode.Memento {
+  private values = new Map<string, unknown>();
+  keys(): readonly string[] {
+    return Array.from(this.values.keys());
+  }
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+  }
+  async update(key: string, value: unknown): Promise<void> {
+    this.values.set(key, JSON.parse(JSON.stringify(value)));
+  }
+}
+
+suite('Server inventory', () => {
+  const inventory = ServerInventory.getInstance();
+  const server = { host: '10.0.0.1', port: 22, username: 'root' };
+
+  setup(() => {
+    inventory.setStorage(new MemoryMemento());
+  });
+
+  test('normalizes group paths', () => {
+    assert.strictEqual(normalizeGroupPath(' prod / eu/ '), 'prod/eu');
+    assert.strictEqual(normalizeGroupPath('//'), '');
+    assert.strictEqual(normalizeGroupPath(undefined), '');
+  });
+
+  test('lists nested groups and the servers directly inside them', async () => {
+    await inventory.addServer({ ...server, name: 'web', group: 'prod/eu' });
+    await inventory.addServer({ ...server, name: 'db', group: 'prod' });
+    await inventory.addServer({ ...server, name: 'dev' });
+    await inventory.addGroup('staging');
+
+    assert.deepStrictEqual(inventory.getGroups(), ['prod', 'prod/eu', 'staging']);
+    assert.deepStrictEqual(inventory.getChildGroups(), ['prod', 'staging']);
+    assert.deepStrictEqual(inventory.getChildGroups('prod'), ['prod/eu']);
+    assert.deepStrictEqual(inventory.getServersInGroup('prod').map(s => s.name), ['db']);
+    assert.deepStrictEqual(inventory.getServersInGroup().map(s => s.name), ['dev']);
+  });
+
+  test('moves subgroups and servers when renaming or removing a group', async () => {
+    const web = await inventory.addServer({ ...server, name: 'web', group: 'prod/eu' });
+    await inventory.renameGroup('prod', 'customer-a/prod');
+    assert.strictEqual(inventory.getServer(web.id)!.group, 'customer-a/prod/eu');
+
+    await inventory.removeGroup('customer-a/prod');
+    assert.strictEqual(inventory.getServer(web.id)!.group, 'customer-a/eu');
+    assert.deepStrictEqual(inventory.getGroups(), ['customer-a', 'customer-a/eu']);
+  });
+
+  test('resolves servers that reference an ssh config host', () => {
+    const fromConfig = { name: 'bastion-web', host: 'web.internal', port: 2222, username: 'deploy' };
+    const referenced = { ...server, id: '1', name: 'Web', sshConfigHost: 'bastion-web' };
+    assert.deepStrictEqual(resolveInventoryServer(referenced, [fromConfig]), { ...fromConfig, name: 'Web' });
+    assert.strictEqual(resolveInventoryServer(referenced, []).host, '10.0.0.1');
+  });
+});
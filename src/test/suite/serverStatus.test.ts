@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { classifyConnectionError, formatStatusTooltip, formatUptime, parseOsRelease } from '../../serverStatus';
+
+suite('Server status', () => {
+  test('distinguishes authentication failures from unreachable hosts', () => {
+    assert.strictEqual(classifyConnectionError(Object.assign(new Error('All configured authentication methods failed'), { level: 'client-authentication' })), 'authFailed');
+    assert.strictEqual(classifyConnectionError(Object.assign(new Error('connect ECONNREFUSED 10.0.0.1:22'), { level: 'client-socket' })), 'unreachable');
+    assert.strictEqual(classifyConnectionError(new Error('Timed out while waiting for handshake')), 'unreachable');
+  });
+
+  test('formats uptime to the minute', () => {
+    assert.strictEqual(formatUptime(30 * 1000), '不到 1 分钟');
+    assert.strictEqual(formatUptime(5 * 60000), '5 分钟');
+    assert.strictEqual(formatUptime(125 * 60000), '2 小时 5 分钟');
+    assert.strictEqual(formatUptime((3 * 1440 + 120) * 60000), '3 天 2 小时');
+  });
+
+  test('reads the system name from os-release', () => {
+    assert.strictEqual(parseOsRelease('NAME="Ubuntu"\nVERSION="22.04.3 LTS (Jammy Jellyfish)"\nPRETTY_NAME="Ubuntu 22.04.3 LTS"\n'), 'Ubuntu 22.04.3 LTS');
+    assert.strictEqual(parseOsRelease("NAME='Alpine Linux'\nVERSION=3.19\n"), 'Alpine Linux 3.19');
+    assert.strictEqual(parseOsRelease(''), undefined);
+  });
+
+  test('describes live state in the tooltip', () => {
+    const now = Date.now();
+    const connected = { state: 'connected' as const, connectedAt: now - 90 * 60000, terminals: 2, system: 'Debian GNU/Linux 12 (bookworm)' };
+    assert.deepStrictEqual(formatStatusTooltip(connected, now, 23), [
+      '状态: 已连接',
+      '延迟: 23 ms',
+      '在线时长: 1 小时 30 分钟',
+      '终端: 2 个',
+      '系统: Debian GNU/Linux 12 (bookworm)'
+    ]);
+    assert.deepStrictEqual(formatStatusTooltip({ state: 'authFailed', terminals: 0, error: 'All configured authentication methods failed' }, now), [
+      '状态: 认证失败',
+      '错误: All configured authentication methods failed'
+    ]);
+  });
+});
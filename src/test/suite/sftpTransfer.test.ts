@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SFTPWrapper } from 'ssh2';
+import { CHUNK_SIZE, downloadToLocal, readRemoteFile, readRemoteTail, uploadFromLocal, writeRemoteFile } from '../../sftpTransfer';
+
+// 内存中的 SFTP 会话；每次最多读取 maxRead 字节，模拟服务器返回的短读
+function createFakeSftp(files: Map<string, Buffer>, maxRead: number = Infinity) {
+  const handles = new Map<string, string>();
+  let pending = 0;
+  let maxPending = 0;
+  const reply = (callback: () => void) => {
+    pending++;
+    maxPending = Math.max(maxPending, pending);
+    setImmediate(() => {
+      pending--;
+      callback();
+    });
+  };
+  const sftp = {
+    open(remotePath: string, flags: string, cb: (err: Error | undefined, handle: Buffer) => void) {
+      if (flags === 'w') files.set(remotePath, Buffer.alloc(0));
+      if (!files.has(remotePath)) return cb(Object.assign(new Error('No such file'), { code: 2 }), Buffer.alloc(0));
+      const handle = Buffer.from(String(handles.size));
+      handles.set(handle.toString(), remotePath);
+      reply(() => cb(undefined, handle));
+    },
+    fstat(handle: Buffer, cb: (err: Error | undefined, stats: { size: number }) => void) {
+      reply(() => cb(undefined, { size: files.get(handles.get(handle.toString())!)!.length }));
+    },
+    read(handle: Buffer, buffer: Buffer, offset: number, length: number, position: number, cb: (err: Error | undefined, bytesRead: number) => void) {
+      const data = files.get(handles.get(handle.toString())!)!;
+      const bytesRead = data.copy(buffer, offset, position, Math.min(position + length, position + maxRead, data.length));
+      reply(() => cb(undefined, bytesRead));
+    },
+    write(handle: Buffer, buffer: Buffer, offset: number, length: number, position: number, cb: (err?: Error) => void) {
+      const remotePath = handles.get(handle.toString())!;
+      const data = files.get(remotePath)!;
+      const grown = Buffer.alloc(Math.max(data.length, position + length));
+      data.copy(grown);
+      buffer.copy(grown, position, offset, offset + length);
+      files.set(remotePath, grown);
+      reply(() => cb());
+    },
+    close(handle: Buffer, cb: (err?: Error) => void) {
+      handles.delete(handle.toString());
+      reply(() => cb());
+    },
+    unlink(remotePath: string, cb: (err?: Error) => void) {
+      files.delete(remotePath);
+      reply(() => cb());
+    }
+  };
+  return { sftp: sftp as unknown as SFTPWrapper, maxPending: () => maxPending };
+}
+
+suite('SFTP transfer', () => {
+  const content = Buffer.from(Array.from({ length: CHUNK_SIZE * 5 + 123 }, (_, i) => i % 251));
+
+  test('reads a file in pipelined chunks and reports progress', async () => {
+    const fake = createFakeSftp(new Map([['/var/log/app.log', content]]), 1000);
+    const progress: number[] = [];
+    const data = await readRemoteFile(fake.sftp, '/var/log/app.log', { onProgress: transferred => progress.push(transferred) });
+    assert.ok(data.equals(content));
+    assert.ok(fake.maxPending() > 1);
+    assert.strictEqual(progress[progress.length - 1], content.length);
+  });
+
+  test('reads only the tail of a file', async () => {
+    const fake = createFakeSftp(new Map([['/var/log/app.log', content]]));
+    const tail = await readRemoteTail(fake.sftp, '/var/log/app.log', 100);
+    assert.ok(tail.truncated);
+    assert.ok(tail.content.equals(content.subarray(content.length - 100)));
+    const whole = await readRemoteTail(fake.sftp, '/var/log/app.log', content.length * 2);
+    assert.ok(!whole.truncated);
+    assert.strictEqual(whole.content.length, content.length);
+  });
+
+  test('writes a file in chunks and stops when cancelled', async () => {
+    const files = new Map<string, Buffer>();
+    const fake = createFakeSftp(files);
+    await writeRemoteFile(fake.sftp, '/srv/data.bin', content);
+    assert.ok(files.get('/srv/data.bin')!.equals(content));
+
+    let cancelled = false;
+    await assert.rejects(readRemoteFile(fake.sftp, '/srv/data.bin', {
+      onProgress: () => cancelled = true,
+      isCancelled: () => cancelled
+    }), /取消/);
+  });
+
+  test('streams downloads and uploads through local files', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'starsfall-transfer-'));
+    try {
+      const files = new Map([['/srv/data.bin', content]]);
+      const fake = createFakeSftp(files, 5000);
+      const localPath = path.join(dir, 'data.bin');
+      await downloadToLocal(fake.sftp, '/srv/data.bin', localPath);
+      assert.ok(fs.readFileSync(localPath).equals(content));
+
+      await uploadFromLocal(localPath, fake.sftp, '/srv/copy.bin');
+      assert.ok(files.get('/srv/copy.bin')!.equals(content));
+
+      // 取消的下载不留下本地文件
+      const cancelledPath = path.join(dir, 'cancelled.bin');
+      await assert.rejects(downloadToLocal(fake.sftp, '/srv/data.bin', cancelledPath, { isCancelled: () => true }));
+      assert.ok(!fs.existsSync(cancelledPath));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { parseSSHConfig } from '../../sshConfigParser';
+import { resolveSSHConfigServers } from '../../sshConfigHandler';
+
+const parseOptions = { homeDir: '/home/alice', localUser: 'alice', localHostname: 'laptop.local' };
+
+suite('SSH config handler', () => {
+  test('skips only the hosts whose ProxyJump cannot be resolved', () => {
+    const content = [
+      'Host bastion',
+      '  HostName jump.example.com',
+      'Host app',
+      '  HostName 10.0.0.5',
+      '  ProxyJump deploy@bastion:2222',
+      'Host broken',
+      '  HostName 10.0.0.6',
+      '  ProxyJump user@:bad:port',
+      'Host loop-a',
+      '  ProxyJump loop-b',
+      'Host loop-b',
+      '  ProxyJump loop-a',
+      'Host db',
+      '  HostName 10.0.0.7'
+    ].join('\n');
+    const { servers, errors } = resolveSSHConfigServers(parseSSHConfig(content, '/home/alice/.ssh/config', parseOptions));
+
+    assert.deepStrictEqual(servers.map(server => server.name), ['bastion', 'app', 'db']);
+    const jump = servers[1].jumpHosts![0];
+    assert.deepStrictEqual([jump.host, jump.username, jump.port], ['jump.example.com', 'deploy', 2222]);
+    assert.deepStrictEqual(errors.map(error => error.split(':')[0]), ['broken', 'loop-a', 'loop-b']);
+  });
+});
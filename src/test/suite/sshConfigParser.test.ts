@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseSSHConfig, parseSSHConfigFile, tokenizeConfigLine, matchPatternList } from '../../sshConfigParser';
+
+const parseOptions = { homeDir: '/home/alice', localUser: 'alice', localHostname: 'laptop.local' };
+
+suite('SSH config parser', () => {
+  test('tokenizes key=value, quotes and trailing comments', () => {
+    assert.deepStrictEqual(tokenizeConfigLine('  HostName=example.com'), { keyword: 'hostname', args: ['example.com'] });
+    assert.deepStrictEqual(tokenizeConfigLine('IdentityFile "~/My Keys/id_rsa" # work key'), { keyword: 'identityfile', args: ['~/My Keys/id_rsa'] });
+    assert.strictEqual(tokenizeConfigLine('# comment'), undefined);
+  });
+
+  test('matches pattern lists with negation', () => {
+    assert.ok(matchPatternList('web1.prod', ['*.prod', '!db*']));
+    assert.ok(!matchPatternList('db1.prod', ['*.prod', '!db*']));
+    assert.ok(!matchPatternList('web1.dev', ['*.prod']));
+  });
+
+  test('lists every alias of multi-alias Host lines and skips wildcard blocks', () => {
+    const config = parseSSHConfig('Host a b\n  HostName 10.0.0.1\nHost *\n  User root\nHost c?\n', '/home/alice/.ssh/config', parseOptions);
+    assert.deepStrictEqual(config.getHostAliases(), ['a', 'b']);
+  });
+
+  test('first match wins and wildcard defaults are inherited', () => {
+    const content = [
+      'Host web',
+      '  HostName web.example.com',
+      '  Port 2222',
+      'Host *',
+      '  User deploy',
+      '  Port 22',
+      '  IdentityFile ~/.ssh/%h_%r_%p',
+      '  IdentityFile %d/.ssh/id_%u'
+    ].join('\n');
+    const resolved = parseSSHConfig(content, '/home/alice/.ssh/config', parseOptions).resolve('web');
+
+    assert.strictEqual(resolved.hostname, 'web.example.com');
+    assert.strictEqual(resolved.port, 2222);
+    assert.strictEqual(resolved.user, 'deploy');
+    assert.deepStrictEqual(resolved.identityFiles, [
+      path.join('/home/alice', '.ssh', 'web.example.com_deploy_2222'),
+      '/home/alice/.ssh/id_alice'
+    ]);
+  });
+
+  test('falls back to ssh defaults for unknown hosts', () => {
+    const resolved = parseSSHConfig('', '/home/alice/.ssh/config', parseOptions).resolve('plain');
+    assert.strictEqual(resolved.hostname, 'plain');
+    assert.strictEqual(resolved.port, 22);
+    assert.strictEqual(resolved.user, 'alice');
+    assert.strictEqual(resolved.identityFiles[0], path.join('/home/alice', '.ssh', 'id_rsa'));
+  });
+
+  test('evaluates Match host against the resolved HostName', () => {
+    const content = [
+      'Host bastion',
+      '  HostName jump.corp.example',
+      'Match host *.corp.example',
+      '  User ops',
+      'Match originalhost bastion !user ops',
+      '  Port 2200'
+    ].join('\n');
+    const resolved = parseSSHConfig(content, '/home/alice/.ssh/config', parseOptions).resolve('bastion');
+    assert.strictEqual(resolved.user, 'ops');
+    assert.strictEqual(resolved.port, 22);
+  });
+
+  test('expands Include globs relative to ~/.ssh inside the enclosing block', () => {
+    const homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'starsfall-ssh-'));
+    const sshDir = path.join(homeDir, '.ssh');
+    fs.mkdirSync(path.join(sshDir, 'conf.d'), { recursive: true });
+    fs.writeFileSync(path.join(sshDir, 'config'), 'Include conf.d/*\nHost *\n  User fallback\n');
+    fs.writeFileSync(path.join(sshDir, 'conf.d', '10-db'), 'Host db\n  HostName 10.1.0.5\n  User postgres\n');
+    fs.writeFileSync(path.join(sshDir, 'conf.d', '20-cache'), 'Host cache\n  HostName 10.1.0.6\n');
+
+    try {
+      const config = parseSSHConfigFile(path.join(sshDir, 'config'), { ...parseOptions, homeDir });
+      assert.deepStrictEqual(config.getHostAliases(), ['db', 'cache']);
+      assert.strictEqual(config.resolve('db').user, 'postgres');
+      assert.strictEqual(config.resolve('cache').user, 'fallback');
+    } finally {
+      fs.rmSync(homeDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { appendHostBlock, formatProxyJump, removeHostBlock, updateHostBlock } from '../../sshConfigWriter';
+
+const config = [
+  '# team defaults',
+  'Host *',
+  '    ServerAliveInterval 30',
+  '',
+  '# web tier',
+  'Host web',
+  '    HostName 10.0.0.10   # primary',
+  '    User deploy',
+  '',
+  '# database',
+  'Host db db-replica',
+  '\tHostName=10.0.0.20',
+  '\tPort 5022',
+  ''
+].join('\n');
+
+suite('SSH config writer', () => {
+  test('updates values in place and keeps comments and indentation', () => {
+    const result = updateHostBlock(config, 'web', { hostName: '10.0.0.11', port: 2222 });
+    assert.strictEqual(result, config
+      .replace('    HostName 10.0.0.10   # primary', '    HostName 10.0.0.11   # primary')
+      .replace('    User deploy', '    User deploy\n    Port 2222'));
+  });
+
+  test('renames a host and removes a directive', () => {
+    const withKey = updateHostBlock(config, 'web', { identityFile: '~/.ssh/web key' });
+    assert.ok(withKey.includes('    IdentityFile "~/.ssh/web key"'));
+
+    const result = updateHostBlock(withKey, 'web', { name: 'web-1', identityFile: null });
+    assert.strictEqual(result, config.replace('Host web\n', 'Host web-1\n'));
+  });
+
+  test('splits a shared Host line before editing one alias', () => {
+    const result = updateHostBlock(config, 'db-replica', { hostName: '10.0.0.21' });
+    assert.ok(result.includes('Host db\n\tHostName=10.0.0.20\n\tPort 5022\n\nHost db-replica\n\tHostName=10.0.0.21\n\tPort 5022\n'));
+  });
+
+  test('removes a block without touching its neighbours', () => {
+    const result = removeHostBlock(config, 'web');
+    assert.strictEqual(result, config.replace('Host web\n    HostName 10.0.0.10   # primary\n    User deploy\n', ''));
+  });
+
+  test('removes one alias from a shared Host line', () => {
+    assert.ok(removeHostBlock(config, 'db').includes('Host db-replica\n\tHostName=10.0.0.20'));
+  });
+
+  test('appends new blocks with the file line endings', () => {
+    const result = appendHostBlock('Host a\r\n  HostName a.example\r\n', { name: 'b', host: 'b.example', port: 22, username: 'root' });
+    assert.strictEqual(result, 'Host a\r\n  HostName a.example\r\n\r\nHost b\r\n  HostName b.example\r\n  Port 22\r\n  User root\r\n');
+  });
+
+  test('formats jump host chains for ProxyJump', () => {
+    const bastion = { name: 'bastion', host: 'jump.example', port: 22, username: 'ops' };
+    const inner = { name: '10.0.0.5', host: '10.0.0.5', port: 2222, username: 'root' };
+    assert.strictEqual(formatProxyJump([bastion, inner]), 'bastion,root@10.0.0.5:2222');
+
+    const result = updateHostBlock(config, 'web', { proxyJump: formatProxyJump([bastion]) });
+    assert.ok(result.includes('    User deploy\n    ProxyJump bastion\n'));
+  });
+
+  test('throws when the host does not exist', () => {
+    assert.throws(() => removeHostBlock(config, 'missing'));
+  });
+});
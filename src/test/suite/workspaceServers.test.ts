@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { parseWorkspaceServers, resolveWorkspaceServer } from '../../workspaceServers';
+
+suite('Workspace servers', () => {
+  test('parses servers and skips invalid entries', () => {
+    const parsed = parseWorkspaceServers(JSON.stringify({
+      groups: ['staging'],
+      servers: [
+        { name: 'web', host: 'web.example.com', group: 'prod', tags: ['nginx'], comment: 'frontend' },
+        { name: 'db', host: 'db.example.com', password: 'hunter2' },
+        { name: 'web', host: 'other.example.com' },
+        { host: 'nameless.example.com' },
+        { name: 'cache', sshConfigHost: 'cache', port: 70000 }
+      ]
+    }));
+    assert.deepStrictEqual(parsed.groups, ['staging']);
+    // 未知字段不保留
+    assert.deepStrictEqual(parsed.servers, [{ name: 'web', host: 'web.example.com', group: 'prod', tags: ['nginx'] }]);
+    assert.strictEqual(parsed.errors.length, 4);
+    assert.ok(parsed.errors[0].startsWith('db: 不能在共享文件中保存 password'));
+  });
+
+  test('reports files that are not valid JSON', () => {
+    const parsed = parseWorkspaceServers('{ servers: [');
+    assert.deepStrictEqual(parsed.servers, []);
+    assert.strictEqual(parsed.errors.length, 1);
+  });
+
+  test('merges with the referenced ssh config host', () => {
+    const sshConfig = [
+      { name: 'bastion', host: 'bastion.example.com', port: 22, username: 'jump' },
+      { name: 'app', host: '10.0.0.5', port: 2222, username: 'deploy', options: { localforward: ['9000 localhost:9000'] } }
+    ];
+    const details = resolveWorkspaceServer({
+      name: 'App',
+      sshConfigHost: 'app',
+      username: 'ops',
+      passwordEnv: 'APP_PASSWORD',
+      proxyJump: 'bastion,admin@[fd00::1]:2200',
+      remotePath: '/srv/app',
+      localForward: ['8080 localhost:80']
+    }, sshConfig, { APP_PASSWORD: 'secret' });
+
+    assert.strictEqual(details.host, '10.0.0.5');
+    assert.strictEqual(details.port, 2222);
+    assert.strictEqual(details.username, 'ops');
+    assert.strictEqual(details.password, 'secret');
+    assert.strictEqual(details.remotePath, '/srv/app');
+    assert.deepStrictEqual(details.options?.localforward, ['8080 localhost:80']);
+    assert.deepStrictEqual(details.jumpHosts?.map(hop => `${hop.username}@${hop.host}:${hop.port}`), [
+      'jump@bastion.example.com:22',
+      'admin@fd00::1:2200'
+    ]);
+  });
+});
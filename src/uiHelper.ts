@@ -1,74 +1,330 @@
 import * as vscode from 'vscode';
-import { ServerDetails } from './sshConfigHandler';
-
-export async function showServerList(servers: ServerDetails[]): Promise<ServerDetails & { isNew: boolean } | undefined> {
-    const items = servers.map(server => ({
-        label: server.name,
-        description: `${server.host}:${server.port}`,
-        detail: `User: ${server.username}`,
-        server
-    }));
+import { readSSHConfig, ServerDetails } from './sshConfigHandler';
+import { ServerFormPanel } from './serverFormPanel';
+import { parseForwardSpec, PortForwardSpec, PortForwardType } from './portForwardSpec';
+import { SessionAttachMode } from './remoteSession';
+import { IMPORT_FORMAT_LABELS, ImportedServer, ImportFormat } from './serverImport';
+import { EXPORT_FORMATS, ExportedServer, ExportFormat } from './serverExport';
+
+/**
+ * 服务器列表中的一项，清单中的服务器带有分组和标签
+ */
+export type ServerListEntry = ServerDetails & { group?: string; tags?: string[] };
+
+export async function showServerList(servers: ServerListEntry[]): Promise<ServerDetails & { isNew: boolean } | undefined> {
+    type ServerItem = vscode.QuickPickItem & { server?: ServerDetails };
+    const items: ServerItem[] = [];
 
+    // 服务器较多时按分组显示，标签也参与搜索
+    const sorted = [...servers].sort((a, b) => (a.group || '').localeCompare(b.group || ''));
+    const hasGroups = sorted.some(server => server.group);
+    let currentGroup: string | undefined;
+    for (const server of sorted) {
+        if (hasGroups && (items.length === 0 || server.group !== currentGroup)) {
+            currentGroup = server.group;
+            items.push({ label: currentGroup || '未分组', kind: vscode.QuickPickItemKind.Separator });
+        }
+        const tags = (server.tags || []).map(tag => `#${tag}`).join(' ');
+        items.push({
+            label: server.name,
+            description: [`${server.host}:${server.port}`, tags].filter(Boolean).join(' '),
+            detail: `User: ${server.username}`,
+            server
+        });
+    }
+
+    if (hasGroups) {
+        items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+    }
     items.push({
         label: '新增服务器',
         description: '添加新的服务器配置',
-        detail: '',
-        server: { isNew: true } as any
+        detail: ''
     });
 
     const selected = await vscode.window.showQuickPick(items, {
-        placeHolder: '选择要连接的服务器'
+        placeHolder: '选择要连接的服务器',
+        matchOnDescription: true
     });
+    if (!selected) return undefined;
 
-    return selected ? { ...selected.server, isNew: selected.label === '新增服务器' } : undefined;
+    return selected.server ? { ...selected.server, isNew: false } : { isNew: true } as ServerDetails & { isNew: boolean };
 }
 
-export async function promptForServerDetails(): Promise<ServerDetails> {
-    const name = await vscode.window.showInputBox({
-        prompt: '输入服务器名称',
-        placeHolder: '例如: my-server'
+/**
+ * 打开连接表单填写服务器信息；传入已有配置时用于编辑并预先填入
+ * @returns 填写的服务器信息；用户取消时返回 undefined
+ */
+export async function promptForServerDetails(initial?: ServerDetails): Promise<ServerDetails | undefined> {
+    const knownServers = await readSSHConfig().catch(() => []);
+    return ServerFormPanel.show({
+        title: initial ? `编辑服务器: ${initial.name}` : '新增服务器',
+        initial,
+        knownServers
     });
-    if (!name) throw new Error('服务器名称不能为空');
+}
 
-    const host = await vscode.window.showInputBox({
-        prompt: '输入服务器地址',
-        placeHolder: '例如: 192.168.1.1'
+/**
+ * 连接时询问服务器密码
+ */
+export async function promptForPassword(connectionString: string): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+        title: `SSH 认证: ${connectionString}`,
+        prompt: `输入 ${connectionString} 的密码`,
+        password: true,
+        ignoreFocusOut: true
     });
-    if (!host) throw new Error('服务器地址不能为空');
+}
 
-    const port = await vscode.window.showInputBox({
-        prompt: '输入服务器端口',
-        placeHolder: '默认: 22',
-        value: '22'
+/**
+ * 显示 keyboard-interactive 认证的单个问题（如密码、OTP 动态码）
+ */
+export async function promptForAuthChallenge(
+    connectionString: string,
+    challenge: { name?: string; instructions?: string; prompt: string; echo?: boolean }
+): Promise<string | undefined> {
+    const title = [connectionString, challenge.name].filter(Boolean).join(' - ');
+    return vscode.window.showInputBox({
+        title: `SSH 认证: ${title}`,
+        prompt: [challenge.instructions, challenge.prompt].filter(Boolean).join(' ').trim(),
+        password: !challenge.echo,
+        ignoreFocusOut: true
     });
+}
+
+/**
+ * 询问加密私钥的密码短语
+ * @param retry 上一次输入的密码短语是否错误
+ */
+export async function promptForPassphrase(privateKeyPath: string, retry: boolean = false): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+        title: `私钥密码短语: ${privateKeyPath}`,
+        prompt: retry ? '密码短语错误，请重新输入' : `私钥 ${privateKeyPath} 已加密，请输入密码短语`,
+        password: true,
+        ignoreFocusOut: true
+    });
+}
+
+/**
+ * 首次连接时显示主机密钥指纹，询问是否信任并保存
+ */
+export async function confirmUnknownHostKey(hostName: string, keyType: string, fingerprint: string): Promise<boolean> {
+    const trust = '信任并连接';
+    const selection = await vscode.window.showWarningMessage(
+        `无法确认主机 ${hostName} 的真实性`,
+        {
+            modal: true,
+            detail: `${keyType} 密钥指纹为 ${fingerprint}。\n请与服务器管理员核对指纹，信任后将保存到 known_hosts。`
+        },
+        trust
+    );
+    return selection === trust;
+}
+
+/**
+ * 主机密钥与 known_hosts 中记录的不一致时发出警告
+ */
+export function showHostKeyChangedError(hostName: string, keyType: string, oldFingerprint: string, newFingerprint: string, location: string): void {
+    vscode.window.showErrorMessage(
+        `警告：主机 ${hostName} 的密钥已变更，已拒绝连接！`,
+        {
+            modal: true,
+            detail: `可能有人正在进行中间人攻击，也可能是服务器重新生成了密钥。\n`
+                + `已记录的 ${keyType} 指纹: ${oldFingerprint}\n`
+                + `服务器提供的指纹: ${newFingerprint}\n`
+                + `如确认变更合法，请删除 ${location} 中的旧记录后重新连接。`
+        }
+    );
+}
 
-    const username = await vscode.window.showInputBox({
-        prompt: '输入用户名',
-        placeHolder: '默认: root',
-        value: 'root'
+/**
+ * 主机密钥校验未通过（被吊销或不允许新主机）时提示
+ */
+export function showHostKeyRejectedError(hostName: string, reason: string): void {
+    vscode.window.showErrorMessage(`主机 ${hostName} 的密钥校验失败，已拒绝连接: ${reason}`);
+}
+
+/**
+ * 询问新的端口转发：先选择类型，再按 ssh 命令行的写法输入参数
+ */
+export async function promptForPortForward(connectionString: string): Promise<PortForwardSpec | undefined> {
+    const types: Array<vscode.QuickPickItem & { type: PortForwardType; example: string }> = [
+        { label: '本地转发 (-L)', description: '本机端口 → 服务器可访问的地址', type: 'local', example: '8080:localhost:80' },
+        { label: '远程转发 (-R)', description: '服务器端口 → 本机可访问的地址', type: 'remote', example: '9000:localhost:3000' },
+        { label: '动态转发 (-D)', description: '本机 SOCKS 代理，经服务器访问任意地址', type: 'dynamic', example: '1080' }
+    ];
+    const selected = await vscode.window.showQuickPick(types, {
+        title: `添加端口转发: ${connectionString}`,
+        placeHolder: '选择转发类型'
     });
+    if (!selected) return undefined;
 
-    const password = await vscode.window.showInputBox({
-        prompt: '输入密码 (可选)',
-        placeHolder: '留空则使用私钥',
-        password: true
+    const value = await vscode.window.showInputBox({
+        title: `添加端口转发: ${connectionString}`,
+        prompt: selected.type === 'dynamic' ? '[监听地址:]端口' : '[监听地址:]端口:目标主机:目标端口',
+        placeHolder: selected.example,
+        ignoreFocusOut: true,
+        validateInput: input => {
+            try {
+                parseForwardSpec(selected.type, input);
+                return undefined;
+            } catch (err) {
+                return err instanceof Error ? err.message : String(err);
+            }
+        }
     });
+    return value ? parseForwardSpec(selected.type, value) : undefined;
+}
 
-    const privateKeyPath = password
-        ? undefined
-        : await vscode.window.showOpenDialog({
-              canSelectFiles: true,
-              canSelectFolders: false,
-              canSelectMany: false,
-              openLabel: '选择私钥文件'
-          }).then(uri => uri?.[0]?.fsPath);
-
-    return {
-        name,
-        host,
-        port: port ? parseInt(port, 10) : 22,
-        username: username || 'root',
-        password,
-        privateKeyPath
-    };
-}
\ No newline at end of file
+/**
+ * 复制持久会话终端时选择附加到同一会话或在会话中新建窗口
+ */
+export async function pickSessionDuplicateMode(sessionName: string): Promise<SessionAttachMode | undefined> {
+    const items: Array<vscode.QuickPickItem & { mode: SessionAttachMode }> = [
+        { label: '附加到同一会话', description: '与当前终端显示相同的内容', mode: 'attach' },
+        { label: '在会话中新建窗口', description: '在同一会话中打开新的 shell', mode: 'new-window' }
+    ];
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: `复制会话 ${sessionName} 的终端` });
+    return selected?.mode;
+}
+
+/**
+ * 选择服务器在清单中的分组，可输入新的分组路径
+ * @returns 分组路径，空字符串表示不分组；取消时返回 undefined
+ */
+export async function promptForGroup(groups: string[], current?: string): Promise<string | undefined> {
+    const items: Array<vscode.QuickPickItem & { group?: string }> = [
+        { label: '$(add) 新建分组…' },
+        { label: '未分组', description: current ? undefined : '当前', group: '' },
+        ...groups.map(group => ({ label: group, description: group === current ? '当前' : undefined, group }))
+    ];
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: '选择分组' });
+    if (!selected) return undefined;
+    if (selected.group !== undefined) return selected.group;
+
+    return vscode.window.showInputBox({
+        prompt: '输入分组路径，用 / 表示嵌套分组',
+        placeHolder: '例如: prod/eu',
+        value: current
+    });
+}
+
+/**
+ * 输入服务器标签，多个标签用逗号或空格分隔
+ * @returns 标签列表；取消时返回 undefined
+ */
+export async function promptForTags(current: string[] = []): Promise<string[] | undefined> {
+    const value = await vscode.window.showInputBox({
+        prompt: '输入标签，多个标签用逗号或空格分隔',
+        placeHolder: '例如: db, customer-a',
+        value: current.join(', ')
+    });
+    if (value === undefined) return undefined;
+    return Array.from(new Set(value.split(/[\s,]+/).map(tag => tag.replace(/^#/, '')).filter(Boolean)));
+}
+
+/**
+ * 选择服务器在文件树中的图标颜色
+ * @returns 主题颜色 id，空字符串表示默认颜色；取消时返回 undefined
+ */
+export async function pickServerColor(current?: string): Promise<string | undefined> {
+    const colors: Array<[string, string]> = [
+        ['默认', ''],
+        ['红色', 'charts.red'],
+        ['橙色', 'charts.orange'],
+        ['黄色', 'charts.yellow'],
+        ['绿色', 'charts.green'],
+        ['蓝色', 'charts.blue'],
+        ['紫色', 'charts.purple']
+    ];
+    const selected = await vscode.window.showQuickPick(
+        colors.map(([label, color]) => ({ label, description: color === (current || '') ? '当前' : color || undefined, color })),
+        { placeHolder: '选择图标颜色' }
+    );
+    return selected?.color;
+}
+
+/**
+ * 无法从文件判断导出格式时让用户选择
+ */
+export async function pickImportFormat(): Promise<ImportFormat | undefined> {
+    const items = (Object.keys(IMPORT_FORMAT_LABELS) as ImportFormat[]).map(format => ({ label: IMPORT_FORMAT_LABELS[format], format }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: '选择导出文件的格式' });
+    return selected?.format;
+}
+
+/**
+ * 预览待导入的服务器，默认勾选尚不存在的服务器
+ * @param existingNames 已存在的服务器名称，重复的条目默认不勾选
+ */
+export async function pickServersToImport(servers: ImportedServer[], existingNames: Set<string>): Promise<ImportedServer[] | undefined> {
+    const items = servers.map(server => {
+        const exists = existingNames.has(server.name);
+        return {
+            label: server.name,
+            description: `${server.username}@${server.host}:${server.port}${exists ? '（已存在）' : ''}`,
+            detail: [
+                server.group ? `分组: ${server.group}` : undefined,
+                server.tags?.length ? `标签: ${server.tags.map(tag => `#${tag}`).join(' ')}` : undefined,
+                server.privateKeyPath ? `私钥: ${server.privateKeyPath}` : undefined
+            ].filter(Boolean).join('  ') || undefined,
+            picked: !exists,
+            server
+        };
+    });
+    const selected = await vscode.window.showQuickPick(items, {
+        title: `导入服务器（共 ${servers.length} 台）`,
+        placeHolder: '勾选要导入的服务器',
+        canPickMany: true,
+        matchOnDescription: true,
+        matchOnDetail: true,
+        ignoreFocusOut: true
+    });
+    return selected?.map(item => item.server);
+}
+
+/**
+ * 选择导入的服务器写入 ssh 配置还是服务器清单
+ */
+export async function pickImportTarget(): Promise<'sshConfig' | 'inventory' | undefined> {
+    const items: Array<vscode.QuickPickItem & { target: 'sshConfig' | 'inventory' }> = [
+        { label: '服务器清单', description: '保留分组和标签，随设置同步', target: 'inventory' },
+        { label: 'SSH 配置', description: '追加到 ~/.ssh/config，其他 ssh 客户端也可使用', target: 'sshConfig' }
+    ];
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: '导入到' });
+    return selected?.target;
+}
+
+/**
+ * 可导出的一组服务器
+ */
+export interface ExportScope {
+    label: string;
+    section: string; // 所属来源，用作列表中的分隔标题
+    servers: ExportedServer[];
+}
+
+export async function pickExportScope(scopes: ExportScope[]): Promise<ExportScope | undefined> {
+    type ScopeItem = vscode.QuickPickItem & { scope?: ExportScope };
+    const items: ScopeItem[] = [];
+    let section: string | undefined;
+    for (const scope of scopes) {
+        if (scope.section !== section) {
+            section = scope.section;
+            items.push({ label: section, kind: vscode.QuickPickItemKind.Separator });
+        }
+        items.push({ label: scope.label, description: `${scope.servers.length} 台`, scope });
+    }
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: '选择要导出的服务器' });
+    return selected?.scope;
+}
+
+export async function pickExportFormat(): Promise<ExportFormat | undefined> {
+    const items = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => ({
+        label: EXPORT_FORMATS[format].label,
+        description: EXPORT_FORMATS[format].fileName,
+        format
+    }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: '选择导出格式' });
+    return selected?.format;
+}
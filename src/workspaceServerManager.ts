@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { ServerDetails } from './sshConfigHandler';
+import { expandGroupPaths } from './serverInventory';
+import { parseWorkspaceServers, resolveWorkspaceServer, WORKSPACE_SERVERS_FILE, WorkspaceServerDefinition } from './workspaceServers';
+
+/**
+ * 工作区中定义的服务器及其所在的工作区文件夹
+ */
+export interface WorkspaceServer extends WorkspaceServerDefinition {
+    folder: string;
+}
+
+/**
+ * 读取各工作区文件夹中的 .starsfall/servers.json，文件变化时自动重新加载
+ */
+export class WorkspaceServerManager {
+    private static instance: WorkspaceServerManager;
+    private servers: WorkspaceServer[] = [];
+    private groups: string[] = [];
+    private reportedErrors: Set<string> = new Set(); // 已提示过的错误，避免每次保存文件都重复弹出
+    private loaded: Promise<void> = Promise.resolve(); // 激活时的首次加载
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    public static getInstance(): WorkspaceServerManager {
+        if (!WorkspaceServerManager.instance) {
+            WorkspaceServerManager.instance = new WorkspaceServerManager();
+        }
+        return WorkspaceServerManager.instance;
+    }
+
+    /**
+     * 开始监听定义文件并加载（扩展激活时调用）
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_SERVERS_FILE}`);
+        watcher.onDidCreate(() => this.reload());
+        watcher.onDidChange(() => this.reload());
+        watcher.onDidDelete(() => this.reload());
+        context.subscriptions.push(
+            watcher,
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload())
+        );
+        this.loaded = this.reload();
+    }
+
+    /**
+     * 等待激活时的首次加载完成，重新打开工作区后查找服务器前调用
+     */
+    public whenLoaded(): Promise<void> {
+        return this.loaded;
+    }
+
+    public getServers(): WorkspaceServer[] {
+        return this.servers;
+    }
+
+    /**
+     * 工作区文件中的全部分组路径（含各级父分组）
+     */
+    public getGroups(): string[] {
+        return expandGroupPaths([...this.groups, ...this.servers.map(server => server.group)]);
+    }
+
+    /**
+     * 与 ssh 配置合并得到连接参数
+     */
+    public resolve(server: WorkspaceServer, sshConfigServers: ServerDetails[]): ServerDetails {
+        // proxyJump 可以引用 ssh 配置或同一工作区中的其他服务器
+        const others = this.servers
+            .filter(other => other !== server && other.folder === server.folder)
+            .map(other => resolveWorkspaceServer({ ...other, proxyJump: undefined }, sshConfigServers));
+        return resolveWorkspaceServer(server, [...sshConfigServers, ...others]);
+    }
+
+    private async reload(): Promise<void> {
+        const servers: WorkspaceServer[] = [];
+        const groups: string[] = [];
+        const errors: string[] = [];
+        // 不读取远程文件夹中的定义：连接远程文件夹本身就需要先加载这些定义
+        for (const folder of (vscode.workspace.workspaceFolders || []).filter(item => item.uri.scheme !== 'ssh')) {
+            const uri = vscode.Uri.joinPath(folder.uri, WORKSPACE_SERVERS_FILE);
+            let content: string;
+            try {
+                content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            } catch {
+                continue; // 该文件夹没有定义文件
+            }
+            const parsed = parseWorkspaceServers(content);
+            groups.push(...parsed.groups);
+            servers.push(...parsed.servers.map(server => ({ ...server, folder: folder.name })));
+            errors.push(...parsed.errors.map(error => `${folder.name}/${WORKSPACE_SERVERS_FILE}: ${error}`));
+        }
+
+        this.servers = servers;
+        this.groups = groups;
+        const newErrors = errors.filter(error => !this.reportedErrors.has(error));
+        this.reportedErrors = new Set(errors);
+        if (newErrors.length > 0) {
+            vscode.window.showWarningMessage(`工作区服务器定义有误，已跳过：${newErrors.join('；')}`);
+        }
+        this._onDidChange.fire();
+    }
+}
@@ -0,0 +1,183 @@
+import * as os from 'os';
+import * as path from 'path';
+import { ServerDetails } from './sshConfigHandler';
+
+/**
+ * 工作区服务器定义文件相对于工作区根目录的路径
+ */
+export const WORKSPACE_SERVERS_FILE = '.starsfall/servers.json';
+
+/**
+ * .starsfall/servers.json 中的一台服务器，随仓库共享，因此只保存对密钥和密码的引用
+ */
+export interface WorkspaceServerDefinition {
+    name: string;
+    host?: string;
+    port?: number;
+    username?: string;
+    sshConfigHost?: string;     // 引用 ~/.ssh/config 中的 Host 别名，未填写的字段取自 ssh 配置
+    identityFile?: string;      // 私钥路径（可使用 ~），私钥本身不写入文件
+    passwordEnv?: string;       // 保存密码的环境变量名
+    proxyJump?: string;         // 与 ssh 的 ProxyJump 写法相同，可引用 ssh 配置或本文件中的服务器名
+    group?: string;
+    tags?: string[];
+    color?: string;
+    remotePath?: string;        // 连接后终端进入的目录
+    localForward?: string[];    // 与 ssh 配置的写法相同，如 "8080 localhost:80"
+    remoteForward?: string[];
+    dynamicForward?: string[];
+}
+
+export interface WorkspaceServersFile {
+    groups: string[];
+    servers: WorkspaceServerDefinition[];
+}
+
+// 不允许出现在共享文件中的字段及替代写法
+const SECRET_FIELDS: Record<string, string> = {
+    password: 'passwordEnv',
+    passphrase: 'identityFile 并由 ssh-agent 或密码短语提示提供',
+    privateKey: 'identityFile'
+};
+
+// proxyJump 中的一跳：[user@]host[:port]，IPv6 地址用方括号括起
+const JUMP_HOST_PATTERN = /^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/;
+
+const STRING_FIELDS = ['host', 'username', 'sshConfigHost', 'identityFile', 'passwordEnv', 'proxyJump', 'group', 'color', 'remotePath'] as const;
+const LIST_FIELDS = ['tags', 'localForward', 'remoteForward', 'dynamicForward'] as const;
+
+/**
+ * 解析工作区服务器定义文件，无效的服务器跳过并记录原因
+ */
+export function parseWorkspaceServers(content: string): WorkspaceServersFile & { errors: string[] } {
+    const errors: string[] = [];
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (err) {
+        return { groups: [], servers: [], errors: [`无法解析 ${WORKSPACE_SERVERS_FILE}: ${err instanceof Error ? err.message : String(err)}`] };
+    }
+    if (!isRecord(data) || !Array.isArray(data.servers)) {
+        return { groups: [], servers: [], errors: [`${WORKSPACE_SERVERS_FILE} 缺少 servers 数组`] };
+    }
+
+    const groups = Array.isArray(data.groups) ? data.groups.filter((group: unknown): group is string => typeof group === 'string') : [];
+    const servers: WorkspaceServerDefinition[] = [];
+    const names = new Set<string>();
+    data.servers.forEach((entry: unknown, index: number) => {
+        const label = isRecord(entry) && typeof entry.name === 'string' && entry.name ? entry.name : `servers[${index}]`;
+        const server = parseServer(entry);
+        if (typeof server === 'string') {
+            errors.push(`${label}: ${server}`);
+        } else if (names.has(server.name)) {
+            errors.push(`${label}: 服务器名称重复`);
+        } else {
+            names.add(server.name);
+            servers.push(server);
+        }
+    });
+    return { groups, servers, errors };
+}
+
+/**
+ * 校验一台服务器的定义，只保留已知字段
+ * @returns 服务器定义；无效时返回原因
+ */
+function parseServer(entry: unknown): WorkspaceServerDefinition | string {
+    if (!isRecord(entry)) return '应为对象';
+    for (const [field, replacement] of Object.entries(SECRET_FIELDS)) {
+        if (field in entry) {
+            return `不能在共享文件中保存 ${field}，请改用 ${replacement}`;
+        }
+    }
+    const name = entry.name;
+    if (typeof name !== 'string' || !name.trim()) return '缺少 name';
+    if (!entry.host && !entry.sshConfigHost) return '需要填写 host 或 sshConfigHost';
+
+    const server: WorkspaceServerDefinition = { name };
+    for (const field of STRING_FIELDS) {
+        if (!(field in entry)) continue;
+        const value = entry[field];
+        if (typeof value !== 'string') return `${field} 应为字符串`;
+        server[field] = value;
+    }
+    for (const field of LIST_FIELDS) {
+        if (!(field in entry)) continue;
+        const value = entry[field];
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return `${field} 应为字符串数组`;
+        server[field] = value;
+    }
+    if ('port' in entry) {
+        const port = entry.port;
+        if (typeof port !== 'number' || !Number.isInteger(port) || port <= 0 || port > 65535) return 'port 应为 1-65535 的整数';
+        server.port = port;
+    }
+    if (server.proxyJump && server.proxyJump.split(',').some(hop => !JUMP_HOST_PATTERN.test(hop.trim()))) {
+        return `无效的 proxyJump: ${server.proxyJump}`;
+    }
+    return server;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 与 ssh 配置合并得到连接参数：引用 sshConfigHost 时以 ssh 配置为基础，文件中填写的字段优先
+ * @param known ssh 配置和工作区文件中的其他服务器，用于解析 proxyJump 中的名称
+ */
+export function resolveWorkspaceServer(
+    definition: WorkspaceServerDefinition,
+    known: ServerDetails[],
+    env: Record<string, string | undefined> = process.env
+): ServerDetails {
+    const base = definition.sshConfigHost ? known.find(details => details.name === definition.sshConfigHost) : undefined;
+    const options = { ...(base?.options || {}) };
+    if (definition.localForward) options.localforward = definition.localForward;
+    if (definition.remoteForward) options.remoteforward = definition.remoteForward;
+    if (definition.dynamicForward) options.dynamicforward = definition.dynamicForward;
+
+    const username = definition.username || base?.username || os.userInfo().username;
+    const privateKeyPath = definition.identityFile ? expandHome(definition.identityFile) : base?.privateKeyPath;
+    const details: ServerDetails = {
+        ...base,
+        name: definition.name,
+        host: definition.host || base?.host || definition.sshConfigHost!,
+        port: definition.port || base?.port || 22,
+        username,
+        privateKeyPath,
+        identityFiles: definition.identityFile ? [privateKeyPath!] : base?.identityFiles,
+        options,
+        remotePath: definition.remotePath
+    };
+    if (definition.passwordEnv && env[definition.passwordEnv]) {
+        details.password = env[definition.passwordEnv];
+    }
+    if (definition.proxyJump) {
+        details.jumpHosts = definition.proxyJump.toLowerCase() === 'none'
+            ? undefined
+            : parseJumpHosts(definition.proxyJump, username, known.filter(server => server.name !== definition.name));
+        details.proxyCommand = undefined;
+    }
+    return details;
+}
+
+/**
+ * 解析 ProxyJump 写法的跳板机列表：已知的服务器名直接引用，否则按 [user@]host[:port] 解析
+ */
+export function parseJumpHosts(value: string, defaultUser: string, known: ServerDetails[]): ServerDetails[] {
+    return value.split(',').map(hop => hop.trim()).filter(Boolean).map(hop => {
+        const server = known.find(details => details.name === hop);
+        if (server) return server;
+        const match = JUMP_HOST_PATTERN.exec(hop);
+        if (!match) {
+            throw new Error(`无效的 proxyJump: ${hop}`);
+        }
+        const host = match[2].replace(/^\[|\]$/g, '');
+        return { name: hop, host, port: match[3] ? parseInt(match[3], 10) : 22, username: match[1] || defaultUser };
+    });
+}
+
+function expandHome(file: string): string {
+    return file === '~' || file.startsWith('~/') ? path.join(os.homedir(), file.substring(1)) : file;
+}